@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SmoothOperatorClient, ExistingChromeInstanceStrategy } from 'smooth-operator-agent-tools';
+import { createGuardedClient, expectFocusedWindow, ActionBlockedError, SafetySettings } from './action-guard';
+
+// A desktop with the ERP window; focusedTitle is the window that has the focus. Calls are recorded.
+function createFakeClient(focusedTitle = "Mini ERP Mock") {
+  const calls: string[] = [];
+  const succeed = (name: string) => async (...args: unknown[]) => {
+    calls.push(`${name}(${args.map(arg => JSON.stringify(arg)).join(", ")})`);
+    return { success: true };
+  };
+  const client = {
+    system: {
+      getOverview: async () => {
+        calls.push("system.getOverview()");
+        return { focusInfo: { focusedElementParentWindow: { id: "w1", title: focusedTitle, name: focusedTitle, controlType: "Window" } } };
+      },
+      getWindowDetails: async () => {
+        calls.push("system.getWindowDetails()");
+        return { userInterfaceElements: { id: "w1", controlType: "Window", name: "Mini ERP Mock", children: [
+          { id: "add", controlType: "Button", name: "Add Item" },
+          { id: "save", controlType: "Button", name: "Save Order" },
+        ] } };
+      },
+      openApplication: succeed("system.openApplication"),
+    },
+    chrome: { openChrome: succeed("chrome.openChrome") },
+    automation: { invoke: succeed("automation.invoke") },
+    mouse: { clickByDescription: succeed("mouse.clickByDescription") },
+    keyboard: { type: succeed("keyboard.type") },
+  } as unknown as SmoothOperatorClient;
+  return { client, calls };
+}
+
+// Never asked: the tests that confirm pass their own
+const refuse = async () => { throw new Error("not expected to ask"); };
+
+const blocked = (kind: ActionBlockedError["kind"]) => (error: unknown) => error instanceof ActionBlockedError && error.kind === kind;
+
+const guarded = (settings: SafetySettings, focusedTitle?: string) => {
+  const fake = createFakeClient(focusedTitle);
+  return { ...fake, guardedClient: createGuardedClient(fake.client, { confirm: false, ...settings }, refuse) };
+};
+
+test("force-closing Chrome is refused without an opt-in", async () => {
+  const { guardedClient, calls } = guarded({});
+  await assert.rejects(guardedClient.chrome.openChrome("https://mail.google.com/", ExistingChromeInstanceStrategy.ForceClose),
+    (error: unknown) => blocked("force-close")(error) && /--allow-destructive force-close/.test((error as Error).message));
+  assert.deepEqual(calls, []);
+
+  const allowed = guarded({ allowDestructive: ["force-close"] });
+  await allowed.guardedClient.chrome.openChrome("https://mail.google.com/", ExistingChromeInstanceStrategy.ForceClose);
+  assert.equal(allowed.calls.length, 1);
+});
+
+test("clicking a submit button is refused without an opt-in or a confirmation", async () => {
+  const { guardedClient, calls } = guarded({});
+  await guardedClient.system.getWindowDetails("w1");
+  await guardedClient.automation.invoke("add");
+  await assert.rejects(guardedClient.automation.invoke("save"), blocked("submit"));
+  await assert.rejects(guardedClient.mouse.clickByDescription("the Send button"), blocked("submit"));
+  assert.deepEqual(calls, ["system.getWindowDetails()", 'automation.invoke("add")']);
+
+  // A confirmation allows it
+  const confirmed = createFakeClient();
+  const questions: string[] = [];
+  const client = createGuardedClient(confirmed.client, {}, async description => { questions.push(description); return true; });
+  await client.system.getWindowDetails("w1");
+  await client.automation.invoke("save");
+  assert.deepEqual(questions, ['clicking the "Save Order" button (submit)']);
+  assert.equal(confirmed.calls[1], 'automation.invoke("save")');
+});
+
+test("typing without a declared window is refused without an opt-in", async () => {
+  const { guardedClient, calls } = guarded({});
+  await assert.rejects(guardedClient.keyboard.type("3+4"), blocked("type-unknown-window"));
+  assert.deepEqual(calls, ["system.getOverview()"]);
+
+  const allowed = guarded({ allowDestructive: ["type-unknown-window"] });
+  await allowed.guardedClient.keyboard.type("3+4");
+  assert.deepEqual(allowed.calls, ["system.getOverview()", 'keyboard.type("3+4")']);
+});
+
+test("typing is refused while another window than the declared one has the focus", async () => {
+  const { guardedClient, calls } = guarded({}, "Untitled - Notepad");
+  expectFocusedWindow(guardedClient, 'Window[name~="Calculator"]');
+  await assert.rejects(guardedClient.keyboard.type("3+4"),
+    (error: unknown) => blocked("focus")(error) && (error as Error).message.includes('the focused window is "Untitled - Notepad"'));
+  assert.deepEqual(calls, ["system.getOverview()"]);
+
+  const calculator = guarded({}, "Calculator");
+  expectFocusedWindow(calculator.guardedClient, 'Window[name~="Calculator"]');
+  await calculator.guardedClient.keyboard.type("3+4");
+  assert.deepEqual(calculator.calls, ["system.getOverview()", 'keyboard.type("3+4")']);
+});
+
+test("a dry run logs the actions without running them, reading calls still run", async t => {
+  const logged = t.mock.method(console, "log", () => {});
+  const { guardedClient, calls } = guarded({ dryRun: true });
+  assert.deepEqual(await guardedClient.system.openApplication("calc"), { success: true, message: "dry run, not executed" });
+  await guardedClient.keyboard.type("3+4");
+  await guardedClient.system.getWindowDetails("w1");
+  await guardedClient.automation.invoke("save");
+  assert.deepEqual(calls, ["system.getWindowDetails()"]);
+  assert.deepEqual(logged.mock.calls.map(call => call.arguments[0]),
+    ['[dry run] system.openApplication("calc")', '[dry run] keyboard.type("3+4")', '[dry run] automation.invoke("save")']);
+});
@@ -0,0 +1,193 @@
+import * as readline from 'readline';
+import { SmoothOperatorClient, ExistingChromeInstanceStrategy } from 'smooth-operator-agent-tools';
+import { AutomationNode, walkTree, windowListToTree } from './automation-tree';
+import { queryAll } from './tree-query';
+import { unrecordedClient } from './client-cassette';
+
+/**
+ * Actions that can destroy work of the user or cannot be undone:
+ * - force-close: closing running applications, e.g. openChrome with ExistingChromeInstanceStrategy.ForceClose
+ * - submit: invoking or clicking save, submit, send, delete and similar buttons
+ * - type-unknown-window: keyboard.type without a declared window, into whatever window has the focus
+ */
+export type DestructiveActionKind = "force-close" | "submit" | "type-unknown-window";
+
+export const DESTRUCTIVE_ACTION_KINDS: DestructiveActionKind[] = ["force-close", "submit", "type-unknown-window"];
+
+/**
+ * The safety settings of the config, see loadConfig
+ */
+export interface SafetySettings {
+  /** Destructive actions that run without asking */
+  allowDestructive?: DestructiveActionKind[];
+  /** Ask on the terminal before the other destructive actions; false (or no terminal) refuses them (default: true) */
+  confirm?: boolean;
+  /** Log the automation actions instead of running them; reading calls such as getOverview still run */
+  dryRun?: boolean;
+}
+
+/**
+ * Asks whether a destructive action may run, e.g. "clicking the "Save Order" button (submit)"
+ */
+export type ConfirmAction = (description: string) => Promise<boolean>;
+
+/**
+ * Thrown by a guarded client for an action that was refused, or for keyboard.type while another
+ * window than the expected one has the focus
+ */
+export class ActionBlockedError extends Error {
+  constructor(
+    message: string,
+    /** The kind of destructive action, or "focus" for the focused window check */
+    public readonly kind: DestructiveActionKind | "focus"
+  ) {
+    super(message);
+    this.name = "ActionBlockedError";
+  }
+}
+
+/** Names of buttons and descriptions of clicks that save, send or delete something */
+export const SUBMIT_ACTION_PATTERN = /\b(save|submit|send|delete|remove|confirm|pay|purchase|checkout|place order)\b/i;
+
+// Calls that only read and also run in a dry run
+const readMethods = ["system.getOverview", "system.getWindowDetails", "screenshot.take", "chrome.getText"];
+
+// Set through expectFocusedWindow, so that the setting passes through other client wrappers
+const expectWindowKey = Symbol("expectFocusedWindow");
+
+/**
+ * Declare the window the next keyboard.type calls are meant for, as a tree selector over the window
+ * list, e.g. 'Window[name~="Calculator"]'; null for no particular window. A guarded client (see
+ * createGuardedClient) refuses to type while another window has the focus. Other clients ignore it.
+ */
+export function expectFocusedWindow(client: Pick<SmoothOperatorClient, "keyboard">, windowSelector: string | null) {
+  const expect = (client as unknown as Record<symbol, unknown>)[expectWindowKey];
+  if (typeof expect === "function") {
+    expect(windowSelector);
+  }
+}
+
+/**
+ * Ask on the terminal; refuses without asking if the input is no terminal, e.g. in scheduled runs
+ */
+export async function confirmOnTerminal(description: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await new Promise<string>(resolve => rl.question(`Allow ${description}? [y/N] `, resolve));
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+const formatArgs = (args: unknown[]) => args.map(arg => JSON.stringify(arg)).join(", ");
+
+/**
+ * Wrap a client with the safety policy. Destructive actions (see DestructiveActionKind) only run if
+ * their kind is allowed in the settings or confirm agrees, otherwise they throw an ActionBlockedError.
+ * keyboard.type checks the focused window first, see expectFocusedWindow. In a dry run the actions are
+ * logged and answered with success without running; reading calls still run.
+ */
+export function createGuardedClient(
+  client: SmoothOperatorClient,
+  settings: SafetySettings = {},
+  confirm: ConfirmAction = confirmOnTerminal
+): SmoothOperatorClient {
+  const allowed = settings.allowDestructive ?? [];
+  // Names of the elements in the trees the run has read, to recognize "Save" and "Submit" buttons
+  const elementNames = new Map<string, string>();
+  let expectedWindow: string | null = null;
+
+  const rememberNames = (root: AutomationNode | undefined) => {
+    if (root) {
+      walkTree(root, node => { if (node.id && node.name) elementNames.set(node.id, node.name); });
+    }
+  };
+
+  // The kind and description of a destructive action; null for other actions
+  const classify = async (method: string, args: unknown[]): Promise<{ kind: DestructiveActionKind; description: string } | null> => {
+    if (method === "chrome.openChrome" && args[1] === ExistingChromeInstanceStrategy.ForceClose) {
+      return { kind: "force-close", description: `closing the running Chrome to open ${args[0] ?? "Chrome"} (force-close)` };
+    }
+    if (method === "automation.invoke") {
+      const name = elementNames.get(String(args[0]));
+      if (name && SUBMIT_ACTION_PATTERN.test(name)) {
+        return { kind: "submit", description: `clicking the "${name}" button (submit)` };
+      }
+    }
+    if (method === "mouse.clickByDescription" && SUBMIT_ACTION_PATTERN.test(String(args[0]))) {
+      return { kind: "submit", description: `clicking ${args[0]} (submit)` };
+    }
+    if (method === "keyboard.type") {
+      // Not part of a recorded cassette, recordings with and without the guard replay alike
+      const overview = await unrecordedClient(client).system.getOverview();
+      const focused = overview?.focusInfo?.focusedElementParentWindow;
+      const title = focused?.title ?? (focused as AutomationNode | undefined)?.name ?? "no window";
+      if (expectedWindow === null) {
+        return { kind: "type-unknown-window", description: `typing ${JSON.stringify(args[0])} into "${title}" (type-unknown-window)` };
+      }
+      if (!focused || queryAll(windowListToTree([focused]), expectedWindow).length === 0) {
+        throw new ActionBlockedError(`Refusing to type: the focused window is "${title}", expected a window matching '${expectedWindow}'.`, "focus");
+      }
+    }
+    return null;
+  };
+
+  const guard = async (method: string, args: unknown[]) => {
+    if (settings.dryRun) {
+      console.log(`[dry run] ${method}(${formatArgs(args)})`);
+      return;
+    }
+    const destructive = await classify(method, args);
+    if (!destructive || allowed.includes(destructive.kind)) {
+      return;
+    }
+    if (settings.confirm !== false && await confirm(destructive.description)) {
+      return;
+    }
+    throw new ActionBlockedError(`Refused ${destructive.description}; allow it with --allow-destructive ${destructive.kind} `
+      + "or confirm it on the terminal.", destructive.kind);
+  };
+
+  const namespaces = new Map<string, object>();
+  const wrapNamespace = (name: string, target: object) => new Proxy(target, {
+    get(namespace, property, receiver) {
+      const value = Reflect.get(namespace, property, receiver);
+      if (typeof value !== "function" || typeof property !== "string") {
+        return value;
+      }
+      const method = `${name}.${property}`;
+      return async (...args: unknown[]) => {
+        if (readMethods.includes(method)) {
+          const result = await value.apply(namespace, args);
+          rememberNames(method === "system.getWindowDetails" ? result?.userInterfaceElements : result?.focusInfo?.focusedElementParentWindow);
+          return result;
+        }
+        await guard(method, args);
+        if (settings.dryRun) {
+          return { success: true, message: "dry run, not executed" };
+        }
+        return value.apply(namespace, args);
+      };
+    },
+  });
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      if (property === expectWindowKey) {
+        return (selector: string | null) => { expectedWindow = selector; };
+      }
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property === "string" && value !== null && typeof value === "object") {
+        if (!namespaces.has(property)) {
+          namespaces.set(property, wrapNamespace(property, value));
+        }
+        return namespaces.get(property);
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
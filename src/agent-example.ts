@@ -0,0 +1,104 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createLlmProviderFromConfig, LlmProvider } from './llm-provider';
+import { createClientFromConfig } from './automation-client';
+import { Config, loadConfig } from './config';
+import { RunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { createStepRunner, printStepSummary, RetryOptions } from './step-runner';
+import { runAgent, AgentActionName } from './ui-agent';
+import { createGuardedClient } from './action-guard';
+
+/**
+ * Options for the agent example
+ */
+export interface AgentExampleOptions {
+  /** What the agent should do, e.g. "Compute 12*7 in the calculator and read the result" */
+  goal: string;
+  /** Open this application before the agent starts, e.g. "calc" */
+  application?: string;
+  /** Actions executed at most (default: DEFAULT_AGENT_MAX_STEPS) */
+  maxSteps?: number;
+  /** The actions the model may choose (default: all of AGENT_ACTIONS) */
+  allowedActions?: AgentActionName[];
+  /** Retries of failed steps, override retry of the config (default: DEFAULT_RETRY_OPTIONS) */
+  retry?: Partial<RetryOptions>;
+  /** Event log and artifacts of the run, see createRunLog (default: none) */
+  runLog?: RunLog;
+  /** Settings such as the API keys (default: loadConfig(), from the config file, the environment and the .env file) */
+  config?: Config;
+  /** Client to use instead of creating one, e.g. a replay client (default: createClientFromConfig) */
+  client?: SmoothOperatorClient;
+  /** Language model to use instead of creating one, e.g. createScriptedProvider (default: createLlmProviderFromConfig) */
+  llm?: LlmProvider;
+  /** URL of an already running Smooth Operator server, e.g. "http://localhost:54321" */
+  serverUrl?: string;
+}
+
+/**
+ * Let the language model reach a goal by choosing UI actions step by step, see runAgent.
+ * Returns true if the model reported the goal as done.
+ */
+export async function runAgentExample(options: AgentExampleOptions): Promise<boolean> {
+  // The settings can be passed in, otherwise they are read from the config file, the environment and the .env file
+  let client: SmoothOperatorClient | null;
+  let llm: LlmProvider | null;
+  let retry: Partial<RetryOptions>;
+  try {
+    const config = options.config ?? loadConfig();
+    retry = { ...config.retry, ...options.retry };
+    client = options.client ?? createClientFromConfig(config, options.serverUrl);
+    // Destructive actions need an opt-in or a confirmation, a dry run only logs the actions, see action-guard.ts
+    client = client && createGuardedClient(client, config.safety);
+    llm = options.llm ?? createLlmProviderFromConfig(config.llm);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+  if (!client) {
+    console.error("Error: SCREENGRASP_API_KEY not found in .env file. Get a free key at https://screengrasp.com/api.html");
+    return false;
+  }
+  if (!llm) {
+    console.error("Error: The agent needs a language model (OPENAI_API_KEY or LLM_PROVIDER).");
+    return false;
+  }
+  // Client calls and language model requests are written to the run log, see run-log.ts
+  if (options.runLog) {
+    client = createLoggingClient(client, options.runLog);
+    llm = createLoggingLlmProvider(llm, options.runLog);
+  }
+
+  console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
+  try {
+    await client.startServer();
+  } catch (error) {
+    console.error("Failed to start server:", error);
+    return false;
+  }
+
+  const steps = createStepRunner(retry, options.runLog?.recordStep);
+  try {
+    if (options.application) {
+      console.log(`Opening ${options.application}...`);
+      const application = options.application;
+      await steps.run("open application", () => client!.system.openApplication(application));
+    }
+    console.log(`Goal: ${options.goal}`);
+    const result = await runAgent(options.goal, {
+      client,
+      llm,
+      steps,
+      maxSteps: options.maxSteps,
+      allowedActions: options.allowedActions,
+      runLog: options.runLog,
+    });
+    console.log(`\nAgent run ended (${result.status}) after ${result.transcript.length} step(s): ${result.message}`);
+    return result.status === "done";
+  } catch (error: any) {
+    console.error(`The agent failed: ${error.message || error}`);
+    return false;
+  } finally {
+    printStepSummary(steps.outcomes);
+    console.log("Stopping server...");
+    client.stopServer();
+  }
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { execFile } from 'child_process';
+import { sendSmtpMail, SmtpOptions } from './smtp-client';
+
+/**
+ * A breaking news alert of the Twitter AI news checker
+ */
+export interface NewsAlert {
+  /** ISO timestamp of the check that raised the alert */
+  checkedAt: string;
+  /** Name and title of the news profile */
+  profile: string;
+  title: string;
+  breakingNewsProbabilityInPercent: number;
+  /** Probability the alert was raised at */
+  thresholdInPercent: number;
+  summaryBulletPoints: string[];
+  /** Fields of the output schema of the profile */
+  details?: Record<string, unknown>;
+  /** The sources of the profile, e.g. "@kimmonismus" or the URL of a feed */
+  sources: string[];
+}
+
+/**
+ * Where alerts are delivered to
+ */
+export interface AlertSink {
+  /** Name used in log output, e.g. "webhook https://hooks.example.com/..." */
+  name: string;
+  send(alert: NewsAlert): Promise<void>;
+}
+
+/**
+ * Title and text of an alert, shared by the sinks
+ */
+export function formatAlert(alert: NewsAlert): { title: string; text: string } {
+  return {
+    title: `${alert.title}: possible breaking news (${alert.breakingNewsProbabilityInPercent}%)`,
+    text: `${alert.summaryBulletPoints.map(point => `- ${point}`).join("\n")}\n\n`
+      + Object.entries(alert.details ?? {})
+        .map(([name, value]) => `${name}: ${Array.isArray(value) ? value.join(", ") : typeof value === "object" ? JSON.stringify(value) : value}\n`)
+        .join("")
+      + `Checked ${alert.checkedAt} on ${alert.sources.join(", ")}.`,
+  };
+}
+
+/**
+ * POST the alert as JSON to url. The "text" field makes it readable for Slack and Teams incoming webhooks.
+ */
+export function createWebhookSink(url: string): AlertSink {
+  const target = new URL(url);
+  return {
+    name: `webhook ${target.origin}`,
+    send(alert) {
+      const { title, text } = formatAlert(alert);
+      const body = JSON.stringify({ text: `*${title}*\n${text}`, ...alert });
+      return new Promise<void>((resolve, reject) => {
+        const request = (target.protocol === "https:" ? https : http).request(target, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+          timeout: 30000,
+        }, response => {
+          response.resume();
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(Object.assign(new Error(`Webhook answered with status ${status}`), { status }));
+          }
+        });
+        request.on("timeout", () => request.destroy(new Error("Webhook request timed out")));
+        request.on("error", reject);
+        request.end(body);
+      });
+    },
+  };
+}
+
+/**
+ * Send the alert as email
+ */
+export function createSmtpSink(smtp: SmtpOptions, to: string[]): AlertSink {
+  return {
+    name: `email to ${to.join(", ")}`,
+    send(alert) {
+      const { title, text } = formatAlert(alert);
+      return sendSmtpMail(smtp, { to, subject: title, text });
+    },
+  };
+}
+
+// Title and text are passed as environment variables, so they need no quoting in the scripts
+const toastCommands: Partial<Record<NodeJS.Platform, [string, string[]]>> = {
+  win32: ["powershell.exe", ["-NoProfile", "-NonInteractive", "-Command", [
+    "[Windows.UI.Notifications.ToastNotificationManager, Windows.UI.Notifications, ContentType = WindowsRuntime] > $null",
+    "$template = [Windows.UI.Notifications.ToastNotificationManager]::GetTemplateContent([Windows.UI.Notifications.ToastTemplateType]::ToastText02)",
+    "$lines = $template.GetElementsByTagName('text')",
+    "$lines.Item(0).AppendChild($template.CreateTextNode($env:ALERT_TITLE)) > $null",
+    "$lines.Item(1).AppendChild($template.CreateTextNode($env:ALERT_TEXT)) > $null",
+    "[Windows.UI.Notifications.ToastNotificationManager]::CreateToastNotifier('Smooth Operator').Show([Windows.UI.Notifications.ToastNotification]::new($template))",
+  ].join("; ")]],
+  darwin: ["osascript", ["-e", 'display notification (system attribute "ALERT_TEXT") with title (system attribute "ALERT_TITLE")']],
+  linux: ["sh", ["-c", 'notify-send "$ALERT_TITLE" "$ALERT_TEXT"']],
+};
+
+/**
+ * Show the alert as desktop notification (Windows toast, macOS notification or notify-send on Linux)
+ */
+export function createDesktopToastSink(): AlertSink {
+  return {
+    name: "desktop notification",
+    send(alert) {
+      const command = toastCommands[process.platform];
+      if (!command) {
+        return Promise.reject(new Error(`Desktop notifications are not supported on ${process.platform}`));
+      }
+      const { title, text } = formatAlert(alert);
+      return new Promise<void>((resolve, reject) => {
+        execFile(command[0], command[1], { env: { ...process.env, ALERT_TITLE: title, ALERT_TEXT: text }, timeout: 30000 },
+          error => error ? reject(error) : resolve());
+      });
+    },
+  };
+}
+
+/**
+ * Append the alert as a JSON line to a file
+ */
+export function createFileSink(filePath: string): AlertSink {
+  return {
+    name: `file ${filePath}`,
+    async send(alert) {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(alert) + "\n");
+    },
+  };
+}
+
+/**
+ * Deliver the alert to every sink; a failing sink does not keep the others from being notified.
+ * Returns the number of sinks the alert was delivered to.
+ */
+export async function sendAlert(sinks: AlertSink[], alert: NewsAlert): Promise<number> {
+  let delivered = 0;
+  for (const sink of sinks) {
+    try {
+      await sink.send(alert);
+      console.log(`Alert sent via ${sink.name}.`);
+      delivered++;
+    } catch (error) {
+      console.error(`Could not send the alert via ${sink.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return delivered;
+}
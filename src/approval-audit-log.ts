@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Order } from './order';
+import { EmailCapture } from './email-capture';
+
+/**
+ * A decision of a reviewer about an order, one line of the audit log
+ */
+export interface ApprovalAuditEntry {
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+  /** Subject or id of the email, as in the order summary */
+  label: string;
+  messageId?: string;
+  subject?: string;
+  /** Why the order needed a review, e.g. "order total 1200.00 is above 1000" */
+  reasons: string[];
+  capture?: EmailCapture;
+  /** User name of the reviewer */
+  reviewer: string;
+  /** Where the review took place, e.g. "terminal" */
+  via: string;
+  decision: "approved" | "edited" | "rejected";
+  /** The order as extracted and validated */
+  extractedOrder: Order;
+  /** The order that was entered into the ERP (approved and edited orders) */
+  order?: Order;
+  /** Fields the reviewer changed, e.g. "orderedArticles[0].quantity: 5 -> 50" */
+  changes?: string[];
+  comment?: string;
+}
+
+/**
+ * Append-only record of the review decisions
+ */
+export interface ApprovalAuditLog {
+  /** Append the decision and write it to the audit log file immediately */
+  add(entry: ApprovalAuditEntry): void;
+}
+
+/** Default location of the audit log file, relative to the working directory */
+export const DEFAULT_APPROVAL_LOG_PATH = "approval-audit.jsonl";
+
+/**
+ * Open the audit log in filePath (created with the first decision)
+ */
+export function openApprovalAuditLog(filePath: string = DEFAULT_APPROVAL_LOG_PATH): ApprovalAuditLog {
+  return {
+    add(entry) {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+    },
+  };
+}
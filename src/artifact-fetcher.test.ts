@@ -0,0 +1,171 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { fetchArtifact, artifactCachePath, ArtifactError, ArtifactManifestEntry } from './artifact-fetcher';
+import { createStepRunner } from './step-runner';
+
+const content = crypto.randomBytes(64 * 1024);
+const sha256 = crypto.createHash("sha256").update(content).digest("hex");
+
+interface StandIn {
+  url: string;
+  /** Requests so far, e.g. "GET /file bytes=1000-" */
+  requests: string[];
+  close(): void;
+}
+
+// HTTP stand-in for the download host: /redirect redirects to /file, which supports ranges.
+// The first `failures` downloads of /file stop after half of the content.
+function startStandIn(failures = 0): Promise<StandIn> {
+  const requests: string[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(`${request.method} ${request.url}${request.headers.range ? ` ${request.headers.range}` : ""}`);
+    if (request.url === "/redirect") {
+      response.writeHead(302, { Location: "/file" }).end();
+      return;
+    }
+    if (request.url === "/loop") {
+      response.writeHead(301, { Location: "/loop" }).end();
+      return;
+    }
+    if (request.url !== "/file") {
+      response.writeHead(404).end();
+      return;
+    }
+    const start = Number(/^bytes=(\d+)-$/.exec(request.headers.range ?? "")?.[1] ?? 0);
+    if (start >= content.length) {
+      response.writeHead(416).end();
+      return;
+    }
+    const headers: http.OutgoingHttpHeaders = { "Content-Length": content.length - start };
+    if (start > 0) {
+      headers["Content-Range"] = `bytes ${start}-${content.length - 1}/${content.length}`;
+    }
+    response.writeHead(start > 0 ? 206 : 200, headers);
+    if (failures-- > 0) {
+      response.write(content.subarray(start, content.length / 2), () => setTimeout(() => response.destroy(), 50));
+      return;
+    }
+    response.end(content.subarray(start));
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve({
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => server.close(),
+  })));
+}
+
+const entry = (url: string, pin: Partial<ArtifactManifestEntry> = { sha256, size: content.length }): ArtifactManifestEntry =>
+  ({ name: "tool", version: "1.2", url, fileName: "tool.exe", ...pin });
+
+const steps = (maxAttempts = 1) => createStepRunner({ maxAttempts, initialDelayMs: 1 });
+
+test("a download follows redirects, is verified and cached per version", async t => {
+  t.mock.method(console, "log", () => {});
+  const standIn = await startStandIn();
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+  try {
+    const filePath = await fetchArtifact(entry(`${standIn.url}/redirect`), { cacheDir, steps: steps() });
+    assert.equal(filePath, path.join(cacheDir, "tool", "1.2", "tool.exe"));
+    assert.deepEqual(fs.readFileSync(filePath), content);
+    assert.equal(fs.existsSync(`${filePath}.partial`), false);
+
+    // The verified file in the cache is used without downloading it again
+    assert.equal(await fetchArtifact(entry(`${standIn.url}/redirect`), { cacheDir, steps: steps() }), filePath);
+    assert.deepEqual(standIn.requests, ["GET /redirect", "GET /file"]);
+  } finally {
+    standIn.close();
+    fs.rmSync(cacheDir, { recursive: true });
+  }
+});
+
+test("an interrupted download is resumed with a range request", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  const standIn = await startStandIn(1);
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+  try {
+    const filePath = await fetchArtifact(entry(`${standIn.url}/file`), { cacheDir, steps: steps(2) });
+    assert.deepEqual(fs.readFileSync(filePath), content);
+    assert.deepEqual(standIn.requests, ["GET /file", `GET /file bytes=${content.length / 2}-`]);
+  } finally {
+    standIn.close();
+    fs.rmSync(cacheDir, { recursive: true });
+  }
+});
+
+test("a file that does not match the pin is refused", async t => {
+  t.mock.method(console, "log", () => {});
+  const standIn = await startStandIn();
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+  try {
+    const wrongHash = entry(`${standIn.url}/file`, { sha256: "0".repeat(64) });
+    await assert.rejects(fetchArtifact(wrongHash, { cacheDir, steps: steps() }),
+      (error: unknown) => error instanceof ArtifactError && error.message.includes(`has the SHA-256 ${sha256}`));
+    assert.equal(fs.existsSync(`${artifactCachePath(wrongHash, cacheDir)}.partial`), false);
+
+
+    const tooSmall = entry(`${standIn.url}/file`, { sha256, size: 1000 });
+    await assert.rejects(fetchArtifact({ ...tooSmall, version: "1.3" }, { cacheDir, steps: steps() }), /more than the expected 1000 bytes/);
+
+    await assert.rejects(fetchArtifact(entry(`${standIn.url}/loop`), { cacheDir, steps: steps(), maxRedirects: 2 }), /Too many redirects/);
+  } finally {
+    standIn.close();
+    fs.rmSync(cacheDir, { recursive: true });
+  }
+});
+
+test("without a pinned hash the first download is trusted and later runs must match it", async t => {
+  t.mock.method(console, "log", () => {});
+  const warnings = t.mock.method(console, "warn", () => {});
+  const standIn = await startStandIn();
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+  try {
+    const unpinned = entry(`${standIn.url}/file`, {});
+    const filePath = await fetchArtifact(unpinned, { cacheDir, steps: steps() });
+    assert.deepEqual(fs.readFileSync(filePath), content);
+    assert.equal(fs.readFileSync(`${filePath}.sha256`, "utf8"), `${sha256}\n`);
+    assert.match(String(warnings.mock.calls[0].arguments[0]), new RegExp(`no pinned SHA-256, trusting its first download. Its SHA-256 ${sha256}`));
+
+    // The cached file is verified against the recorded hash, a changed one is downloaded again
+    fs.appendFileSync(filePath, "x");
+    assert.equal(await fetchArtifact(unpinned, { cacheDir, steps: steps() }), filePath);
+    assert.deepEqual(fs.readFileSync(filePath), content);
+    assert.deepEqual(standIn.requests, ["GET /file", "GET /file"]);
+
+    // A download that does not match the recorded hash is refused
+    fs.writeFileSync(`${filePath}.sha256`, "0".repeat(64));
+    fs.unlinkSync(filePath);
+    await assert.rejects(fetchArtifact(unpinned, { cacheDir, steps: steps() }), /expected 0{64} \(recorded at its first download\)/);
+    assert.equal(fs.existsSync(filePath), false);
+    assert.equal(fs.existsSync(`${filePath}.partial`), false);
+  } finally {
+    standIn.close();
+    fs.rmSync(cacheDir, { recursive: true });
+  }
+});
+
+test("offline mode uses a pre-seeded file and verifies it", async t => {
+  t.mock.method(console, "log", () => {});
+  const offlineDir = fs.mkdtempSync(path.join(os.tmpdir(), "offline-"));
+  try {
+    const offline = entry("http://127.0.0.1:9/never-downloaded");
+    await assert.rejects(fetchArtifact(offline, { offlinePath: offlineDir }), /Offline mode: tool 1.2 not found/);
+
+    fs.writeFileSync(path.join(offlineDir, "tool.exe"), content);
+    assert.equal(await fetchArtifact(offline, { offlinePath: offlineDir }), path.join(offlineDir, "tool.exe"));
+
+    // Without a pinned hash the file is used as it is
+    t.mock.method(console, "warn", () => {});
+    fs.appendFileSync(path.join(offlineDir, "tool.exe"), "x");
+    assert.equal(await fetchArtifact(entry(offline.url, {}), { offlinePath: offlineDir }), path.join(offlineDir, "tool.exe"));
+    await assert.rejects(fetchArtifact(offline, { offlinePath: path.join(offlineDir, "tool.exe") }), /bytes, expected/);
+  } finally {
+    fs.rmSync(offlineDir, { recursive: true });
+  }
+});
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import * as stream from 'stream';
+import { promisify } from 'util';
+import { createStepRunner, StepRunner } from './step-runner';
+
+const pipeline = promisify(stream.pipeline);
+
+/**
+ * A file the examples download, pinned to a version and its SHA-256 hash
+ */
+export interface ArtifactManifestEntry {
+  name: string;
+  version: string;
+  url: string;
+  /** File name in the cache directory */
+  fileName: string;
+  /**
+   * Hex SHA-256 of the file. Without it, the first download is trusted and its hash recorded in
+   * <file>.sha256 next to it; later downloads and the cached file must match that record. The warning
+   * names the hash, so it can be pinned after the file was checked.
+   */
+  sha256?: string;
+  /** Size in bytes, if known; a longer download is cut off */
+  size?: number;
+}
+
+/**
+ * Where and how artifacts are fetched
+ */
+export interface FetchArtifactOptions {
+  /** Downloads are kept in <cacheDir>/<name>/<version>/<fileName> (default: DEFAULT_ARTIFACT_CACHE_DIR) */
+  cacheDir?: string;
+  /**
+   * Never download, use the file at this path instead: the file itself, or a directory that contains it
+   * in the layout of the cache directory or directly. The file is still verified.
+   */
+  offlinePath?: string;
+  /** Redirects followed per request (default: 5) */
+  maxRedirects?: number;
+  /** Give up when no data arrives for this many milliseconds (default: 60000) */
+  timeoutMs?: number;
+  /** Runs the download as a step, a failed download is resumed on retry (default: a runner with the default retries) */
+  steps?: StepRunner;
+}
+
+/**
+ * Thrown when an artifact cannot be fetched or does not match the manifest
+ */
+export class ArtifactError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArtifactError";
+  }
+}
+
+/** Cache directory of the downloaded artifacts */
+export const DEFAULT_ARTIFACT_CACHE_DIR = path.join(os.tmpdir(), "smooth-operator-artifacts");
+
+const redirectStatuses = [301, 302, 303, 307, 308];
+
+/**
+ * Path of the artifact in a cache directory; a new version never reuses the file of an old one
+ */
+export function artifactCachePath(entry: ArtifactManifestEntry, cacheDir = DEFAULT_ARTIFACT_CACHE_DIR): string {
+  return path.join(cacheDir, entry.name, entry.version, entry.fileName);
+}
+
+/**
+ * Hex SHA-256 of a file
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+// The SHA-256 recorded at the first download of an artifact without a pinned hash, if any
+function readRecordedSha256(recordPath: string): string | undefined {
+  return fs.existsSync(recordPath) ? fs.readFileSync(recordPath, "utf8").trim() : undefined;
+}
+
+// Throws unless the file has the pinned size and the expected hash (none: any hash); returns its hash
+async function verifyArtifact(entry: ArtifactManifestEntry, filePath: string, expectedSha256: string | undefined): Promise<string> {
+  const label = `${entry.name} ${entry.version}`;
+  const size = fs.statSync(filePath).size;
+  if (entry.size !== undefined && size !== entry.size) {
+    throw new ArtifactError(`${label} at ${filePath} has ${size} bytes, expected ${entry.size}.`);
+  }
+  const actual = await sha256File(filePath);
+  if (expectedSha256 !== undefined && actual !== expectedSha256.toLowerCase()) {
+    const source = entry.sha256 ? "" : " (recorded at its first download)";
+    throw new ArtifactError(`${label} at ${filePath} has the SHA-256 ${actual}, expected ${expectedSha256}${source}.`);
+  }
+  return actual;
+}
+
+// GET the URL, following redirects; an https download is never continued over http
+function get(url: URL, headers: Record<string, string>, options: FetchArtifactOptions, redirects = 0): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).get(url, { headers, timeout: options.timeoutMs ?? 60000 }, response => {
+      const status = response.statusCode ?? 0;
+      if (!redirectStatuses.includes(status)) {
+        resolve(response);
+        return;
+      }
+      response.resume();
+      const location = response.headers.location;
+      if (!location) {
+        reject(new ArtifactError(`${url.host} answered with redirect ${status} without a location.`));
+        return;
+      }
+      const next = new URL(location, url);
+      if (redirects >= (options.maxRedirects ?? 5)) {
+        reject(new ArtifactError(`Too many redirects, the last one to ${next.host}.`));
+      } else if (next.protocol !== "https:" && (url.protocol === "https:" || next.protocol !== "http:")) {
+        reject(new ArtifactError(`Refusing the redirect from ${url.protocol}//${url.host} to ${next.protocol}//${next.host}.`));
+      } else {
+        get(next, headers, options, redirects + 1).then(resolve, reject);
+      }
+    });
+    request.on("timeout", () => request.destroy(new Error(`Download from ${url.host} timed out`)));
+    request.on("error", reject);
+  });
+}
+
+// Download into partialPath, continuing a partial file from an earlier attempt if the server supports ranges
+async function download(entry: ArtifactManifestEntry, partialPath: string, options: FetchArtifactOptions) {
+  let offset = fs.existsSync(partialPath) ? fs.statSync(partialPath).size : 0;
+  if (entry.size !== undefined && offset > entry.size) {
+    fs.unlinkSync(partialPath);
+    offset = 0;
+  }
+  const response = await get(new URL(entry.url), offset > 0 ? { Range: `bytes=${offset}-` } : {}, options);
+  const status = response.statusCode ?? 0;
+
+  // The partial file is already complete
+  if (status === 416 && offset > 0) {
+    response.resume();
+    return;
+  }
+  if (status !== 200 && status !== 206) {
+    response.resume();
+    throw Object.assign(new Error(`Download of ${entry.name} failed: HTTP ${status}`), { status });
+  }
+  const rangeStart = Number(/^bytes (\d+)-/.exec(response.headers["content-range"] ?? "")?.[1]);
+  const append = status === 206 && rangeStart === offset;
+  if (status === 206 && !append) {
+    response.resume();
+    throw new ArtifactError(`${entry.url} answered with another range than requested (${response.headers["content-range"]}).`);
+  }
+  if (offset > 0) {
+    console.log(append ? `Resuming the download at ${offset} bytes...` : "The server cannot resume the download, starting over...");
+  }
+
+  let received = append ? offset : 0;
+  const limit = new stream.Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(entry.size !== undefined && received > entry.size
+        ? new ArtifactError(`${entry.url} sent more than the expected ${entry.size} bytes.`)
+        : null, chunk);
+    },
+  });
+  await pipeline(response, limit, fs.createWriteStream(partialPath, { flags: append ? "a" : "w" }));
+}
+
+/**
+ * Get the file of a manifest entry and return its path. A verified file in the cache is used as is.
+ * Otherwise it is downloaded into <file>.partial, which a later attempt or run continues, verified
+ * against the pinned size and SHA-256 and only then renamed to its place in the cache. A file that
+ * does not match is deleted. Without a pinned SHA-256 the first download is trusted with a warning and
+ * its hash recorded in <file>.sha256, which later runs are verified against. With offlinePath nothing
+ * is downloaded. Throws an ArtifactError, or a StepError if the download failed.
+ */
+export async function fetchArtifact(entry: ArtifactManifestEntry, options: FetchArtifactOptions = {}): Promise<string> {
+  const label = `${entry.name} ${entry.version}`;
+
+  if (options.offlinePath) {
+    const candidates = fs.existsSync(options.offlinePath) && fs.statSync(options.offlinePath).isDirectory()
+      ? [artifactCachePath(entry, options.offlinePath), path.join(options.offlinePath, entry.fileName)]
+      : [options.offlinePath];
+    const filePath = candidates.find(candidate => fs.existsSync(candidate));
+    if (!filePath) {
+      throw new ArtifactError(`Offline mode: ${label} not found at ${candidates.join(" or ")}.`);
+    }
+    // A copy of the cache directory brings the hash recorded at the first download along
+    const expectedSha256 = entry.sha256 ?? readRecordedSha256(`${filePath}.sha256`);
+    const actual = await verifyArtifact(entry, filePath, expectedSha256);
+    if (expectedSha256) {
+      console.log(`Using ${label} from ${filePath} (offline, SHA-256 verified).`);
+    } else {
+      console.warn(`Warning: ${label} has no pinned SHA-256, using ${filePath} (offline) as it is. Its SHA-256 is ${actual}; `
+        + "check the file and pin the hash in the manifest.");
+    }
+    return filePath;
+  }
+
+  const filePath = artifactCachePath(entry, options.cacheDir);
+  const recordPath = `${filePath}.sha256`;
+  const expectedSha256 = entry.sha256 ?? readRecordedSha256(recordPath);
+  if (fs.existsSync(filePath)) {
+    try {
+      if (!expectedSha256) {
+        throw new ArtifactError(`${label} at ${filePath} has neither a pinned nor a recorded SHA-256.`);
+      }
+      await verifyArtifact(entry, filePath, expectedSha256);
+      console.log(`Using cached ${label} from ${filePath} (SHA-256 verified).`);
+      return filePath;
+    } catch (error) {
+      console.warn(`${error instanceof Error ? error.message : error} Downloading it again.`);
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  const partialPath = `${filePath}.partial`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  console.log(`Downloading ${label} to ${filePath}...`);
+  await (options.steps ?? createStepRunner()).run(`download ${entry.name}`, () => download(entry, partialPath, options));
+
+  let actual: string;
+  try {
+    actual = await verifyArtifact(entry, partialPath, expectedSha256);
+  } catch (error) {
+    fs.unlinkSync(partialPath);
+    throw error;
+  }
+  if (!expectedSha256) {
+    fs.writeFileSync(recordPath, `${actual}\n`);
+    console.warn(`Warning: ${label} has no pinned SHA-256, trusting its first download. Its SHA-256 ${actual} is recorded in `
+      + `${recordPath}, later runs must match it; check the file and pin the hash in the manifest.`);
+  }
+  fs.renameSync(partialPath, filePath);
+  console.log(expectedSha256 ? "Download completed and verified." : "Download completed.");
+  return filePath;
+}
@@ -0,0 +1,32 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createRecordingClient, createReplaySession } from './client-cassette';
+import { Config } from './config';
+
+/**
+ * Create the Smooth Operator client selected by the config (see loadConfig; environment variables in brackets):
+ * - client.mode (SMOOTH_OPERATOR_CLIENT): "live" (default), "record" or "replay"
+ * - client.cassette (SMOOTH_OPERATOR_CASSETTE): cassette file for "record" and "replay"
+ * - screengraspApiKey (SCREENGRASP_API_KEY): API key of the live client (not needed for "replay")
+ *
+ * "record" runs the live client and writes every call to the cassette; "replay" serves the cassette
+ * without a server, e.g. on Linux CI. Returns null if the API key is missing.
+ */
+export function createClientFromConfig(config: Config, serverUrl = config.serverUrl): SmoothOperatorClient | null {
+  const { mode, cassette: cassettePath } = config.client;
+  const apiKey = config.screengraspApiKey;
+
+  if ((mode === "record" || mode === "replay") && !cassettePath) {
+    throw new Error(`SMOOTH_OPERATOR_CLIENT=${mode} requires SMOOTH_OPERATOR_CASSETTE, the path of the cassette file`);
+  }
+  switch (mode) {
+    case "live":
+      return apiKey ? new SmoothOperatorClient(apiKey, serverUrl) : null;
+    case "record":
+      return apiKey ? createRecordingClient(new SmoothOperatorClient(apiKey, serverUrl), cassettePath!) : null;
+    case "replay":
+      console.log(`Replaying the automation calls recorded in ${cassettePath}.`);
+      return createReplaySession(cassettePath!).client;
+    default:
+      throw new Error(`Unknown SMOOTH_OPERATOR_CLIENT "${mode}", expected live, record or replay`);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * A node of the UI automation tree as returned by client.system.getWindowDetails
+ * (userInterfaceElements) and client.system.getOverview. Only the fields used by the examples are listed.
+ */
+export interface AutomationNode {
+  /** Element ID for client.automation.setValue / invoke */
+  id?: string;
+  name?: string;
+  controlType?: string;
+  /** UI Automation AutomationId, if the application sets one */
+  automationId?: string;
+  currentValue?: string;
+  /** False for disabled controls, if the server reports it */
+  isEnabled?: boolean;
+  /** True for elements scrolled or hidden out of view, if the server reports it */
+  isOffscreen?: boolean;
+  /** Position of the element on the screen, if the server reports it */
+  boundingRectangle?: ScreenRegion;
+  children?: AutomationNode[];
+}
+
+/**
+ * A rectangle on the screen in pixels
+ */
+export interface ScreenRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Visit every node of the tree depth-first; return false from visit to skip a node's children
+ */
+export function walkTree(
+  root: AutomationNode,
+  visit: (node: AutomationNode, ancestors: AutomationNode[]) => boolean | void
+) {
+  const walk = (node: AutomationNode, ancestors: AutomationNode[]) => {
+    if (visit(node, ancestors) === false) {
+      return;
+    }
+    const path = [...ancestors, node];
+    for (const child of node.children ?? []) {
+      walk(child, path);
+    }
+  };
+  walk(root, []);
+}
+
+/**
+ * Find the node with the given element ID
+ */
+export function findNodeById(root: AutomationNode, id: string): AutomationNode | null {
+  let found: AutomationNode | null = null;
+  walkTree(root, node => {
+    if (found) {
+      return false;
+    }
+    if (node.id === id) {
+      found = node;
+      return false;
+    }
+  });
+  return found;
+}
+
+/**
+ * Turn the window list of client.system.getOverview into a tree of "Window" nodes (name = title),
+ * so that windows can be found with the tree selectors
+ */
+export function windowListToTree(windows: Array<{ id: string; title: string }>): AutomationNode {
+  return { children: windows.map(window => ({ id: window.id, name: window.title, controlType: "Window" })) };
+}
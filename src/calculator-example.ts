@@ -0,0 +1,183 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createLlmProviderFromConfig, LlmProvider } from './llm-provider';
+import { createClientFromConfig } from './automation-client';
+import { Config, loadConfig } from './config';
+import { RunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { AutomationNode } from './automation-tree';
+import { compactTree, formatCompactionStats } from './tree-compaction';
+import { createGuardedClient, expectFocusedWindow } from './action-guard';
+import { waitForWindow } from './wait-for';
+
+/**
+ * Options for the calculator example
+ */
+export interface CalculatorOptions {
+  /** Event log and artifacts of the run, see createRunLog (default: none) */
+  runLog?: RunLog;
+  /** Settings such as the API keys (default: loadConfig(), from the config file, the environment and the .env file) */
+  config?: Config;
+  /** Client to use instead of creating one, e.g. a replay client (default: createClientFromConfig) */
+  client?: SmoothOperatorClient;
+  /** URL of an already running Smooth Operator server, e.g. "http://localhost:54321" */
+  serverUrl?: string;
+}
+
+/**
+ * Calculator example implementation. Returns true if the example ran through.
+ */
+export async function runCalculatorExample(options: CalculatorOptions = {}): Promise<boolean> {
+  console.log("Starting Smooth Operator TypeScript Example (Calculator)...");
+
+  // The settings can be passed in, otherwise they are read from the config file, the environment and the .env file
+  let config: Config;
+  try {
+    config = options.config ?? loadConfig();
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+  if (config.safety.dryRun) {
+    console.error("Error: The calculator example has no dry run: it waits for the calculator window, which a dry run does not open.");
+    return false;
+  }
+
+  // The client can be passed in (e.g. a replay client in tests), otherwise the config selects it,
+  // see createClientFromConfig. Passing a server URL connects to an already running server.
+  let client: SmoothOperatorClient | null;
+  try {
+    client = options.client ?? createClientFromConfig(config, options.serverUrl);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+
+  if (!client) {
+    console.error("Error: SCREENGRASP_API_KEY not found in .env file. Get a free key at https://screengrasp.com/api.html");
+    console.log("Please ensure you have a .env file in the example project root (client-libs/example-typescript)");
+    console.log("with the line: SCREENGRASP_API_KEY=your_actual_key");
+    return false;
+  }
+
+  // The language model is OpenAI by default, see createLlmProviderFromConfig for the alternatives
+  let llm: LlmProvider | null;
+  try {
+    llm = createLlmProviderFromConfig(config.llm);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+
+  if (!llm) {
+    console.warn("Warning: OPENAI_API_KEY not found in .env file. OpenAI part will be skipped. Get a key at https://platform.openai.com/api-keys");
+  }
+
+  // Destructive actions need an opt-in or a confirmation, a dry run only logs the actions, see action-guard.ts
+  client = createGuardedClient(client, config.safety);
+
+  // Client calls and language model requests are written to the run log, see run-log.ts
+  if (options.runLog) {
+    client = createLoggingClient(client, options.runLog);
+    llm = llm && createLoggingLlmProvider(llm, options.runLog);
+  }
+
+  try {
+    // Start the server process in the background.
+    // This handles download and extraction if it's not installed or outdated.
+    // Can take a while, especially on first run.
+    console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
+    await client.startServer();
+
+    // 1. Open Calculator
+    // Open the Windows Calculator application.
+    console.log("Opening calculator...");
+    await client.system.openApplication("calc"); // Use "calc" for consistency
+    // The calculator takes a moment to start; keyboard.type is refused if another window has the focus
+    await waitForWindow(client, 'Window[name~="Calculator"]');
+    expectFocusedWindow(client, 'Window[name~="Calculator"]');
+
+    // 2. Type "3+4"
+    // Type the string "3+4" into the currently focused window (hopefully the calculator).
+    console.log("Typing '3+4'...");
+    await client.keyboard.type("3+4"); // assumes the calc app is focused
+
+    // 3. Click the "equals" button using ScreenGrasp    
+    // Click the UI element described as "the equals sign" using ScreenGrasp.
+    // Alternatives:
+    // - await client.keyboard.type("="); // Simpler and faster
+    // - Using Windows UI Automation, e.g. client.automation.invoke() a bit more complex to implement but very robust (not affected by focus changes)
+    console.log("Clicking equals sign...");
+    await client.mouse.clickByDescription("the equals sign");
+
+    // 4. Retrieve the UI overview (Automation Tree)
+    // Get an overview of the current system state, including the focused window's automation tree.
+    // Assumes the calculator is still the focused window. Be mindful of focus changes during debugging.
+    console.log("Getting window overview...");
+    const overview = await client.system.getOverview(); // assumes calc is focused
+
+    // 5. (Optional) Use AI (e.g., OpenAI) to interpret the result from the tree
+    if (llm && overview?.focusInfo?.focusedElementParentWindow) {
+      // You can use GPT-4o or other ai models for all sorts of tasks together with the Smooth Operator Agent Tools.
+      // In this case we use it to read the result of the calculator from its automation tree.
+      // But it can also for example be used to decide which button to click next, what text to type, etc.
+      console.log(`Asking ${llm.name} about the result...`);
+      try {
+        // Only the visible elements with their ID, type, name and value, to keep the prompt small
+        const focusedWindow = compactTree(overview.focusInfo.focusedElementParentWindow as AutomationNode);
+        console.log(formatCompactionStats(focusedWindow));
+        const resultText = await llm.complete({
+          task: "calculator-result",
+          prompt: `What result does the calculator display? You can read it from its automation tree `
+            + `(one element per line with control type, name, id and value; children are indented):\n${focusedWindow.text}`,
+        });
+        console.log("AI Result:", resultText || "No result received.");
+      } catch (aiError: any) { // Added type annotation
+        console.error("Error during AI interpretation:", aiError.message || aiError);
+      }
+    } else if (llm) { // Added condition to check if overview failed but a model is configured
+        console.log("Could not get focused window information to send to the AI.");
+    } else {
+        console.log("OpenAI key not provided, skipping result verification.");
+    }
+
+  /*
+   * --- Alternative using Screenshot ---
+   * Taking a screenshot and analyzing it with AI is another option,
+   * but generally less reliable and more costly than using the automation tree.
+   * Prefer Automation Tree > Keyboard > Screenshot for robustness and cost-efficiency.
+   */
+  /*
+  if (llm) {
+    console.log("Taking screenshot...");
+    const screenshot = await client.screenshot.take();
+    console.log(`Asking ${llm.name} about the screenshot...`);
+    try {
+      const resultText = await llm.complete({
+        task: "calculator-result",
+        prompt: "What result does the calculator display based on the screenshot?",
+        images: [{ base64: screenshot.imageBase64 }],
+      });
+      console.log("AI Screenshot Result:", resultText || "No result received.");
+    } catch (aiError: any) {
+      console.error("Error calling the AI with screenshot:", aiError.message || aiError);
+    }
+  }
+  */
+
+  return true;
+} catch (error) {
+  console.error("\n--- An error occurred during the example execution ---");
+  if (error instanceof Error) {
+      console.error(`Error: ${error.message}`);
+      // console.error(`Stack: ${error.stack}`); // Stack trace can be verbose
+  } else {
+      console.error("Unknown error:", error);
+  }
+  console.error("------------------------------------------------------");
+  return false;
+} finally {
+  // Ensure the server is stopped even if errors occur
+  console.log("Stopping server...");
+  client.stopServer(); // Optional: Stop the server explicitly if needed, though client disposal might handle it.
+  console.log("\nSmooth Operator Server stopped (if started by this client).");
+}
+}
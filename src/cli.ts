@@ -0,0 +1,613 @@
+import { runCalculatorExample } from './calculator-example';
+import {
+  runTwitterChecker,
+  TwitterWatchOptions,
+  DEFAULT_TWEET_LOOKBACK_HOURS,
+  DEFAULT_MAX_SCROLLS,
+  DEFAULT_WATCH_INTERVAL_MINUTES,
+  DEFAULT_ALERT_THRESHOLD_PERCENT,
+  DEFAULT_DEDUPE_WINDOW_HOURS,
+} from './twitter-ai-news-checker';
+import { DEFAULT_NEWS_HISTORY_PATH } from './news-history';
+import { DEFAULT_NEWS_PROFILE, DEFAULT_NEWS_PROFILES_PATH } from './news-profiles';
+import { DEFAULT_SEEN_TWEETS_PATH } from './seen-tweet-store';
+import { AlertSink, createWebhookSink, createSmtpSink, createDesktopToastSink, createFileSink } from './alert-sinks';
+import {
+  runCollectOrdersErp,
+  ApprovalOptions,
+  DEFAULT_ORDER_SEARCH_TEXT,
+  DEFAULT_MAX_BATCH_EMAILS,
+} from './collect-orders-erp';
+import {
+  createTerminalReviewer,
+  createWebReviewer,
+  DEFAULT_APPROVAL_ABOVE_TOTAL,
+  DEFAULT_APPROVAL_BELOW_CONFIDENCE,
+  DEFAULT_APPROVAL_PORT,
+} from './order-approval';
+import { DEFAULT_APPROVAL_LOG_PATH } from './approval-audit-log';
+import { DEFAULT_LEDGER_PATH } from './processed-ledger';
+import { loadOrderRules } from './order-validation';
+import { DEFAULT_REVIEW_QUEUE_DIR } from './review-queue';
+import { DEFAULT_SELECTOR_CACHE_PATH } from './selector-cache';
+import { loadErpSelectors } from './ui-erp-adapter';
+import { DEFAULT_ARTIFACT_CACHE_DIR } from './artifact-fetcher';
+import { runStubErpServer, DEFAULT_STUB_ERP_PORT } from './stub-erp-server';
+import { OrderEmailSourceKind } from './order-email-sources';
+import { ImapOptions } from './imap-client';
+import { DEFAULT_RETRY_OPTIONS } from './step-runner';
+import { runWorkflowExample } from './workflow-example';
+import { runAgentExample } from './agent-example';
+import { AGENT_ACTIONS, AgentActionName, DEFAULT_AGENT_MAX_STEPS } from './ui-agent';
+import { createRunLog, RunLog, RunLogOptions, LogLevel, LOG_LEVELS, RedactionKind, DEFAULT_RUNS_DIR } from './run-log';
+import { DESTRUCTIVE_ACTION_KINDS } from './action-guard';
+import { loadConfig, formatConfig, configSecrets, Config, ConfigError, DEFAULT_CONFIG_PATH } from './config';
+
+// Exit codes of the command-line runner
+export const EXIT_SUCCESS = 0; // the example ran through
+export const EXIT_FAILURE = 1; // the example ran but failed
+export const EXIT_USAGE = 2;   // invalid command line or configuration
+
+// Description of a single command-line option
+interface OptionDefinition {
+  name: string;
+  valueName?: string; // omitted for boolean flags
+  description: string;
+}
+
+// Description of a runnable example
+interface ExampleDefinition {
+  name: string;
+  description: string;
+  options: OptionDefinition[];
+  run: (options: Record<string, string>, runLog: RunLog, config: Config) => Promise<boolean>;
+}
+
+// Thrown for invalid command lines, results in EXIT_USAGE
+class UsageError extends Error {}
+
+const serverUrlOption: OptionDefinition = {
+  name: "server-url",
+  valueName: "url",
+  description: "Connect to an already running server, e.g. http://localhost:54321",
+};
+
+const configOption: OptionDefinition = {
+  name: "config",
+  valueName: "path",
+  description: `YAML or JSON config file (default: ${DEFAULT_CONFIG_PATH} if it exists), see "smooth-op config"`,
+};
+
+const allowDestructiveOption: OptionDefinition = {
+  name: "allow-destructive",
+  valueName: DESTRUCTIVE_ACTION_KINDS.join(","),
+  description: "Run these destructive actions without asking for a confirmation",
+};
+
+// Guardrails of the examples that automate the desktop, see createGuardedClient
+const safetyOptions: OptionDefinition[] = [
+  { name: "dry-run", description: "Log the automation actions without running them; reading the screen still runs" },
+  allowDestructiveOption,
+];
+
+const retryOptions: OptionDefinition[] = [
+  {
+    name: "max-attempts",
+    valueName: "n",
+    description: `Attempts per automation step before it fails (default: ${DEFAULT_RETRY_OPTIONS.maxAttempts})`,
+  },
+  {
+    name: "retry-delay",
+    valueName: "ms",
+    description: `Pause before the first retry, doubled for every further one (default: ${DEFAULT_RETRY_OPTIONS.initialDelayMs})`,
+  },
+];
+
+const runLogOptions: OptionDefinition[] = [
+  { name: "runs-dir", valueName: "dir", description: `Directory for the event log, artifacts and report of each run (default: ${DEFAULT_RUNS_DIR})` },
+  { name: "log-level", valueName: LOG_LEVELS.join("|"), description: "Lowest level written to the event log (default: info)" },
+  { name: "redact", valueName: "secrets,email|none", description: "What to redact in the event log and artifacts (default: secrets)" },
+];
+
+const examples: ExampleDefinition[] = [
+  {
+    name: "calculator",
+    description: "Open the Windows Calculator, compute 3+4 and read the result",
+    // No --dry-run: the example waits for the calculator window, which a dry run does not open
+    options: [allowDestructiveOption, ...runLogOptions, serverUrlOption, configOption],
+    run: (options, runLog, config) => runCalculatorExample({ runLog, config }),
+  },
+  {
+    name: "twitter",
+    description: "Summarize the latest tweets of AI news accounts, or the news of another profile",
+    options: [
+      { name: "profile", valueName: "name", description: `News profile to check (default: ${DEFAULT_NEWS_PROFILE.name})` },
+      { name: "profiles", valueName: "path", description: `YAML or JSON file with news profiles (default: ${DEFAULT_NEWS_PROFILES_PATH} if it exists)` },
+      {
+        name: "accounts",
+        valueName: "a,b,c",
+        description: "Comma-separated accounts to check instead of the sources of the profile",
+      },
+      { name: "lookback", valueName: "hours", description: `Only read news of the last hours (default: the profile's, or ${DEFAULT_TWEET_LOOKBACK_HOURS})` },
+      { name: "max-scrolls", valueName: "n", description: `Maximum scrolls per profile while looking for older tweets (default: ${DEFAULT_MAX_SCROLLS})` },
+      { name: "seen-tweets", valueName: "path", description: `File of the tweets and feed entries that were already summarized (default: ${DEFAULT_SEEN_TWEETS_PATH})` },
+      { name: "watch", description: "Keep checking on an interval and alert on breaking news (stop with Ctrl+C)" },
+      { name: "interval", valueName: "minutes", description: `Minutes between two checks (default: ${DEFAULT_WATCH_INTERVAL_MINUTES})` },
+      { name: "threshold", valueName: "percent", description: `Breaking news probability that raises an alert (default: the profile's, or ${DEFAULT_ALERT_THRESHOLD_PERCENT})` },
+      { name: "history", valueName: "path", description: `History file of the checks (default: ${DEFAULT_NEWS_HISTORY_PATH})` },
+      { name: "dedupe-hours", valueName: "hours", description: `Hours in which the same story is not alerted again (default: ${DEFAULT_DEDUPE_WINDOW_HOURS})` },
+      { name: "max-checks", valueName: "n", description: "Stop after this many checks" },
+      { name: "alert-webhook", valueName: "url", description: "POST alerts as JSON to this URL (e.g. a Slack or Teams webhook)" },
+      { name: "alert-email", valueName: "a,b", description: "Send alerts by email to these addresses, needs --smtp-host and --smtp-from" },
+      { name: "alert-toast", description: "Show alerts as desktop notifications" },
+      { name: "alert-file", valueName: "path", description: "Append alerts as JSON lines to this file" },
+      { name: "smtp-host", valueName: "host", description: "SMTP server for --alert-email" },
+      { name: "smtp-port", valueName: "port", description: "SMTP server port (default: 465, or 587 with --smtp-no-tls)" },
+      { name: "smtp-user", valueName: "user", description: "SMTP user name; the password is read from SMTP_PASSWORD" },
+      { name: "smtp-from", valueName: "address", description: "Sender address of the alert emails" },
+      { name: "smtp-no-tls", description: "Connect without implicit TLS; STARTTLS is used if the server offers it" },
+      // No --dry-run: the pages are read in a Chrome window, which a dry run does not open
+      allowDestructiveOption,
+      ...retryOptions,
+      ...runLogOptions,
+      serverUrlOption,
+      configOption,
+    ],
+    run: (options, runLog, config) => runTwitterChecker({
+      profile: options["profile"],
+      profilesPath: options["profiles"],
+      lookbackHours: parsePositiveInteger(options, "lookback"),
+      maxScrolls: parsePositiveInteger(options, "max-scrolls"),
+      seenTweetsPath: options["seen-tweets"],
+      watch: parseWatchOptions(options, config),
+      runLog,
+      config,
+    }),
+  },
+  {
+    name: "erp",
+    description: "Read an order email and enter the order into the mock ERP, an export file or a REST API",
+    options: [
+      { name: "source", valueName: "gmail|outlook|file|imap", description: "Where to read the order email from (default: gmail)" },
+      { name: "search", valueName: "text", description: `Search string for the order email (default: "${DEFAULT_ORDER_SEARCH_TEXT}")` },
+      { name: "email-file", valueName: "path", description: "Read the order email from this .eml or mbox file (source file)" },
+      { name: "imap-host", valueName: "host", description: "IMAP server to read the order email from (source imap)" },
+      { name: "imap-port", valueName: "port", description: "IMAP server port (default: 993, or 143 with --imap-no-tls)" },
+      { name: "imap-user", valueName: "user", description: "IMAP user name; the password is read from IMAP_PASSWORD" },
+      { name: "imap-mailbox", valueName: "name", description: "IMAP mailbox to search in (default: INBOX)" },
+      { name: "imap-no-tls", description: "Connect to the IMAP server without TLS (local test servers only)" },
+      { name: "batch", description: "Process all matching order emails instead of only the most recent one" },
+      { name: "max-emails", valueName: "n", description: `Maximum number of emails read in batch mode (default: ${DEFAULT_MAX_BATCH_EMAILS})` },
+      { name: "ledger", valueName: "path", description: `File that records the processed emails (default: ${DEFAULT_LEDGER_PATH})` },
+      { name: "order-rules", valueName: "path", description: "JSON file with business rules for extracted orders" },
+      { name: "review-queue", valueName: "dir", description: `Directory invalid orders are queued in (default: ${DEFAULT_REVIEW_QUEUE_DIR})` },
+      { name: "approval", valueName: "terminal|web", description: "Let a human approve, edit or reject high-value and low-confidence orders" },
+      { name: "approval-above", valueName: "total", description: `Review orders with a higher total (default: ${DEFAULT_APPROVAL_ABOVE_TOTAL})` },
+      { name: "approval-below-confidence", valueName: "0..1", description: `Review emails read with a lower confidence (default: ${DEFAULT_APPROVAL_BELOW_CONFIDENCE})` },
+      { name: "approval-port", valueName: "port", description: `Port of the review page (default: ${DEFAULT_APPROVAL_PORT})` },
+      { name: "approval-log", valueName: "path", description: `Audit log of the review decisions (default: ${DEFAULT_APPROVAL_LOG_PATH})` },
+      { name: "erp-target", valueName: "ui|file|rest", description: "Where to enter the orders (default: ui, the mock ERP)" },
+      { name: "erp-export", valueName: "path", description: "Append the orders to this .csv or .json file (target file)" },
+      { name: "erp-url", valueName: "url", description: "POST the orders to this URL; the bearer token is read from ERP_API_TOKEN (target rest)" },
+      { name: "erp-selectors", valueName: "path", description: "JSON file with tree selectors for the ERP window and controls" },
+      { name: "selector-cache", valueName: "path", description: `Cache file of the ERP element IDs (default: ${DEFAULT_SELECTOR_CACHE_PATH})` },
+      { name: "erp-exe", valueName: "path", description: "Use this ERP executable instead of downloading the mock ERP" },
+      { name: "erp-offline", valueName: "path", description: "Do not download the mock ERP, use the pinned version from this file or directory" },
+      { name: "artifact-cache", valueName: "dir", description: `Cache directory of the mock ERP download (default: ${DEFAULT_ARTIFACT_CACHE_DIR})` },
+      { name: "skip-verification", description: "Do not read saved orders back from the ERP to verify them" },
+      ...safetyOptions,
+      ...retryOptions,
+      ...runLogOptions,
+      serverUrlOption,
+      configOption,
+    ],
+    run: (options, runLog, config) => runCollectOrdersErp({
+      emailSource: parseEmailSource(options),
+      searchText: options["search"],
+      emailFile: options["email-file"],
+      imap: parseImapOptions(options, config),
+      batch: options["batch"] === "true",
+      maxEmails: parsePositiveInteger(options, "max-emails"),
+      ledgerPath: options["ledger"],
+      orderRules: options["order-rules"] ? loadOrderRules(options["order-rules"]) : undefined,
+      reviewQueueDir: options["review-queue"],
+      approval: parseApprovalOptions(options),
+      ...parseUiErpOptions(options, config),
+      runLog,
+      config,
+    }),
+  },
+  {
+    name: "erp-stub",
+    description: "Run a local stub ERP REST API to try the erp example with --erp-target rest",
+    options: [
+      { name: "port", valueName: "port", description: `Port to listen on (default: ${DEFAULT_STUB_ERP_PORT})` },
+      configOption,
+    ],
+    run: (options, runLog, config) => {
+      return runStubErpServer(parsePositiveInteger(options, "port", MAX_PORT), config.erp.apiToken);
+    },
+  },
+  {
+    name: "workflow",
+    description: "Run a workflow file (YAML or JSON), e.g. workflows/calculator.yaml",
+    options: [
+      { name: "file", valueName: "path", description: "Workflow file to run (required)" },
+      { name: "dry-run", description: "Validate the file and print what the steps would do without running them" },
+      { name: "vars", valueName: "name=value,...", description: "Override variables of the workflow file" },
+      allowDestructiveOption,
+      ...retryOptions,
+      ...runLogOptions,
+      serverUrlOption,
+      configOption,
+    ],
+    run: (options, runLog, config) => {
+      if (!options["file"]) {
+        throw new UsageError("The workflow example requires --file.");
+      }
+      return runWorkflowExample({
+        file: options["file"],
+        dryRun: config.safety.dryRun === true,
+        variables: options["vars"] ? parseVariables(options["vars"]) : undefined,
+        runLog,
+        config,
+      });
+    },
+  },
+  {
+    name: "agent",
+    description: "Let the language model reach a goal by choosing UI actions step by step",
+    options: [
+      { name: "goal", valueName: "text", description: "What the agent should do (required)" },
+      { name: "app", valueName: "name", description: "Open this application before the agent starts, e.g. calc" },
+      { name: "max-steps", valueName: "n", description: `Actions executed at most (default: ${DEFAULT_AGENT_MAX_STEPS})` },
+      { name: "allow", valueName: "a,b,c", description: `Actions the model may choose (default: all of ${AGENT_ACTIONS.join(", ")})` },
+      ...safetyOptions,
+      ...retryOptions,
+      ...runLogOptions,
+      serverUrlOption,
+      configOption,
+    ],
+    run: (options, runLog, config) => {
+      if (!options["goal"]) {
+        throw new UsageError("The agent example requires --goal.");
+      }
+      return runAgentExample({
+        goal: options["goal"],
+        application: options["app"],
+        maxSteps: parsePositiveInteger(options, "max-steps"),
+        allowedActions: options["allow"] ? parseAgentActions(options["allow"]) : undefined,
+        runLog,
+        config,
+      });
+    },
+  },
+];
+
+const splitList = (value: string): string[] =>
+  value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+
+function parseEmailSource(options: Record<string, string>): OrderEmailSourceKind | undefined {
+  const value = options["source"];
+  if (value === "file" && !options["email-file"]) {
+    throw new UsageError("The email source file requires --email-file.");
+  }
+  if (value === "imap" && !(options["imap-host"] && options["imap-user"])) {
+    throw new UsageError("The email source imap requires --imap-host and --imap-user.");
+  }
+  if (value === undefined || value === "gmail" || value === "outlook" || value === "file" || value === "imap") {
+    return value;
+  }
+  throw new UsageError(`Unknown email source "${value}", expected gmail, outlook, file or imap.`);
+}
+
+// Options of the erp example that only apply to the ui target; the other ERP settings are checked by loadConfig
+const uiErpOptionNames = ["erp-selectors", "selector-cache", "skip-verification"];
+
+function parseUiErpOptions(options: Record<string, string>, config: Config) {
+  const name = uiErpOptionNames.find(n => options[n] !== undefined);
+  if (name && (config.erp.target ?? "ui") !== "ui") {
+    throw new UsageError(`Option "--${name}" requires --erp-target ui.`);
+  }
+  return {
+    ...(options["erp-selectors"] ? loadErpSelectors(options["erp-selectors"]) : {}),
+    selectorCachePath: options["selector-cache"],
+    skipVerification: options["skip-verification"] === "true",
+  };
+}
+
+// Highest TCP port, for the port options
+const MAX_PORT = 65535;
+
+function parsePositiveInteger(options: Record<string, string>, name: string, max?: number): number | undefined {
+  if (options[name] === undefined) {
+    return undefined;
+  }
+  const value = Number(options[name]);
+  if (!Number.isInteger(value) || value < 1 || (max !== undefined && value > max)) {
+    const expected = max === undefined ? "a positive integer" : `an integer from 1 to ${max}`;
+    throw new UsageError(`Option "--${name}" requires ${expected}, got "${options[name]}".`);
+  }
+  return value;
+}
+
+function parseAgentActions(value: string): AgentActionName[] {
+  const actions = splitList(value);
+  const unknown = actions.filter(action => !AGENT_ACTIONS.includes(action as AgentActionName));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown agent action(s) "${unknown.join(",")}", expected ${AGENT_ACTIONS.join(", ")}.`);
+  }
+  if (actions.length === 0) {
+    throw new UsageError("Option \"--allow\" requires at least one action.");
+  }
+  return actions as AgentActionName[];
+}
+
+function parseVariables(value: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const assignment of splitList(value)) {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) {
+      throw new UsageError(`Invalid variable "${assignment}", expected name=value.`);
+    }
+    variables[assignment.slice(0, separator).trim()] = assignment.slice(separator + 1).trim();
+  }
+  return variables;
+}
+
+// Options of the twitter example that only apply to the watch mode
+const watchOptionNames = ["interval", "threshold", "history", "dedupe-hours", "max-checks", "alert-webhook", "alert-email", "alert-toast", "alert-file"];
+
+function parseWatchOptions(options: Record<string, string>, config: Config): TwitterWatchOptions | undefined {
+  if (options["watch"] !== "true") {
+    const name = watchOptionNames.find(n => options[n] !== undefined);
+    if (name) {
+      throw new UsageError(`Option "--${name}" requires --watch.`);
+    }
+    return undefined;
+  }
+
+  const threshold = options["threshold"] === undefined ? undefined : Number(options["threshold"]);
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 100)) {
+    throw new UsageError(`Option "--threshold" requires a percentage from 0 to 100, got "${options["threshold"]}".`);
+  }
+
+  const sinks: AlertSink[] = [];
+  if (options["alert-webhook"]) {
+    try {
+      sinks.push(createWebhookSink(options["alert-webhook"]));
+    } catch {
+      throw new UsageError(`Invalid webhook URL "${options["alert-webhook"]}".`);
+    }
+  }
+  if (options["alert-email"]) {
+    if (!options["smtp-host"] || !options["smtp-from"]) {
+      throw new UsageError("Option \"--alert-email\" requires --smtp-host and --smtp-from.");
+    }
+    const port = parsePositiveInteger(options, "smtp-port", MAX_PORT);
+    sinks.push(createSmtpSink({
+      host: options["smtp-host"],
+      port,
+      secure: options["smtp-no-tls"] !== "true",
+      user: options["smtp-user"],
+      password: config.smtp.password,
+      from: options["smtp-from"],
+    }, splitList(options["alert-email"])));
+  }
+  if (options["alert-toast"] === "true") {
+    sinks.push(createDesktopToastSink());
+  }
+  if (options["alert-file"]) {
+    sinks.push(createFileSink(options["alert-file"]));
+  }
+
+  return {
+    intervalMinutes: parsePositiveInteger(options, "interval"),
+    thresholdInPercent: threshold,
+    sinks,
+    historyPath: options["history"],
+    dedupeWindowHours: parsePositiveInteger(options, "dedupe-hours"),
+    maxChecks: parsePositiveInteger(options, "max-checks"),
+  };
+}
+
+// Options of the erp example that only apply with --approval
+const approvalOptionNames = ["approval-above", "approval-below-confidence", "approval-port", "approval-log"];
+
+function parseApprovalOptions(options: Record<string, string>): ApprovalOptions | undefined {
+  const kind = options["approval"];
+  if (kind === undefined) {
+    const name = approvalOptionNames.find(n => options[n] !== undefined);
+    if (name) {
+      throw new UsageError(`Option "--${name}" requires --approval.`);
+    }
+    return undefined;
+  }
+  if (kind !== "terminal" && kind !== "web") {
+    throw new UsageError(`Unknown approval "${kind}", expected terminal or web.`);
+  }
+  if (options["approval-port"] !== undefined && kind !== "web") {
+    throw new UsageError("Option \"--approval-port\" requires --approval web.");
+  }
+
+  const aboveTotal = options["approval-above"] === undefined ? undefined : Number(options["approval-above"]);
+  if (aboveTotal !== undefined && !(aboveTotal >= 0)) {
+    throw new UsageError(`Option "--approval-above" requires a non-negative number, got "${options["approval-above"]}".`);
+  }
+  const belowConfidence = options["approval-below-confidence"] === undefined ? undefined : Number(options["approval-below-confidence"]);
+  if (belowConfidence !== undefined && !(belowConfidence >= 0 && belowConfidence <= 1)) {
+    throw new UsageError(`Option "--approval-below-confidence" requires a number from 0 to 1, got "${options["approval-below-confidence"]}".`);
+  }
+  const port = parsePositiveInteger(options, "approval-port", MAX_PORT);
+
+  return {
+    reviewer: kind === "web" ? createWebReviewer(port) : createTerminalReviewer(),
+    aboveTotal,
+    belowConfidence,
+    auditLogPath: options["approval-log"],
+  };
+}
+
+function parseRunLogOptions(options: Record<string, string>): RunLogOptions {
+  const level = options["log-level"];
+  if (level !== undefined && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new UsageError(`Unknown log level "${level}", expected ${LOG_LEVELS.join(", ")}.`);
+  }
+  let redact: RedactionKind[] | undefined;
+  if (options["redact"] !== undefined) {
+    redact = options["redact"] === "none" ? [] : splitList(options["redact"]) as RedactionKind[];
+    const unknown = redact.filter(kind => kind !== "secrets" && kind !== "email");
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown redaction "${unknown.join(",")}", expected secrets, email or none.`);
+    }
+  }
+  return { runsDir: options["runs-dir"], level: level as LogLevel | undefined, redact };
+}
+
+function parseImapOptions(options: Record<string, string>, config: Config): ImapOptions | undefined {
+  if (!options["imap-host"]) {
+    return undefined;
+  }
+  const port = parsePositiveInteger(options, "imap-port", MAX_PORT);
+  return {
+    host: options["imap-host"],
+    port,
+    secure: options["imap-no-tls"] !== "true",
+    user: options["imap-user"] ?? "",
+    password: config.imap.password ?? "",
+    mailbox: options["imap-mailbox"],
+  };
+}
+
+/**
+ * Parse "--name value", "--name=value" and boolean "--flag" options
+ */
+function parseOptions(args: string[], definitions: OptionDefinition[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      throw new UsageError(`Unexpected argument "${arg}".`);
+    }
+
+    const separator = arg.indexOf("=");
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    const inlineValue = separator === -1 ? undefined : arg.slice(separator + 1);
+    const definition = definitions.find(d => d.name === name);
+    if (!definition) {
+      throw new UsageError(`Unknown option "--${name}".`);
+    }
+
+    if (!definition.valueName) {
+      options[name] = "true";
+    } else if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+      options[name] = args[++i];
+    } else {
+      throw new UsageError(`Option "--${name}" requires a value (${definition.valueName}).`);
+    }
+  }
+  return options;
+}
+
+function formatOptions(definitions: OptionDefinition[]): string {
+  return definitions
+    .map(d => `    --${d.name}${d.valueName ? ` <${d.valueName}>` : ""}\n        ${d.description}`)
+    .join("\n");
+}
+
+function printHelp(example?: ExampleDefinition) {
+  if (example) {
+    console.log(`Usage: smooth-op run ${example.name} [options]\n\n${example.description}\n\nOptions:\n${formatOptions(example.options)}`);
+    return;
+  }
+
+  console.log(`Usage: smooth-op run <example> [options]
+       smooth-op --list
+       smooth-op --help
+       smooth-op run <example> --help
+       smooth-op config [--config <path>]
+
+Runs one of the Smooth Operator examples. "config" prints the settings from the config file,
+the environment and the .env file, without secrets.
+
+Examples:
+${examples.map(e => `    ${e.name.padEnd(12)}${e.description}`).join("\n")}
+
+Exit codes:
+    ${EXIT_SUCCESS}  the example ran through
+    ${EXIT_FAILURE}  the example failed
+    ${EXIT_USAGE}  invalid command line or configuration`);
+}
+
+function printList() {
+  for (const example of examples) {
+    console.log(`${example.name.padEnd(12)}${example.description}`);
+  }
+}
+
+/**
+ * Run the command line given in args (without the node and script paths) and return the exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    const [command, ...rest] = args;
+
+    if (command === undefined || command === "--help" || command === "-h") {
+      printHelp();
+      return command === undefined ? EXIT_USAGE : EXIT_SUCCESS;
+    }
+    if (command === "--list") {
+      printList();
+      return EXIT_SUCCESS;
+    }
+    if (command === "config") {
+      // The effective settings, without secrets
+      const options = parseOptions(rest, [configOption]);
+      console.log(formatConfig(loadConfig({ file: options["config"] })));
+      return EXIT_SUCCESS;
+    }
+    if (command !== "run") {
+      throw new UsageError(`Unknown command "${command}".`);
+    }
+
+    const [exampleName, ...optionArgs] = rest;
+    const example = examples.find(e => e.name === exampleName);
+    if (!example) {
+      throw new UsageError(exampleName
+        ? `Unknown example "${exampleName}". Use --list to see the available examples.`
+        : "Missing example name. Use --list to see the available examples.");
+    }
+    if (optionArgs.includes("--help") || optionArgs.includes("-h")) {
+      printHelp(example);
+      return EXIT_SUCCESS;
+    }
+
+    const options = parseOptions(optionArgs, example.options);
+    // The config file, the environment and the options, checked before anything runs
+    const config = loadConfig({ file: options["config"], options });
+    // Nothing is written before the example logs its first event, a usage error leaves no run directory
+    const runLog = createRunLog(example.name, { ...parseRunLogOptions(options), secrets: configSecrets(config) });
+    let success = false;
+    try {
+      success = await example.run(options, runLog, config);
+    } finally {
+      // Also when the example throws, the events so far are in the report
+      console.log(`Run report: ${runLog.finish(success)}`);
+    }
+    console.log("\nExample finished.");
+    return success ? EXIT_SUCCESS : EXIT_FAILURE;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Error: ${error.message}`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\n`);
+      printHelp();
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createRecordingClient, createReplaySession, loadCassette, unrecordedClient, CassetteMismatchError } from './client-cassette';
+import { runCalculatorExample } from './calculator-example';
+import { loadConfig } from './config';
+
+const tempCassette = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cassette-")), "run.cassette.jsonl");
+
+// Calculator on a desktop where the calculator has the focus; the first clicks fail with a network error
+function createFakeCalculatorClient(clickFailures = 0) {
+  let display = "0";
+  const calculator = { id: "w1", title: "Calculator" };
+  return {
+    system: {
+      openApplication: async () => ({ success: true }),
+      getOverview: async () => ({
+        windows: [calculator],
+        focusInfo: { focusedElementParentWindow: { ...calculator, name: "Calculator", controlType: "Window",
+          children: [{ id: "display", name: `Display is ${display}`, controlType: "Text" }] } },
+      }),
+    },
+    keyboard: { type: async (text: string) => { display = text; return { success: true }; } },
+    mouse: {
+      clickByDescription: async () => {
+        if (clickFailures-- > 0) {
+          throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+        }
+        display = "7";
+        return { success: true };
+      },
+    },
+    startServer: async () => {},
+    stopServer: () => {},
+  } as unknown as SmoothOperatorClient;
+}
+
+test("recorded calls are replayed in order, including errors", async () => {
+  const cassettePath = tempCassette();
+  const recording = createRecordingClient(createFakeCalculatorClient(1), cassettePath);
+  await recording.system.openApplication("calc");
+  await recording.keyboard.type("3+4");
+  await assert.rejects(recording.mouse.clickByDescription("the equals sign"), /socket hang up/);
+  await recording.mouse.clickByDescription("the equals sign");
+  assert.deepEqual(loadCassette(cassettePath).map(call => call.method),
+    ["system.openApplication", "keyboard.type", "mouse.clickByDescription", "mouse.clickByDescription"]);
+
+  const session = createReplaySession(cassettePath);
+  assert.deepEqual(await session.client.system.openApplication("calc"), { success: true });
+  await session.client.keyboard.type("3+4");
+  await assert.rejects(session.client.mouse.clickByDescription("the equals sign"),
+    (error: any) => error.message === "socket hang up" && error.code === "ECONNRESET");
+  await session.client.mouse.clickByDescription("the equals sign");
+  assert.equal(session.remaining(), 0);
+});
+
+test("a call that differs from the cassette throws a CassetteMismatchError", async () => {
+  const cassettePath = tempCassette();
+  await createRecordingClient(createFakeCalculatorClient(), cassettePath).keyboard.type("3+4");
+
+  const session = createReplaySession(cassettePath);
+  await assert.rejects(session.client.keyboard.type("5+6"), (error: unknown) =>
+    error instanceof CassetteMismatchError && error.index === 0 && /expected keyboard.type\("3\+4"\)/.test(error.message));
+  await assert.rejects(session.client.keyboard.type("3+4"), /the cassette has no further calls/);
+});
+
+test("calls outside the cassette are answered with the last replayed or the next recorded result", async () => {
+  const cassettePath = tempCassette();
+  const recording = createRecordingClient(createFakeCalculatorClient(), cassettePath);
+  await unrecordedClient(recording).system.getOverview();
+  await recording.keyboard.type("3+4");
+  await recording.system.getOverview();
+  assert.deepEqual(loadCassette(cassettePath).map(call => call.method), ["keyboard.type", "system.getOverview"]);
+
+  const session = createReplaySession(cassettePath);
+  const unrecorded = unrecordedClient(session.client);
+  const overview = loadCassette(cassettePath)[1].result;
+  assert.deepEqual(await unrecorded.system.getOverview(), overview);
+  await session.client.keyboard.type("3+4");
+  await session.client.system.getOverview();
+  assert.deepEqual(await unrecorded.system.getOverview(), overview);
+  await assert.rejects(unrecorded.system.getWindowDetails("w1"), CassetteMismatchError);
+  assert.equal(session.calls.length, 2);
+});
+
+test("the calculator example replays with the same automation actions", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "error", () => {});
+  // No language model: the example ends after reading the overview
+  const config = loadConfig({ env: {} });
+  const cassettePath = tempCassette();
+  assert.equal(await runCalculatorExample({ config, client: createRecordingClient(createFakeCalculatorClient(), cassettePath) }), true);
+
+  const session = createReplaySession(cassettePath);
+  assert.equal(await runCalculatorExample({ config, client: session.client }), true);
+  assert.deepEqual(session.calls, [
+    { method: "system.openApplication", args: ["calc"] },
+    // Waiting for the calculator window; the focus check of the guarded client before typing is not recorded
+    { method: "system.getOverview", args: [] },
+    { method: "keyboard.type", args: ["3+4"] },
+    { method: "mouse.clickByDescription", args: ["the equals sign"] },
+    { method: "system.getOverview", args: [] },
+  ]);
+  assert.equal(session.remaining(), 0);
+});
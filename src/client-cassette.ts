@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+
+/**
+ * A recorded client call, e.g. { method: "automation.invoke", args: ["42"], result: { success: true } }
+ */
+export interface CassetteCall {
+  /** Namespace and method, e.g. "system.getOverview" */
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  /** Set instead of result if the call threw */
+  error?: { name: string; message: string; code?: string; status?: number };
+}
+
+/**
+ * Thrown by the replay client when the workflow makes a different call than the one recorded next
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly expected: CassetteCall | undefined,
+    public readonly actual: { method: string; args: unknown[] }
+  ) {
+    super(`Call #${index + 1} ${describeCall(actual)} does not match the cassette, `
+      + (expected ? `expected ${describeCall(expected)}` : "the cassette has no further calls"));
+    this.name = "CassetteMismatchError";
+  }
+}
+
+// Arguments are shortened, screenshots and trees make them unreadable otherwise
+function describeCall(call: { method: string; args: unknown[] }): string {
+  const args = call.args.map(arg => {
+    const json = JSON.stringify(arg) ?? "undefined";
+    return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+  });
+  return `${call.method}(${args.join(", ")})`;
+}
+
+// Starting and stopping the server is not part of the recorded workflow
+const lifecycleMethods = ["startServer", "stopServer"];
+
+// Set on recording and replay clients, see unrecordedClient
+const unrecordedKey = Symbol("unrecordedClient");
+
+// Only the JSON representation of arguments is recorded and compared
+const toJson = (value: unknown): unknown => value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+function serializeError(error: unknown): CassetteCall["error"] {
+  const { name, message, code, status } = (error ?? {}) as { name?: unknown; message?: unknown; code?: unknown; status?: unknown };
+  return {
+    name: typeof name === "string" ? name : "Error",
+    message: typeof message === "string" ? message : String(error),
+    code: typeof code === "string" ? code : undefined,
+    status: typeof status === "number" ? status : undefined,
+  };
+}
+
+/**
+ * The client for calls that are not part of the recorded workflow, e.g. the focus check of the guarded
+ * client, so that cassettes do not depend on it. For a recording client that is the client it records;
+ * a replay client answers such calls with the last replayed result of the method, or its next recorded
+ * one. Other clients are returned as they are.
+ */
+export function unrecordedClient(client: SmoothOperatorClient): SmoothOperatorClient {
+  const unrecorded = (client as unknown as Record<symbol, unknown>)[unrecordedKey];
+  return unrecorded ? unrecorded as SmoothOperatorClient : client;
+}
+
+/**
+ * Read a cassette file (one JSON call per line)
+ */
+export function loadCassette(cassettePath: string): CassetteCall[] {
+  return fs.readFileSync(cassettePath, "utf8")
+    .split("\n")
+    .filter(line => line.trim().length > 0)
+    .map(line => JSON.parse(line) as CassetteCall);
+}
+
+/**
+ * Wrap a client so that every call and its result (or error) is appended to the cassette file.
+ * The file is started fresh and written call by call, so a crashed run still leaves a usable cassette.
+ */
+export function createRecordingClient(client: SmoothOperatorClient, cassettePath: string): SmoothOperatorClient {
+  fs.mkdirSync(path.dirname(path.resolve(cassettePath)), { recursive: true });
+  fs.writeFileSync(cassettePath, "");
+  const record = (call: CassetteCall) => fs.appendFileSync(cassettePath, JSON.stringify(call) + "\n");
+
+  const namespaces = new Map<string, object>();
+  const wrapNamespace = (name: string, target: object) => new Proxy(target, {
+    get(namespace, property, receiver) {
+      const value = Reflect.get(namespace, property, receiver);
+      if (typeof value !== "function" || typeof property !== "string") {
+        return value;
+      }
+      const method = `${name}.${property}`;
+      return async (...args: unknown[]) => {
+        try {
+          const result = await value.apply(namespace, args);
+          record({ method, args: args.map(toJson), result: toJson(result) });
+          return result;
+        } catch (error) {
+          record({ method, args: args.map(toJson), error: serializeError(error) });
+          throw error;
+        }
+      };
+    },
+  });
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      if (property === unrecordedKey) {
+        return target;
+      }
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property === "string" && value !== null && typeof value === "object") {
+        if (!namespaces.has(property)) {
+          namespaces.set(property, wrapNamespace(property, value));
+        }
+        return namespaces.get(property);
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * A client that serves a recorded cassette, with the calls the workflow made
+ */
+export interface ReplaySession {
+  client: SmoothOperatorClient;
+  /** The calls made so far, in order, e.g. to assert on the exact sequence of automation actions */
+  readonly calls: Array<{ method: string; args: unknown[] }>;
+  /** Number of recorded calls that were not replayed yet */
+  remaining(): number;
+}
+
+/**
+ * Create a client that answers from a cassette instead of a server; needs neither Windows nor an API key.
+ * Every call has to match the next recorded call (method and arguments), otherwise it throws a
+ * CassetteMismatchError. Recorded errors are thrown again.
+ */
+export function createReplaySession(cassettePath: string): ReplaySession {
+  const cassette = loadCassette(cassettePath);
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+
+  const replay = (method: string, args: unknown[]) => {
+    const index = calls.length;
+    const actual = { method, args: args.map(toJson) };
+    calls.push(actual);
+    const expected = cassette[index];
+    if (!expected || expected.method !== method || JSON.stringify(expected.args) !== JSON.stringify(actual.args)) {
+      throw new CassetteMismatchError(index, expected, actual);
+    }
+    if (expected.error) {
+      throw Object.assign(new Error(expected.error.message), expected.error);
+    }
+    return expected.result;
+  };
+
+  // Calls outside the cassette, see unrecordedClient
+  const replayUnrecorded = (method: string, args: unknown[]) => {
+    const matches = (call: CassetteCall) => call.method === method && !call.error;
+    const answer = cassette.slice(0, calls.length).reverse().find(matches) ?? cassette.slice(calls.length).find(matches);
+    if (!answer) {
+      throw new CassetteMismatchError(calls.length, undefined, { method, args: args.map(toJson) });
+    }
+    return answer.result;
+  };
+
+  const createNamespace = (name: string, call: (method: string, args: unknown[]) => unknown) => new Proxy({}, {
+    get(_namespace, method) {
+      return typeof method === "string"
+        ? async (...args: unknown[]) => call(`${name}.${method}`, args)
+        : undefined;
+    },
+  });
+
+  const unrecorded = new Proxy({}, {
+    get(_target, property) {
+      return typeof property === "string" ? createNamespace(property, replayUnrecorded) : undefined;
+    },
+  });
+
+  const client = new Proxy({}, {
+    get(_target, property) {
+      if (property === unrecordedKey) {
+        return unrecorded;
+      }
+      if (typeof property !== "string") {
+        return undefined;
+      }
+      if (lifecycleMethods.includes(property)) {
+        return async () => {
+          if (property === "stopServer" && calls.length < cassette.length) {
+            console.warn(`Warning: ${cassette.length - calls.length} recorded call(s) of ${cassettePath} were not replayed.`);
+          }
+        };
+      }
+      return createNamespace(property, replay);
+    },
+  }) as SmoothOperatorClient;
+
+  return {
+    client,
+    calls,
+    remaining: () => cassette.length - calls.length,
+  };
+}
@@ -1,466 +1,548 @@
-import 'dotenv/config';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-import * as https from 'https';
-import { SmoothOperatorClient, ExistingChromeInstanceStrategy } from 'smooth-operator-agent-tools';
-import OpenAI from 'openai';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createOrderEmailSource, OrderEmail, OrderEmailSourceKind } from './order-email-sources';
+import { ImapOptions } from './imap-client';
+import { EmailCapture, ScreenshotCropper, formatCapture } from './email-capture';
+import { openProcessedLedger, contentHash, ProcessedLedger } from './processed-ledger';
+import { ORDER_OUTPUT } from './order';
+import { validateOrder, formatValidationErrors, OrderRules, DEFAULT_ORDER_RULES } from './order-validation';
+import { openReviewQueue, ReviewQueue } from './review-queue';
+import { ApprovalRules, ApprovalDecision, OrderReviewer, approvalReasons, approveOrder, describeOrderChanges } from './order-approval';
+import { openApprovalAuditLog, ApprovalAuditLog } from './approval-audit-log';
+import { createLlmProviderFromConfig, LlmProvider } from './llm-provider';
+import { createClientFromConfig } from './automation-client';
+import { Config, loadConfig } from './config';
+import { RunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { createGuardedClient } from './action-guard';
+import { createStepRunner, printStepSummary, RetryOptions, StepError, StepRunner } from './step-runner';
+import { completeStructured, StructuredOutputError } from './structured-output';
+import { ErpVerificationSelectors } from './erp-verification';
+import { ErpAdapter, ErpAdapterError, ErpTargetKind, createFileErpAdapter, createRestErpAdapter } from './erp-adapter';
+import { createUiErpAdapter, ErpSelectors } from './ui-erp-adapter';
 
-// Helper function to delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Interface for order data
-interface OrderedArticle {
-  articleName: string;
-  quantity: number;
-  pricePerUnit: number;
+/**
+ * Options for the Email-to-ERP example
+ */
+export interface CollectOrdersErpOptions {
+  /** Where to read the order email from (default: "gmail") */
+  emailSource?: OrderEmailSourceKind;
+  /** Search string used to find the order email */
+  searchText?: string;
+  /** Path to an .eml or mbox file (email source "file") */
+  emailFile?: string;
+  /** Mailbox settings (email source "imap") */
+  imap?: ImapOptions;
+  /** Crops Outlook screenshots to the reading pane when its text cannot be read (default: no cropping) */
+  cropScreenshot?: ScreenshotCropper;
+  /** Process all matching emails instead of only the most recent one */
+  batch?: boolean;
+  /** Maximum number of emails read in batch mode (default: DEFAULT_MAX_BATCH_EMAILS) */
+  maxEmails?: number;
+  /** Ledger file of the processed emails (default: DEFAULT_LEDGER_PATH) */
+  ledgerPath?: string;
+  /** Business rules extracted orders have to satisfy (default: DEFAULT_ORDER_RULES) */
+  orderRules?: OrderRules;
+  /** Directory invalid orders are written to (default: DEFAULT_REVIEW_QUEUE_DIR) */
+  reviewQueueDir?: string;
+  /** Show high-value and low-confidence orders to a reviewer before they are entered (default: no review) */
+  approval?: ApprovalOptions;
+  /** Where the orders are entered (default: "ui", the Mini ERP Mock). The ERP settings default to the erp section of the config. */
+  erpTarget?: ErpTargetKind;
+  /** Export file of the "file" target, .csv or .json */
+  erpExportFile?: string;
+  /** URL orders are POSTed to (target "rest"); the bearer token is erp.apiToken of the config (ERP_API_TOKEN) */
+  erpUrl?: string;
+  /** Adapter to enter the orders with instead of the one of erpTarget, e.g. for another ERP */
+  erpAdapter?: ErpAdapter;
+  /** Selectors for the ERP window and controls, target "ui" (default: DEFAULT_ERP_WINDOW_SELECTOR, DEFAULT_ERP_SELECTORS) */
+  erpWindowSelector?: string;
+  erpSelectors?: Partial<ErpSelectors>;
+  /** Selectors for reading a saved order back (default: DEFAULT_ERP_VERIFICATION_SELECTORS) */
+  erpVerificationSelectors?: Partial<ErpVerificationSelectors>;
+  /** Skip reading the saved order back from the ERP (default: false) */
+  skipVerification?: boolean;
+  /** Cache file of the ERP element IDs (default: DEFAULT_SELECTOR_CACHE_PATH) */
+  selectorCachePath?: string;
+  /** Path to an already downloaded ERP executable; skips the mock ERP download */
+  erpExePath?: string;
+  /** Never download the mock ERP, take the pinned version from this file or directory (default: download it) */
+  erpOfflinePath?: string;
+  /** Cache directory of the mock ERP download (default: DEFAULT_ARTIFACT_CACHE_DIR) */
+  artifactCacheDir?: string;
+  /** Retries of failed automation steps and language model calls, override retry of the config (default: DEFAULT_RETRY_OPTIONS) */
+  retry?: Partial<RetryOptions>;
+  /** Event log and artifacts of the run, see createRunLog (default: none) */
+  runLog?: RunLog;
+  /** Settings such as the API keys (default: loadConfig(), from the config file, the environment and the .env file) */
+  config?: Config;
+  /** Client to use instead of creating one, e.g. a replay client (default: createClientFromConfig) */
+  client?: SmoothOperatorClient;
+  /** URL of an already running Smooth Operator server, e.g. "http://localhost:54321" */
+  serverUrl?: string;
 }
 
-interface Order {
-  customerName: string;
-  orderedArticles: OrderedArticle[];
+/**
+ * Review of orders before they are entered into the ERP, see order-approval.ts
+ */
+export interface ApprovalOptions extends ApprovalRules {
+  reviewer: OrderReviewer;
+  /** Audit log of the decisions (default: DEFAULT_APPROVAL_LOG_PATH) */
+  auditLogPath?: string;
 }
 
-// Interface for ERP element IDs
-interface ErpElementIds {
-  elementIdCustomerName: string;
-  elementIdArticleName: string;
-  elementIdQuantity: string;
-  elementIdPricePerUnit: string;
-  elementIdAddItemButton: string;
-  elementIdSaveOrderButton: string;
-}
+/** Subject of the example order email */
+export const DEFAULT_ORDER_SEARCH_TEXT = "New Computerstuff.com Order";
+
+/** Maximum number of emails read in batch mode */
+export const DEFAULT_MAX_BATCH_EMAILS = 20;
 
 /**
- * Get a screenshot of an order email from Gmail
+ * Extract order data from the email text or screenshot using the language model.
+ * Returns the order in the form of ORDER_OUTPUT, or the last answer if the model could not be brought into
+ * that form (validateOrder lists its problems then); null if there was no JSON at all.
  */
-async function getOrderScreenshotFromGmail(client: SmoothOperatorClient) {
-  /*
-   * Example Email Content to send to your Gmail for testing:
-   *
-   * Subject: New Computerstuff.com Order
-   * Text:
-   * Dear you,
-   *
-   * I just visited our customer Smith & Co. Ltd.
-   * They want to order:
-   *
-   * - Product Name: High-Speed Router X200
-   *   Quantity: 5 units
-   *   Price per unit: 120.00
-   *
-   * - Product Name: Cat6 Ethernet Cable (10m)
-   *   Quantity: 10 units
-   *   Price per unit: 15.00
-   *
-   * Best regards,
-   * John Doe
-   * Sales Representative
-   */
-  console.log("Opening Gmail in Chrome...");
-  // ForceClose strategy might be disruptive, consider alternatives if needed
-  const openResult = await client.chrome.openChrome("https://mail.google.com/", ExistingChromeInstanceStrategy.ForceClose);
-  console.log(openResult?.message ?? "Attempted to open Chrome.");
-  
-  if (openResult?.message?.startsWith('Error')) {
-    console.error("Failed to open Chrome.");
+async function parseOrderDataFromEmail(
+  email: OrderEmail, 
+  llm: LlmProvider,
+  steps: StepRunner
+): Promise<unknown | null> {
+  const capture = email.capture ? ` (${formatCapture(email.capture)})` : "";
+  console.log(`Asking ${llm.name} to extract order data from ${email.text ? "email text" : "screenshot"}${capture}...`);
+  try {
+    const prompt = `Extract the order details from the email in the ${email.text ? "text below" : "screenshot"}. Include every ordered article. {{format}}`;
+    
+    // Prefer the email text if the source delivered it, it is cheaper and more reliable than the screenshot
+    const order = await completeStructured(llm, ORDER_OUTPUT, email.text
+      ? { task: "order-extraction", prompt: `${prompt}\n\nEmail:\n${email.text}` }
+      : { task: "order-extraction", prompt, images: [{ base64: email.screenshot?.imageBase64 ?? "" }] },
+      { steps, stepName: "extract order" });
+    console.log(`AI Order Extraction Response: ${JSON.stringify(order)}`);
+    return order;
+    
+  } catch (ex) {
+    if (ex instanceof StepError && ex.kind === "auth") {
+      throw ex; // Every further call would fail as well
+    }
+    if (ex instanceof StructuredOutputError && ex.kind === "schema") {
+      console.error(ex.message);
+      return ex.value;
+    }
+    console.error(`Error calling ${llm.name} for order extraction: ${ex}`);
     return null;
   }
-  
-  // Generous delay for Gmail load and potential login
-  await delay(10000);
-
-  // Basic navigation - might need adjustments based on Gmail's UI state
-  console.log("Searching for 'order' in Gmail...");
-  // Use description-based click for search bar
-  await client.mouse.clickByDescription("the search mail input field");
-  await delay(1000);
-  await client.keyboard.type("New Computerstuff.com Order");
-  await delay(500);
-  await client.keyboard.press("Enter");
-  await delay(5000); // Wait for search results
-
-  console.log("Clicking the first email in the search results...");
-  // This description might need refinement
-  await client.mouse.clickByDescription("the first email result in the list");
-  await delay(5000); // Wait for email to load
-
-  console.log("Taking screenshot of the email...");
-  const screenshot = await client.screenshot.take();
-  return screenshot;
 }
 
 /**
- * Get a screenshot of an order email from Outlook
+ * Main function to run the Email-to-ERP example. Returns true if no order failed.
  */
-async function getOrderScreenshotFromOutlook(client: SmoothOperatorClient) {
-  console.log("Opening Outlook...");
+export async function runCollectOrdersErp(options: CollectOrdersErpOptions = {}): Promise<boolean> {
+  console.log("Starting Email-to-ERP Example...");
+  
+  // The settings can be passed in, otherwise they are read from the config file, the environment and the .env file
+  let config: Config;
   try {
-    await client.system.openApplication("outlook");
-    await delay(10000); // Generous delay for Outlook to load
-  } catch (ex) {
-    console.error(`Failed to open Outlook: ${ex}. Make sure Outlook is installed.`);
-    return null;
+    config = options.config ?? loadConfig();
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
   }
+  // Options win over the settings of the config
+  options = {
+    ...options,
+    erpTarget: options.erpTarget ?? config.erp.target,
+    erpExportFile: options.erpExportFile ?? config.erp.exportFile,
+    erpUrl: options.erpUrl ?? config.erp.url,
+    erpExePath: options.erpExePath ?? config.erp.exePath,
+    erpOfflinePath: options.erpOfflinePath ?? config.erp.offlinePath,
+    artifactCacheDir: options.artifactCacheDir ?? config.erp.artifactCacheDir,
+    retry: { ...config.retry, ...options.retry },
+  };
+  
+  // Without Gmail, Outlook and the UI target nothing is automated, the run needs no Smooth Operator server
+  const emailSource = options.emailSource ?? "gmail";
+  const needsClient = !!options.client || emailSource === "gmail" || emailSource === "outlook"
+    || (!options.erpAdapter && (options.erpTarget ?? "ui") === "ui");
 
-  console.log("Searching for 'order' in Outlook...");
-  // Using keyboard shortcuts for search
-  await client.keyboard.press("Ctrl+E"); // Focus search bar shortcut
-  await delay(2000);
-  await client.keyboard.type("New Computerstuff.com Order");
-  await delay(5000);
-  await client.keyboard.press("Enter");
-  await delay(5000); // Wait for search results
-
-  console.log("Clicking the first email in the Outlook search results...");
-  // Using description-based click - might need adjustment
-  await client.mouse.clickByDescription("the first email shown in the list pane");
-  await delay(5000); // Wait for email to load
+  // A dry run does not open Chrome or Outlook, their mailbox would never show up
+  if (config.safety.dryRun && (emailSource === "gmail" || emailSource === "outlook")) {
+    console.error(`Error: A dry run cannot read order emails from ${emailSource === "gmail" ? "Gmail" : "Outlook"}, use --source file or --source imap.`);
+    return false;
+  }
+  
+  // The client can be passed in (e.g. a replay client in tests), otherwise the config selects it,
+  // see createClientFromConfig. Passing a server URL connects to an already running server.
+  let client: SmoothOperatorClient | null = null;
+  if (needsClient) {
+    try {
+      client = options.client ?? createClientFromConfig(config, options.serverUrl);
+    } catch (error: any) {
+      console.error(`Error: ${error.message || error}`);
+      return false;
+    }
+    
+    if (!client) {
+      console.error("Error: SCREENGRASP_API_KEY not found in .env file. Get a free key at https://screengrasp.com/api.html");
+      return false;
+    }
+  }
+  
+  // The language model is OpenAI by default, see createLlmProviderFromConfig for the alternatives
+  let llm: LlmProvider | null;
+  try {
+    llm = createLlmProviderFromConfig(config.llm);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+  
+  if (!llm) {
+    console.warn("Warning: OPENAI_API_KEY not found in .env file. OpenAI part will be skipped. Get a key at https://platform.openai.com/api-keys");
+  }
+  
+  // Destructive actions need an opt-in or a confirmation, a dry run only logs the actions, see action-guard.ts
+  client = client && createGuardedClient(client, config.safety);
 
-  console.log("Taking screenshot of Outlook...");
-  const screenshot = await client.screenshot.take();
-  return screenshot;
+  // Client calls and language model requests are written to the run log, see run-log.ts
+  if (options.runLog) {
+    client = client && createLoggingClient(client, options.runLog);
+    llm = llm && createLoggingLlmProvider(llm, options.runLog);
+  }
+  
+  if (client) {
+    console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
+    try {
+      await client.startServer();
+    } catch (error) {
+      console.error("Failed to start server:", error);
+      return false;
+    }
+  }
+  
+  try {
+    return await collectOrders(client, options, llm, config);
+  } finally {
+    options.approval?.reviewer.close();
+    // Ensure the server is stopped even if errors occur
+    if (client) {
+      console.log("Stopping server...");
+      client.stopServer();
+    }
+    
+    console.log("\nEmail-to-ERP Example finished.");
+  }
 }
 
 /**
- * Download the mock ERP application
+ * The adapter of the ERP target selected in the options
  */
-async function downloadMockErp(): Promise<string | null> {
-  const downloadUrl = "https://www.dropbox.com/scl/fi/4qc9w57zrmmisyqu3ojnp/mini-erp-mock.exe?rlkey=x5m3ob810zt1scf0mpfn15l4v&dl=1";
-  const tempPath = os.tmpdir();
-  const fileName = "mini-erp-mock.exe";
-  const destinationPath = path.join(tempPath, fileName);
-
-  // Check if file already exists
-  if (fs.existsSync(destinationPath)) {
-    console.log("Mock ERP already exists, skipping download.");
-    return destinationPath;
+function createErpAdapter(
+  client: SmoothOperatorClient | null,
+  llm: LlmProvider,
+  steps: StepRunner,
+  options: CollectOrdersErpOptions,
+  erpConfig: Config["erp"]
+): ErpAdapter {
+  if (options.erpAdapter) {
+    return options.erpAdapter;
   }
-
-  return new Promise<string | null>((resolve) => {
-    console.log(`Downloading mock ERP application to ${destinationPath}...`);
-    const file = fs.createWriteStream(destinationPath);
-    
-    https.get(downloadUrl, (response) => {
-      if (response.statusCode !== 200) {
-        console.error(`Failed to download: HTTP ${response.statusCode}`);
-        file.close();
-        fs.unlinkSync(destinationPath);
-        resolve(null);
-        return;
+  switch (options.erpTarget ?? "ui") {
+    case "ui":
+      if (!client) {
+        throw new Error("The UI target requires the Smooth Operator client.");
+      }
+      return createUiErpAdapter(client, llm, steps, options);
+    case "file":
+      if (!options.erpExportFile) {
+        throw new Error("The file target requires an export file.");
       }
+      return createFileErpAdapter(options.erpExportFile);
+    case "rest":
+      if (!options.erpUrl) {
+        throw new Error("The REST target requires a URL.");
+      }
+      return createRestErpAdapter({ url: options.erpUrl, token: erpConfig.apiToken, timeoutMs: erpConfig.apiTimeoutMs }, steps);
+  }
+}
 
-      response.pipe(file);
-      
-      file.on('finish', () => {
-        file.close();
-        console.log("Download completed.");
-        resolve(destinationPath);
-      });
-      
-    }).on('error', (err) => {
-      fs.unlinkSync(destinationPath);
-      console.error(`Error downloading mock ERP: ${err.message}`);
-      resolve(null);
-    });
-  });
+/**
+ * Outcome of processing one order email
+ */
+interface OrderResult {
+  /** Subject or id of the email, for the summary */
+  label: string;
+  status: "succeeded" | "skipped" | "review" | "failed";
+  reason?: string;
+  /** How the email was read */
+  capture?: EmailCapture;
 }
 
 /**
- * Extract order data from screenshot using OpenAI
+ * Ledger keys that identify an email before its order is extracted
  */
-async function parseOrderDataFromScreenshot(
-  screenshot: any, 
-  openaiApiKey: string
-): Promise<Order | null> {
-  if (!openaiApiKey) {
-    console.log("No OpenAI API key provided, skipping order extraction.");
-    return null;
+function getEmailKeys(email: OrderEmail): string[] {
+  if (email.messageId) {
+    return [`message-id:${email.messageId}`];
   }
-    
-  console.log("Asking OpenAI to extract order data from screenshot...");
-  try {
-    const openai = new OpenAI({ apiKey: openaiApiKey });
-    
-    const prompt = `Extract the order details from the email in the screenshot. Provide the output strictly in the following JSON format:
-{
-  "customerName": "name of the customer",
-  "orderedArticles": [
-    {
-      "articleName": "name of the article",
-      "quantity": quantity_as_number,
-      "pricePerUnit": price_as_number
-    }
-    // ... more articles if present
-  ]
-}`;
+  return email.text ? [contentHash("email", email.text)] : [];
+}
 
-    const chatCompletion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${screenshot.imageBase64}`
-              }
-            }
-          ]
-        }
-      ]
-    });
-    
-    const jsonResponse = chatCompletion.choices[0].message.content;
-    console.log(`OpenAI Order Extraction Response: ${jsonResponse}`);
-    
-    if (!jsonResponse) {
-      console.error("Error: Empty response from OpenAI");
-      return null;
-    }
-    
-    // Parse the JSON response
-    const orderData = JSON.parse(jsonResponse);
-    console.log(`Successfully extracted order for customer: ${orderData.customerName}`);
-    
-    return orderData as Order;
-    
-  } catch (ex) {
-    console.error(`Error calling OpenAI for order extraction: ${ex}`);
-    return null;
+
+function printSummary(results: OrderResult[]) {
+  const count = (status: OrderResult["status"]) => results.filter(r => r.status === status).length;
+  console.log("\n--- Order Summary ---");
+  for (const result of results) {
+    const capture = result.capture ? ` [${result.capture.strategy} ${result.capture.confidence}]` : "";
+    console.log(`${result.status.padEnd(9)} ${result.label}${capture}${result.reason ? ` (${result.reason})` : ""}`);
   }
+  console.log(`Succeeded: ${count("succeeded")}, skipped: ${count("skipped")}, queued for review: ${count("review")}, failed: ${count("failed")}`);
+  console.log("---------------------");
 }
 
 /**
- * Use OpenAI to identify the element IDs in the ERP UI
+ * Read the order emails, extract the orders and enter them into the ERP
  */
-async function identifyErpElementIds(
-  windowDetailsJson: string,
-  openaiApiKey: string
-): Promise<ErpElementIds | null> {
-  if (!openaiApiKey) {
-    console.log("No OpenAI API key provided, skipping element ID identification.");
-    return null;
-  }
-    
-  console.log("Asking OpenAI to identify ERP element IDs...");
+async function collectOrders(
+  client: SmoothOperatorClient | null,
+  options: CollectOrdersErpOptions,
+  llm: LlmProvider | null,
+  config: Config
+): Promise<boolean> {
+  const maxEmails = options.batch ? options.maxEmails ?? DEFAULT_MAX_BATCH_EMAILS : 1;
+  const steps = createStepRunner(options.retry, options.runLog?.recordStep);
+  
+  let emails: OrderEmail[] = [];
   try {
-    const openai = new OpenAI({ apiKey: openaiApiKey });
-    
-    const prompt = `Based on the following UI automation tree JSON for the 'Mini ERP Mock' application, identify the element IDs for the specified controls. Provide the output strictly in the following JSON format:
-{
-  "elementIdCustomerName": "ID_for_customer_name_input",
-  "elementIdArticleName": "ID_for_article_name_input",
-  "elementIdQuantity": "ID_for_quantity_input",
-  "elementIdPricePerUnit": "ID_for_price_input",
-  "elementIdAddItemButton": "ID_for_add_item_button",
-  "elementIdSaveOrderButton": "ID_for_save_order_button"
-}
-
-UI Automation Tree JSON:
-${windowDetailsJson}`;
-
-    const chatCompletion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "user",
-          content: prompt
-        }
-      ]
+    // --- Get Order Emails ---
+    // By default, uses Gmail via Chrome. Local Outlook (if installed), an .eml/mbox file
+    // or an IMAP mailbox can be used instead.
+    const emailSource = createOrderEmailSource(client, {
+      kind: options.emailSource ?? "gmail",
+      searchText: options.searchText ?? DEFAULT_ORDER_SEARCH_TEXT,
+      filePath: options.emailFile,
+      imap: options.imap,
+      steps,
+      cropScreenshot: options.cropScreenshot,
+      // Redacted from everything logged after it was read, e.g. the prompts
+      onEmailRead: email => options.runLog?.addEmailContent(email.subject, email.text),
     });
+    console.log(`Attempting to get ${options.batch ? `up to ${maxEmails} order emails` : "the order email"} via ${emailSource.name}...`);
+    emails = await emailSource.getOrderEmails(maxEmails);
     
-    const jsonResponse = chatCompletion.choices[0].message.content;
-    console.log(`OpenAI Element ID Response: ${jsonResponse}`);
-    
-    // Parse the JSON response
-    if (!jsonResponse) {
-      console.error("Error: Empty response from OpenAI");
-      return null;
-    }
-    
-    const elementIds = JSON.parse(jsonResponse) as ErpElementIds;
-    
-    // Basic validation
-    if (!elementIds.elementIdCustomerName) {
-      console.error("Error: Could not find necessary element IDs");
-      return null;
+    if (emails.length === 0) {
+      console.error("Error: Could not get any order email.");
+      return false;
     }
-    
-    console.log("Successfully identified ERP element IDs.");
-    return elementIds;
+    console.log(`Successfully got ${emails.length} order email(s).`);
     
   } catch (ex) {
-    console.error(`Error calling OpenAI for element ID extraction: ${ex}`);
-    return null;
+    console.error(`Error getting order emails: ${ex}`);
+    return false;
   }
-}
-
-/**
- * Main function to run the Email-to-ERP example
- */
-export async function runCollectOrdersErp() {
-  console.log("Starting Email-to-ERP Example...");
   
-  // Get API keys from environment variables
-  const screengraspApiKey = process.env.SCREENGRASP_API_KEY;
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  
-  if (!screengraspApiKey) {
-    console.error("Error: SCREENGRASP_API_KEY not found in .env file. Get a free key at https://screengrasp.com/api.html");
-    return;
-  }
+  // --- Skip Emails That Were Already Processed ---
+  // A dry run reads the ledger but writes no files, so that the real run processes the same emails
+  const dryRun = config.safety.dryRun === true;
+  const realLedger = openProcessedLedger(options.ledgerPath);
+  const ledger: ProcessedLedger = dryRun ? { has: (...keys) => realLedger.has(...keys), record: () => {} } : realLedger;
+  const reviewQueue: ReviewQueue = dryRun ? { add: () => "(dry run, not written)" } : openReviewQueue(options.reviewQueueDir);
+  const approvalLog: ApprovalAuditLog = dryRun ? { add: () => {} } : openApprovalAuditLog(options.approval?.auditLogPath);
+  const results: OrderResult[] = [];
+  const pendingEmails: { email: OrderEmail; label: string }[] = [];
+  emails.forEach((email, index) => {
+    const label = email.subject ?? email.messageId ?? `email #${index + 1}`;
+    if (email.capture) {
+      console.log(`Read ${label}: ${formatCapture(email.capture)}`);
+      options.runLog?.log({ level: "info", type: "step", step: "read email", outcome: "succeeded",
+        message: `${label}: ${formatCapture(email.capture)}` });
+    }
+    if (ledger.has(...getEmailKeys(email))) {
+      results.push({ label, status: "skipped", reason: "already processed", capture: email.capture });
+    } else {
+      pendingEmails.push({ email, label });
+    }
+  });
   
-  if (!openaiApiKey) {
-    console.warn("Warning: OPENAI_API_KEY not found in .env file. OpenAI part will be skipped. Get a key at https://platform.openai.com/api-keys");
+  if (pendingEmails.length === 0) {
+    console.log("All order emails were already processed.");
+    printSummary(results);
+    return true;
   }
   
-  // Initialize the Smooth Operator Client
-  const client = new SmoothOperatorClient(screengraspApiKey);
-  
-  console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
-  try {
-    await client.startServer();
-  } catch (error) {
-    console.error("Failed to start server:", error);
-    return;
-  }
+  // Mark the pending emails from index on as failed and finish the run
+  const failPending = (reason: string, fromIndex = 0) => {
+    console.log(`Skipping order extraction and ERP data entry (${reason}).`);
+    results.push(...pendingEmails.slice(fromIndex).map(({ email, label }) => ({ label, status: "failed" as const, reason, capture: email.capture })));
+    printSummary(results);
+    printStepSummary(steps.outcomes);
+    return false;
+  };
   
-  let emailScreenshot = null;
-  try {
-    // --- Get Order Email Screenshot ---
-    // By default, uses Gmail via Chrome.
-    // To use local Outlook instead (if installed), comment the Gmail line and uncomment the Outlook line.
-    console.log("Attempting to get order email screenshot via Gmail...");
-    emailScreenshot = await getOrderScreenshotFromGmail(client);
-    // console.log("Attempting to get order email screenshot via Outlook...");
-    // emailScreenshot = await getOrderScreenshotFromOutlook(client);
-    
-    if (!emailScreenshot || !emailScreenshot.success) {
-      console.error("Error: Could not get email screenshot.");
-      return;
-    }
-    console.log("Successfully captured email screenshot.");
-    
-  } catch (ex) {
-    console.error(`Error getting email screenshot: ${ex}`);
-    return;
+  if (!llm) {
+    return failPending("OpenAI key missing");
   }
   
-  // --- Download and Run Mock ERP ---
-  let erpExePath = null;
+  // --- Open the ERP Target ---
+  // By default the Mini ERP Mock is downloaded, launched and filled in with UI automation,
+  // see ui-erp-adapter.ts; an export file or a REST API can be used instead
+  let erp: ErpAdapter;
   try {
-    console.log("Downloading mock ERP application...");
-    erpExePath = await downloadMockErp();
-    if (!erpExePath) {
-      console.error("Failed to download mock ERP application.");
+    erp = createErpAdapter(client, llm, steps, options, config.erp);
+    if (dryRun) {
+      console.log(`Dry run: not opening ${erp.name}.`);
     } else {
-      console.log(`Mock ERP downloaded to: ${erpExePath}`);
-      
-      console.log("Launching mock ERP application...");
-      await client.system.openApplication(erpExePath);
-      await delay(5000); // Give the app time to start
-      console.log("Mock ERP application launched.");
+      console.log(`Opening ${erp.name}...`);
+      await erp.open();
     }
   } catch (ex) {
-    console.error(`Error with mock ERP application: ${ex}`);
-    // Continue even if ERP fails
-  }
-  
-  // --- Extract Order Data using AI ---
-  let orderData = null;
-  if (openaiApiKey && emailScreenshot && emailScreenshot.success) {
-    orderData = await parseOrderDataFromScreenshot(emailScreenshot, openaiApiKey);
-  } else {
-    console.log("Skipping AI order extraction (OpenAI key missing or screenshot failed).");
+    console.error(`Error opening the ERP target: ${ex instanceof Error ? ex.message : ex}`);
+    return failPending(ex instanceof ErpAdapterError ? ex.reason
+      : ex instanceof StepError ? `${ex.step} failed (${ex.kind})` : "ERP target not usable");
   }
   
-  // --- Automate ERP Data Entry ---
-  if (openaiApiKey && orderData && erpExePath) {
-    console.log("Attempting to automate data entry into mock ERP...");
+  for (let index = 0; index < pendingEmails.length; index++) {
+    const { email, label } = pendingEmails[index];
+    const capture = email.capture;
+    
+    // --- Extract Order Data using AI ---
+    let extractedOrder: unknown | null;
     try {
-      // 1. Get Overview and Find ERP Window
-      console.log("Getting system overview...");
-      const overview = await client.system.getOverview();
-      
-      let windowDetailsJson = null;
-      
-      if (overview.focusInfo && 
-          overview.focusInfo.focusedElementParentWindow && 
-          overview.focusInfo.focusedElementParentWindow.title === "ERP system") {
-        // If ERP window is already focused, use it
-        windowDetailsJson = JSON.stringify(overview.focusInfo.focusedElementParentWindow, null, 2);
-      } else {
-        // Otherwise, find the ERP window by title
-        const erpWindow = overview.windows?.find(w => 
-          w.title && w.title.toLowerCase().includes("erp system"));
-        
-        if (!erpWindow) {
-          console.error("Error: Could not find the Mock ERP window.");
-          return;
-        }
-        
-        console.log(`Found Mock ERP window: ${erpWindow.id} - ${erpWindow.title}`);
-        
-        console.log("Getting ERP window details...");
-        const windowDetails = await client.system.getWindowDetails(erpWindow.id);
-        if (!windowDetails || !windowDetails.userInterfaceElements) {
-          console.error("Error: Could not get details for the Mock ERP window.");
-          return;
-        }
-        
-        windowDetailsJson = JSON.stringify(windowDetails, null, 2);
+      extractedOrder = await parseOrderDataFromEmail(email, llm, steps);
+    } catch (ex) {
+      console.error(`Error calling ${llm.name}: ${ex}`);
+      return failPending("language model authentication failed", index);
+    }
+    if (!extractedOrder) {
+      results.push({ label, status: "failed", reason: "order extraction failed", capture });
+      continue;
+    }
+    
+    // Screenshots carry no message id, the extracted order itself identifies them
+    const keys = [...getEmailKeys(email), contentHash("order", extractedOrder)];
+    if (ledger.has(keys[keys.length - 1])) {
+      results.push({ label, status: "skipped", reason: "identical order already processed", capture });
+      continue;
+    }
+    
+    // --- Validate the Order ---
+    // Invalid orders never reach the ERP, they are queued for a human review instead
+    const { order: validatedOrder, errors } = validateOrder(extractedOrder, options.orderRules ?? DEFAULT_ORDER_RULES);
+    if (!validatedOrder) {
+      console.error(`Extracted order is invalid:\n${formatValidationErrors(errors)}`);
+      const reviewFile = reviewQueue.add({
+        queuedAt: new Date().toISOString(),
+        reason: "validation failed",
+        email: { messageId: email.messageId, subject: email.subject, text: email.text, capture },
+        extractedOrder,
+        errors,
+      });
+      console.log(`Order queued for review: ${reviewFile}`);
+      ledger.record(keys, { processedAt: new Date().toISOString(), outcome: "review", subject: email.subject, capture });
+      results.push({ label, status: "review", reason: `${errors.length} validation error(s)`, capture });
+      continue;
+    }
+    console.log(`Successfully extracted order for customer: ${validatedOrder.customerName}`);
+    if (options.runLog) {
+      options.runLog.log({ level: "info", type: "artifact", step: label, message: "validated order",
+        artifacts: [options.runLog.saveArtifact("order.json", validatedOrder)] });
+    }
+    
+    // --- Human Approval ---
+    // High-value orders and emails that were hard to read are shown to a reviewer before data entry
+    let orderData = validatedOrder;
+    const reasons = options.approval ? approvalReasons(validatedOrder, capture, options.approval) : [];
+    if (options.approval && reasons.length > 0) {
+      console.log(`Order needs a review: ${reasons.join("; ")}`);
+      let decision: ApprovalDecision;
+      try {
+        decision = await approveOrder(options.approval.reviewer, { label, email, order: validatedOrder, reasons },
+          options.orderRules ?? DEFAULT_ORDER_RULES);
+      } catch (ex) {
+        console.error(`The review could not be finished: ${ex}`);
+        const reviewFile = reviewQueue.add({
+          queuedAt: new Date().toISOString(),
+          reason: "approval not finished",
+          email: { messageId: email.messageId, subject: email.subject, text: email.text, capture },
+          extractedOrder,
+          errors: reasons.map(reason => ({ path: "", message: reason })),
+        });
+        console.log(`Order queued for review: ${reviewFile}`);
+        ledger.record(keys, { processedAt: new Date().toISOString(), outcome: "review", subject: email.subject, capture });
+        results.push({ label, status: "review", reason: "approval not finished", capture });
+        continue;
       }
-      
-      // 2. Get Element IDs using AI
-      const erpElementIds = await identifyErpElementIds(windowDetailsJson, openaiApiKey);
-      if (!erpElementIds) {
-        console.error("Error: Could not identify ERP element IDs.");
-        return;
+      approvalLog.add({
+        decidedAt: new Date().toISOString(),
+        label,
+        messageId: email.messageId,
+        subject: email.subject,
+        reasons,
+        capture,
+        reviewer: decision.reviewer,
+        via: options.approval.reviewer.name,
+        decision: decision.decision,
+        extractedOrder: validatedOrder,
+        order: decision.order,
+        changes: decision.order ? describeOrderChanges(validatedOrder, decision.order) : undefined,
+        comment: decision.comment,
+      });
+      options.runLog?.log({ level: "info", type: "step", step: "review order", outcome: "succeeded",
+        message: `${label}: ${decision.decision} by ${decision.reviewer}` });
+      if (decision.decision === "rejected") {
+        console.log(`Order rejected by ${decision.reviewer}${decision.comment ? `: ${decision.comment}` : ""}`);
+        ledger.record(keys, { processedAt: new Date().toISOString(), outcome: "rejected", subject: email.subject, capture });
+        results.push({ label, status: "skipped", reason: `rejected by ${decision.reviewer}`, capture });
+        continue;
       }
-      
-      // 3. Enter Data using Automation
-      console.log(`Entering customer name: ${orderData.customerName} into element ${erpElementIds.elementIdCustomerName}`);
-      await client.automation.setValue(erpElementIds.elementIdCustomerName, orderData.customerName);
-      await delay(500); // Small delay between actions
-      
-      for (const article of orderData.orderedArticles) {
-        console.log(`Entering article: ${article.articleName}`);
-        await client.automation.setValue(erpElementIds.elementIdArticleName, article.articleName);
-        await delay(200);
-        await client.automation.setValue(erpElementIds.elementIdQuantity, article.quantity.toString());
-        await delay(200);
-        await client.automation.setValue(erpElementIds.elementIdPricePerUnit, article.pricePerUnit.toFixed(2));
-        await delay(200);
-        
-        console.log("Clicking 'Add Item' button...");
-        await client.automation.invoke(erpElementIds.elementIdAddItemButton);
-        await delay(1000); // Delay after adding item
+      console.log(`Order ${decision.decision} by ${decision.reviewer}.`);
+      orderData = decision.order!;
+    }
+    
+    // --- Enter the Order into the ERP ---
+    // The targets verify the saved order themselves where they can, e.g. by reading it back from the ERP window
+    if (dryRun) {
+      console.log(`Dry run: would enter the order of ${orderData.customerName} into ${erp.name}.`);
+      results.push({ label, status: "skipped", reason: "dry run", capture });
+      continue;
+    }
+    try {
+      const entry = await erp.enterOrder(orderData, keys[keys.length - 1]);
+      if (entry.status === "mismatch") {
+        const reviewFile = reviewQueue.add({
+          queuedAt: new Date().toISOString(),
+          reason: "ERP verification failed",
+          email: { messageId: email.messageId, subject: email.subject, text: email.text, capture },
+          extractedOrder,
+          errors: entry.differences ?? [],
+        });
+        console.log(`Order queued for review: ${reviewFile}`);
+        // The order was saved, entering it again on the next run would duplicate it
+        ledger.record(keys, {
+          processedAt: new Date().toISOString(),
+          outcome: "mismatch",
+          customerName: orderData.customerName,
+          subject: email.subject,
+          capture,
+          reference: entry.reference,
+        });
+        results.push({ label, status: "failed", reason: "ERP verification failed", capture });
+        continue;
       }
-      
-      console.log("Clicking 'Save Order' button...");
-      await client.automation.invoke(erpElementIds.elementIdSaveOrderButton);
-      await delay(500);
-      
-      console.log("Data entry automation complete.");
-      
+      ledger.record(keys, {
+        processedAt: new Date().toISOString(),
+        outcome: "entered",
+        customerName: orderData.customerName,
+        subject: email.subject,
+        capture,
+        reference: entry.reference,
+      });
+      results.push({ label, status: "succeeded", capture });
     } catch (ex) {
-      console.error(`Error during ERP data entry automation: ${ex}`);
+      console.error(`Error during ERP data entry: ${ex}`);
+      const reason = ex instanceof StepError ? `${ex.step} failed (${ex.kind})` : `ERP data entry failed: ${ex}`;
+      results.push({ label, status: "failed", reason, capture });
     }
-  } else {
-    console.log("Skipping ERP data entry (AI steps failed or ERP not running).");
   }
   
-  // Ensure the server is stopped even if errors occur
-  console.log("Stopping server...");
-  client.stopServer();
-  
-  console.log("\nEmail-to-ERP Example finished.");
-} 
\ No newline at end of file
+  printSummary(results);
+  printStepSummary(steps.outcomes);
+  return results.every(r => r.status !== "failed");
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, ConfigError, formatConfig, configSecrets } from './config';
+import { LLM_TASKS } from './llm-provider';
+
+// A config file with the given content in a new temporary directory
+function writeConfigFile(content: string): string {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "config-")), "smooth-op.config.yaml");
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+const messages = (error: unknown) => error instanceof ConfigError ? error.errors.map(e => `${e.path}: ${e.message}`) : [];
+
+test("the command line wins over the environment, the environment over the file", () => {
+  const file = writeConfigFile([
+    "serverUrl: http://localhost:54321",
+    "retry:",
+    "  maxAttempts: 2",
+    "  initialDelayMs: 100",
+    "erp:",
+    "  target: file",
+    "  exportFile: orders.csv",
+  ].join("\n"));
+  const config = loadConfig({
+    file,
+    env: { RETRY_MAX_ATTEMPTS: "3", ERP_EXPORT_FILE: "orders.json", ERP_TARGET: "" },
+    options: { "max-attempts": "4" },
+  });
+  assert.equal(config.serverUrl, "http://localhost:54321");
+  assert.deepEqual(config.retry, { maxAttempts: 4, initialDelayMs: 100 });
+  // An empty variable counts as not set
+  assert.deepEqual(config.erp, { target: "file", exportFile: "orders.json" });
+});
+
+test("all problems of the file, the environment and the command line are listed in one ConfigError", () => {
+  const file = writeConfigFile([
+    "retries:",
+    "  maxAttempts: 2",
+    "llm: openai",
+    "retry:",
+    "  maxAttempts: 0",
+    "  backoff: 2",
+  ].join("\n"));
+  let thrown: unknown;
+  try {
+    loadConfig({ file, env: { LLM_PROVIDER: "gpt", SAFETY_CONFIRM: "yes" }, options: { "server-url": "localhost:54321", "erp-target": "rest" } });
+  } catch (error) {
+    thrown = error;
+  }
+  assert.ok(thrown instanceof ConfigError);
+  assert.deepEqual(messages(thrown), [
+    `${file}: retries: unknown key`,
+    `${file}: llm: must be a map`,
+    `${file}: retry.backoff: unknown key`,
+    "--server-url: must be an http or https URL",
+    "LLM_PROVIDER: must be one of openai, openai-compatible, replay, record",
+    `${file}: retry.maxAttempts: must be a positive whole number`,
+    "SAFETY_CONFIRM: must be true or false",
+    "erp.url: the ERP target rest requires the URL orders are POSTed to (--erp-url)",
+  ]);
+});
+
+test("API keys, tokens and passwords are redacted from the printed config", () => {
+  const file = writeConfigFile("smtp:\n  password: smtp-file-password\n");
+  const config = loadConfig({
+    file,
+    env: { SCREENGRASP_API_KEY: "sg-key-123456", OPENAI_API_KEY: "sk-openai-123456", ERP_API_TOKEN: "erp-token-123456", IMAP_PASSWORD: "" },
+  });
+  assert.deepEqual(configSecrets(config), ["sg-key-123456", "sk-openai-123456", "erp-token-123456", "smtp-file-password"]);
+
+  const printed = formatConfig(config);
+  for (const secret of configSecrets(config)) {
+    assert.ok(!printed.includes(secret), `${secret} is printed`);
+  }
+  assert.match(printed, /^screengraspApiKey: "?\[redacted\]"?$/m);
+  assert.match(printed, /^  apiKey: "?\[redacted\]"?$/m);
+  assert.match(printed, /^  password: "?\[redacted\]"?$/m);
+  // Settings that are not set are not printed as redacted
+  assert.equal(config.imap.password, undefined);
+  assert.equal((printed.match(/\[redacted\]/g) ?? []).length, 4);
+});
+
+test("whole numbers: a retry delay of 0 turns the pause off, 0 attempts are invalid", () => {
+  const config = loadConfig({ env: { RETRY_DELAY_MS: "0" }, options: { "max-attempts": "2" } });
+  assert.deepEqual(config.retry, { initialDelayMs: 0, maxAttempts: 2 });
+
+  assert.throws(() => loadConfig({ env: { RETRY_MAX_ATTEMPTS: "0", ERP_API_TIMEOUT_MS: "-5" }, options: { "retry-delay": "1.5" } }),
+    (error: unknown) => error instanceof ConfigError && error.errors.map(e => `${e.path}: ${e.message}`).join("\n") === [
+      "RETRY_MAX_ATTEMPTS: must be a positive whole number",
+      "--retry-delay: must be a whole number of at least 0",
+      "ERP_API_TIMEOUT_MS: must be a positive whole number",
+    ].join("\n"));
+});
+
+test("every language model task has its model setting", () => {
+  const env = Object.fromEntries(LLM_TASKS.map(task => [`LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`, `model-for-${task}`]));
+  assert.deepEqual(loadConfig({ env }).llm.models, Object.fromEntries(LLM_TASKS.map(task => [task, `model-for-${task}`])));
+});
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { LlmTask, LLM_TASKS } from './llm-provider';
+import { ErpTargetKind } from './erp-adapter';
+import { SafetySettings, DESTRUCTIVE_ACTION_KINDS, DestructiveActionKind } from './action-guard';
+
+/**
+ * The settings of all examples, merged from the config file, the environment (including the .env file)
+ * and the command line, see loadConfig. Secrets are marked in CONFIG_SETTINGS.
+ */
+export interface Config {
+  /** API key of the live Smooth Operator client */
+  screengraspApiKey?: string;
+  /** URL of an already running Smooth Operator server */
+  serverUrl?: string;
+  client: {
+    /** live: the server; record: the server, writing every call to the cassette; replay: the cassette, no server */
+    mode: "live" | "record" | "replay";
+    cassette?: string;
+  };
+  llm: LlmConfig;
+  /** Retries of failed automation steps and language model calls (default: DEFAULT_RETRY_OPTIONS) */
+  retry: { maxAttempts?: number; initialDelayMs?: number };
+  twitter: {
+    /** Accounts to check instead of the sources of the news profile */
+    accounts?: string[];
+  };
+  erp: {
+    target?: ErpTargetKind;
+    exportFile?: string;
+    url?: string;
+    /** Bearer token of the REST target */
+    apiToken?: string;
+    apiTimeoutMs?: number;
+    exePath?: string;
+    offlinePath?: string;
+    artifactCacheDir?: string;
+  };
+  imap: { password?: string };
+  smtp: { password?: string };
+  /** Guardrails for destructive automation actions and the dry run, see createGuardedClient */
+  safety: SafetySettings;
+}
+
+/**
+ * Settings of the language model provider, see createLlmProviderFromConfig
+ */
+export interface LlmConfig {
+  provider: "openai" | "openai-compatible" | "replay" | "record";
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server */
+  baseUrl?: string;
+  /** Default model for all tasks */
+  model?: string;
+  /** Model per task */
+  models: Partial<Record<LlmTask, string>>;
+  /** Fixture file of "replay" and "record" */
+  fixtures?: string;
+}
+
+/**
+ * A problem found by loadConfig; path names where the value came from, e.g. "LLM_PROVIDER" or "--max-attempts"
+ */
+export interface ConfigValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown by loadConfig, lists all problems at once
+ */
+export class ConfigError extends Error {
+  constructor(public readonly errors: ConfigValidationError[]) {
+    super(`Invalid configuration:\n${errors.map(e => `  ${e.path}: ${e.message}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * A setting: its key in Config and in the config file, the environment variables (the first one set
+ * wins) and the command-line option it is read from
+ */
+export interface ConfigSetting {
+  key: string;
+  env?: string[];
+  option?: string;
+  type: "string" | "url" | "integer" | "boolean" | "list" | string[];
+  /** Smallest value of an integer setting (default: 1) */
+  min?: number;
+  /** Never printed or logged */
+  secret?: boolean;
+}
+
+/** All settings, in the order of the Config interface */
+export const CONFIG_SETTINGS: ConfigSetting[] = [
+  { key: "screengraspApiKey", env: ["SCREENGRASP_API_KEY"], type: "string", secret: true },
+  { key: "serverUrl", env: ["SMOOTH_OPERATOR_SERVER_URL"], option: "server-url", type: "url" },
+  { key: "client.mode", env: ["SMOOTH_OPERATOR_CLIENT"], type: ["live", "record", "replay"] },
+  { key: "client.cassette", env: ["SMOOTH_OPERATOR_CASSETTE"], type: "string" },
+  { key: "llm.provider", env: ["LLM_PROVIDER"], type: ["openai", "openai-compatible", "replay", "record"] },
+  { key: "llm.apiKey", env: ["LLM_API_KEY", "OPENAI_API_KEY"], type: "string", secret: true },
+  { key: "llm.baseUrl", env: ["LLM_BASE_URL"], type: "url" },
+  { key: "llm.model", env: ["LLM_MODEL"], type: "string" },
+  ...LLM_TASKS.map((task): ConfigSetting => ({ key: `llm.models.${task}`, env: [`LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`], type: "string" })),
+  { key: "llm.fixtures", env: ["LLM_FIXTURES"], type: "string" },
+  { key: "retry.maxAttempts", env: ["RETRY_MAX_ATTEMPTS"], option: "max-attempts", type: "integer" },
+  { key: "retry.initialDelayMs", env: ["RETRY_DELAY_MS"], option: "retry-delay", type: "integer", min: 0 },
+  { key: "twitter.accounts", env: ["TWITTER_ACCOUNTS"], option: "accounts", type: "list" },
+  { key: "erp.target", env: ["ERP_TARGET"], option: "erp-target", type: ["ui", "file", "rest"] },
+  { key: "erp.exportFile", env: ["ERP_EXPORT_FILE"], option: "erp-export", type: "string" },
+  { key: "erp.url", env: ["ERP_URL"], option: "erp-url", type: "url" },
+  { key: "erp.apiToken", env: ["ERP_API_TOKEN"], type: "string", secret: true },
+  { key: "erp.apiTimeoutMs", env: ["ERP_API_TIMEOUT_MS"], type: "integer" },
+  { key: "erp.exePath", env: ["ERP_EXE"], option: "erp-exe", type: "string" },
+  { key: "erp.offlinePath", env: ["ERP_OFFLINE_PATH"], option: "erp-offline", type: "string" },
+  { key: "erp.artifactCacheDir", env: ["ARTIFACT_CACHE_DIR"], option: "artifact-cache", type: "string" },
+  { key: "imap.password", env: ["IMAP_PASSWORD"], type: "string", secret: true },
+  { key: "smtp.password", env: ["SMTP_PASSWORD"], type: "string", secret: true },
+  { key: "safety.allowDestructive", env: ["SAFETY_ALLOW_DESTRUCTIVE"], option: "allow-destructive", type: "list" },
+  { key: "safety.confirm", env: ["SAFETY_CONFIRM"], type: "boolean" },
+  { key: "safety.dryRun", env: ["DRY_RUN"], option: "dry-run", type: "boolean" },
+];
+
+/** Config file that is read if it exists, relative to the working directory */
+export const DEFAULT_CONFIG_PATH = "smooth-op.config.yaml";
+
+/**
+ * Where loadConfig reads from
+ */
+export interface ConfigSources {
+  /** Config file, .yaml, .yml or .json (default: DEFAULT_CONFIG_PATH if it exists) */
+  file?: string;
+  /** Environment variables (default: process.env after loading the .env files, see loadDotEnv) */
+  env?: Record<string, string | undefined>;
+  /** Command-line options by name, e.g. { "server-url": "http://localhost:54321" } */
+  options?: Record<string, string>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+let dotEnvLoaded = false;
+
+/**
+ * Load the .env file of the working directory and the one of the project root into process.env,
+ * once. Variables that are already set are kept, so the environment wins over both files and the
+ * working directory wins over the project root.
+ */
+export function loadDotEnv() {
+  if (dotEnvLoaded) {
+    return;
+  }
+  dotEnvLoaded = true;
+  for (const file of [path.resolve(".env"), path.resolve(__dirname, "..", ".env")]) {
+    dotenv.config({ path: file });
+  }
+}
+
+// The value of a nested key of the config file; undefined if a part is missing
+function getPath(root: Record<string, unknown>, key: string): unknown {
+  let value: unknown = root;
+  for (const part of key.split(".")) {
+    value = isRecord(value) ? value[part] : undefined;
+  }
+  return value;
+}
+
+function setPath(root: Record<string, unknown>, key: string, value: unknown) {
+  const parts = key.split(".");
+  let target = root;
+  for (const part of parts.slice(0, -1)) {
+    target = (target[part] ??= {}) as Record<string, unknown>;
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+// Keys of the config file that are no setting
+function checkFileKeys(raw: Record<string, unknown>, filePath: string, errors: ConfigValidationError[], prefix = "") {
+  for (const [name, value] of Object.entries(raw)) {
+    const key = prefix + name;
+    if (CONFIG_SETTINGS.some(setting => setting.key === key)) {
+      continue;
+    }
+    const isSection = CONFIG_SETTINGS.some(setting => setting.key.startsWith(`${key}.`));
+    if (isSection && isRecord(value)) {
+      checkFileKeys(value, filePath, errors, `${key}.`);
+    } else {
+      errors.push({ path: `${filePath}: ${key}`, message: isSection ? "must be a map" : "unknown key" });
+    }
+  }
+}
+
+// Convert a value of the file (any type) or of the environment and command line (text) to the type of the setting
+function parseValue(setting: ConfigSetting, value: unknown): { value?: unknown; message?: string } {
+  const text = typeof value === "number" ? String(value) : value;
+  if (Array.isArray(setting.type)) {
+    return typeof text === "string" && setting.type.includes(text)
+      ? { value: text } : { message: `must be one of ${setting.type.join(", ")}` };
+  }
+  switch (setting.type) {
+    case "integer": {
+      const min = setting.min ?? 1;
+      const number = typeof text === "string" && /^\d+$/.test(text.trim()) ? Number(text) : NaN;
+      return number >= min ? { value: number }
+        : { message: min === 1 ? "must be a positive whole number" : `must be a whole number of at least ${min}` };
+    }
+    case "list": {
+      const items = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(",") : null;
+      const list = items?.map(item => item.trim()).filter(item => item.length > 0);
+      return list && list.length > 0 ? { value: list } : { message: "must be a non-empty list, e.g. a,b,c" };
+    }
+    case "boolean": {
+      const flag = typeof value === "boolean" ? String(value) : typeof text === "string" ? text.trim().toLowerCase() : "";
+      return flag === "true" || flag === "false" ? { value: flag === "true" } : { message: "must be true or false" };
+    }
+    case "url":
+      return typeof text === "string" && /^https?:\/\/\S+$/.test(text) ? { value: text } : { message: "must be an http or https URL" };
+    default:
+      return typeof text === "string" && text.trim() ? { value: text } : { message: "must be a non-empty string" };
+  }
+}
+
+// Checks that need more than one setting
+function checkCombinations(config: Config, errors: ConfigValidationError[]) {
+  if (config.client.mode !== "live" && !config.client.cassette) {
+    errors.push({ path: "client.cassette", message: `SMOOTH_OPERATOR_CLIENT=${config.client.mode} requires the cassette file (SMOOTH_OPERATOR_CASSETTE)` });
+  }
+  if (config.llm.provider === "openai-compatible" && !config.llm.baseUrl) {
+    errors.push({ path: "llm.baseUrl", message: "LLM_PROVIDER=openai-compatible requires LLM_BASE_URL, e.g. http://localhost:11434/v1" });
+  }
+  if ((config.llm.provider === "replay" || config.llm.provider === "record") && !config.llm.fixtures) {
+    errors.push({ path: "llm.fixtures", message: `LLM_PROVIDER=${config.llm.provider} requires the fixture file (LLM_FIXTURES)` });
+  }
+
+  const { target = "ui", exportFile, url, exePath, offlinePath, artifactCacheDir } = config.erp;
+  if (target === "file" && !/\.(csv|json)$/i.test(exportFile ?? "")) {
+    errors.push({ path: "erp.exportFile", message: "the ERP target file requires an export file ending with .csv or .json (--erp-export)" });
+  }
+  if (target === "rest" && !url) {
+    errors.push({ path: "erp.url", message: "the ERP target rest requires the URL orders are POSTed to (--erp-url)" });
+  }
+  if (target !== "ui") {
+    for (const [key, value] of Object.entries({ exePath, offlinePath, artifactCacheDir })) {
+      if (value !== undefined) {
+        errors.push({ path: `erp.${key}`, message: "only applies to the ERP target ui" });
+      }
+    }
+  }
+  if (exePath !== undefined && (offlinePath !== undefined || artifactCacheDir !== undefined)) {
+    errors.push({ path: "erp.exePath", message: "an ERP executable cannot be combined with the mock ERP download settings" });
+  }
+
+  const unknownKinds = (config.safety.allowDestructive ?? []).filter(kind => !DESTRUCTIVE_ACTION_KINDS.includes(kind as DestructiveActionKind));
+  if (unknownKinds.length > 0) {
+    errors.push({ path: "safety.allowDestructive", message: `unknown action kind(s) ${unknownKinds.join(", ")}, expected ${DESTRUCTIVE_ACTION_KINDS.join(", ")}` });
+  }
+}
+
+/**
+ * Merge the config file, the environment and the command-line options into one validated Config;
+ * the command line wins over the environment, the environment over the file. Throws a ConfigError
+ * listing all problems.
+ */
+export function loadConfig(sources: ConfigSources = {}): Config {
+  if (!sources.env) {
+    loadDotEnv();
+  }
+  const env = sources.env ?? process.env;
+  const options = sources.options ?? {};
+  const errors: ConfigValidationError[] = [];
+
+  let file: Record<string, unknown> = {};
+  const filePath = sources.file ?? (fs.existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : undefined);
+  if (filePath) {
+    try {
+      // YAML is a superset of JSON, one parser reads both
+      const raw = parseYaml(fs.readFileSync(filePath, "utf8")) as unknown;
+      if (raw !== null && !isRecord(raw)) {
+        throw new Error("expected a map of settings");
+      }
+      file = raw ?? {};
+      checkFileKeys(file, filePath, errors);
+    } catch (error) {
+      errors.push({ path: filePath, message: `cannot be read: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+
+  const config: Record<string, unknown> = {
+    client: { mode: "live" },
+    llm: { provider: "openai", models: {} },
+    retry: {},
+    twitter: {},
+    erp: {},
+    imap: {},
+    smtp: {},
+    safety: {},
+  };
+  for (const setting of CONFIG_SETTINGS) {
+    const variable = setting.env?.find(name => env[name] !== undefined && env[name] !== "");
+    const fromFile = getPath(file, setting.key);
+    const [source, raw] = setting.option && options[setting.option] !== undefined ? [`--${setting.option}`, options[setting.option]]
+      : variable ? [variable, env[variable]]
+      : fromFile !== undefined && fromFile !== null ? [`${filePath}: ${setting.key}`, fromFile]
+      : [null, undefined];
+    if (source === null) {
+      continue;
+    }
+    const { value, message } = parseValue(setting, raw);
+    if (message) {
+      errors.push({ path: source, message });
+    } else {
+      setPath(config, setting.key, value);
+    }
+  }
+
+  // Also with invalid values, all problems are listed at once
+  checkCombinations(config as unknown as Config, errors);
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return config as unknown as Config;
+}
+
+/**
+ * The values of the secret settings that are set, e.g. for the redaction of the run log
+ */
+export function configSecrets(config: Config): string[] {
+  return CONFIG_SETTINGS
+    .filter(setting => setting.secret)
+    .map(setting => getPath(config as unknown as Record<string, unknown>, setting.key))
+    .filter((value): value is string => typeof value === "string" && value.length > 0);
+}
+
+/**
+ * The config as YAML for printing, with the secrets replaced by "[redacted]"
+ */
+export function formatConfig(config: Config): string {
+  const copy = JSON.parse(JSON.stringify(config)) as Record<string, unknown>;
+  for (const setting of CONFIG_SETTINGS.filter(setting => setting.secret)) {
+    if (getPath(copy, setting.key) !== undefined) {
+      setPath(copy, setting.key, "[redacted]");
+    }
+  }
+  return stringifyYaml(copy).trimEnd();
+}
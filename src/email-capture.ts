@@ -0,0 +1,104 @@
+import { AutomationNode, ScreenRegion, walkTree } from './automation-tree';
+import { queryAll } from './tree-query';
+
+/**
+ * How the content of an order email was read:
+ * - chrome-text: the text of the opened email, taken from the page text of Gmail in Chrome
+ * - automation-tree: the text of Outlook's reading pane, taken from its automation tree
+ * - cropped-screenshot: a screenshot cut down to the email body
+ * - screenshot: a screenshot of the whole screen, read by the vision model
+ * - file, imap: the text of the message itself
+ */
+export type EmailCaptureStrategy = "chrome-text" | "automation-tree" | "cropped-screenshot" | "screenshot" | "file" | "imap";
+
+/**
+ * The strategy used for an order email and how sure it is to have captured exactly that email
+ */
+export interface EmailCapture {
+  strategy: EmailCaptureStrategy;
+  /** 0..1; text of the message itself is 1, screenshots are the least certain */
+  confidence: number;
+  /** Why a fallback was used or the confidence is reduced */
+  note?: string;
+}
+
+/** Email text that is shorter than this is not trusted to contain an order */
+export const MIN_EMAIL_TEXT_LENGTH = 40;
+
+/** Confidence of the strategies that read the email from the screen */
+export const CAPTURE_CONFIDENCE = {
+  /** Both the subject and the end of the email were found in the page text */
+  chromeText: 0.9,
+  /** The subject was found, the end of the email was not */
+  chromeTextWithoutEnd: 0.6,
+  automationTree: 0.8,
+  croppedScreenshot: 0.6,
+  screenshot: 0.4,
+};
+
+/**
+ * Cut a region out of a screenshot (base64 image, as from client.screenshot.take) and return the
+ * base64 image of the region. The examples bring no image library, callers provide one, e.g. sharp.
+ */
+export type ScreenshotCropper = (imageBase64: string, region: ScreenRegion) => Promise<string>;
+
+// Lines of Gmail's page text after the body of an opened email
+const gmailEndLines = ["reply", "reply all", "forward"];
+
+/**
+ * Find the opened email in the page text of Gmail: from the subject line (the first line containing
+ * searchText) to the Reply/Forward buttons below the message. Returns null if the page text does not
+ * contain an email that matches.
+ */
+export function extractGmailEmailText(pageText: string, searchText: string): { subject: string; text: string; confidence: number } | null {
+  const lines = pageText.split("\n").map(line => line.trim());
+  const search = searchText.toLowerCase();
+  const start = lines.findIndex(line => line.toLowerCase().includes(search));
+  if (start === -1) {
+    return null;
+  }
+  const endOffset = lines.slice(start + 1).findIndex(line => gmailEndLines.includes(line.toLowerCase()));
+  const end = endOffset === -1 ? lines.length : start + 1 + endOffset;
+  const text = lines.slice(start + 1, end).join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  if (text.length < MIN_EMAIL_TEXT_LENGTH) {
+    return null;
+  }
+  return {
+    subject: lines[start],
+    text,
+    confidence: endOffset === -1 ? CAPTURE_CONFIDENCE.chromeTextWithoutEnd : CAPTURE_CONFIDENCE.chromeText,
+  };
+}
+
+// Visible text of a subtree: names and values, without repeating what the parent already says
+function subtreeText(root: AutomationNode): string {
+  const lines: string[] = [];
+  walkTree(root, node => {
+    for (const value of [node.name, node.currentValue]) {
+      const line = value?.trim();
+      if (line && lines[lines.length - 1] !== line) {
+        lines.push(line);
+      }
+    }
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Find the message body in the automation tree of Outlook: the Document element of the reading pane
+ * with the most text, null if there is none. Its text may be too short to use (see MIN_EMAIL_TEXT_LENGTH),
+ * e.g. for emails that consist of an image; its region is still where a screenshot can be cropped to.
+ */
+export function findReadingPane(tree: AutomationNode): { text: string; region?: ScreenRegion } | null {
+  const candidates = queryAll(tree, "Document")
+    .map(node => ({ text: subtreeText(node), region: node.boundingRectangle }))
+    .sort((a, b) => b.text.length - a.text.length);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Describe a capture for log output, e.g. "chrome-text, confidence 0.9"
+ */
+export function formatCapture(capture: EmailCapture): string {
+  return `${capture.strategy}, confidence ${capture.confidence}${capture.note ? `, ${capture.note}` : ""}`;
+}
@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createFileErpAdapter, createRestErpAdapter } from './erp-adapter';
+import { startStubErpServer } from './stub-erp-server';
+import { createStepRunner, StepError } from './step-runner';
+import { runCollectOrdersErp } from './collect-orders-erp';
+import { loadConfig } from './config';
+import { Order } from './order';
+
+const order: Order = {
+  customerName: "Smith & Co",
+  orderedArticles: [
+    { articleName: "Wireless Mouse", quantity: 2, pricePerUnit: 10 },
+    { articleName: "=USB-C Cable", quantity: 1, pricePerUnit: 5 },
+  ],
+};
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), "erp-"));
+const noRetries = () => createStepRunner({ maxAttempts: 1 });
+
+// A local HTTP server answering every request with handle; resolves to its URL
+function startServer(handle: (request: http.IncomingMessage, body: string, response: http.ServerResponse) => void) {
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", chunk => body += chunk);
+    request.on("end", () => handle(request, body, response));
+  });
+  return new Promise<{ url: string; close: () => void }>(resolve => server.listen(0, "127.0.0.1", () =>
+    resolve({ url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, close: () => server.close() })));
+}
+
+test("the REST target posts orders to the stub ERP server once per entry key", async t => {
+  t.mock.method(console, "log", () => {});
+  const stub = await startStubErpServer(0, "secret");
+  try {
+    const erp = createRestErpAdapter({ url: stub.url, token: "secret" }, noRetries());
+    await erp.open();
+    const first = await erp.enterOrder(order, "order:abc");
+    const again = await erp.enterOrder(order, "order:abc");
+    assert.equal(first.status, "entered");
+    assert.equal(again.reference, first.reference);
+    assert.equal(stub.orders.length, 1);
+    assert.equal(stub.orders[0].total, 25);
+
+    const unauthorized = createRestErpAdapter({ url: stub.url, token: "wrong" }, noRetries());
+    await assert.rejects(unauthorized.enterOrder(order), (error: unknown) => error instanceof StepError && error.kind === "auth");
+  } finally {
+    await stub.close();
+  }
+});
+
+test("the REST target reports a saved order that differs from the sent one", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "error", () => {});
+  const server = await startServer((_request, body, response) => {
+    const saved = JSON.parse(body) as Order;
+    saved.orderedArticles[0].quantity = 3;
+    response.writeHead(201, { "Content-Type": "application/json", "Location": "/orders/17" });
+    response.end(JSON.stringify(saved));
+  });
+  try {
+    const result = await createRestErpAdapter({ url: `${server.url}/orders` }, noRetries()).enterOrder(order);
+    assert.equal(result.status, "mismatch");
+    assert.equal(result.reference, "/orders/17");
+    assert.deepEqual(result.differences?.map(difference => difference.path), ["orderedArticles[0].quantity"]);
+  } finally {
+    server.close();
+  }
+});
+
+test("the file target appends CSV lines and JSON orders", async t => {
+  t.mock.method(console, "log", () => {});
+  const dir = tempDir();
+  const csv = createFileErpAdapter(path.join(dir, "orders.csv"));
+  await csv.open();
+  await csv.enterOrder(order);
+  await csv.enterOrder(order);
+  const lines = fs.readFileSync(path.join(dir, "orders.csv"), "utf8").trim().split("\r\n");
+  assert.equal(lines.length, 5);
+  assert.equal(lines[0], "reference,enteredAt,customerName,articleName,quantity,pricePerUnit,lineTotal");
+  // Text that a spreadsheet would run as a formula is escaped
+  assert.match(lines[2], /,Smith & Co,'=USB-C Cable,1,5\.00,5\.00$/);
+
+  const json = createFileErpAdapter(path.join(dir, "orders.json"));
+  await json.open();
+  const { reference } = await json.enterOrder(order);
+  await json.enterOrder(order);
+  const exported = JSON.parse(fs.readFileSync(path.join(dir, "orders.json"), "utf8"));
+  assert.equal(exported.length, 2);
+  assert.equal(exported[0].reference, reference);
+  assert.deepEqual(exported[0].orderedArticles, order.orderedArticles);
+
+  assert.throws(() => createFileErpAdapter(path.join(dir, "orders.xlsx")), /must end with .csv or .json/);
+  fs.rmSync(dir, { recursive: true });
+});
+
+test("an order email is extracted and entered through the REST target without Windows", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  // OpenAI-compatible stand-in that extracts the order of fixtures/order.eml
+  const model = await startServer((_request, _body, response) => {
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({
+      id: "chatcmpl-1", object: "chat.completion", created: 0, model: "stand-in",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify({
+        customerName: "Smith & Co",
+        orderedArticles: [
+          { articleName: "Wireless Mouse", quantity: 2, pricePerUnit: 10 },
+          { articleName: "USB-C Cable", quantity: 1, pricePerUnit: 5 },
+        ],
+      }) } }],
+    }));
+  });
+  const stub = await startStubErpServer(0);
+  const dir = tempDir();
+  try {
+    const options = {
+      emailSource: "file" as const,
+      emailFile: path.join(__dirname, "..", "fixtures", "order.eml"),
+      erpTarget: "rest" as const,
+      erpUrl: stub.url,
+      ledgerPath: path.join(dir, "processed-orders.json"),
+      reviewQueueDir: path.join(dir, "review-queue"),
+      config: loadConfig({ env: { LLM_PROVIDER: "openai-compatible", LLM_BASE_URL: `${model.url}/v1` } }),
+    };
+    assert.equal(await runCollectOrdersErp(options), true);
+    assert.deepEqual(stub.orders.map(saved => [saved.customerName, saved.total]), [["Smith & Co", 25]]);
+
+    // The ledger keeps the second run from entering the order again
+    assert.equal(await runCollectOrdersErp(options), true);
+    assert.equal(stub.orders.length, 1);
+  } finally {
+    model.close();
+    await stub.close();
+    fs.rmSync(dir, { recursive: true });
+  }
+});
+
+test("a dry run refuses the Gmail and Outlook sources, which it would never open", async t => {
+  t.mock.method(console, "log", () => {});
+  const errors = t.mock.method(console, "error", () => {});
+  const config = loadConfig({ env: { DRY_RUN: "true", SCREENGRASP_API_KEY: "key" } });
+  assert.equal(await runCollectOrdersErp({ emailSource: "outlook", config }), false);
+  assert.match(String(errors.mock.calls[0].arguments[0]), /dry run cannot read order emails from Outlook/);
+});
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { Order } from './order';
+import { OrderValidationError } from './order-validation';
+import { diffOrder, formatOrderDiff, toReviewErrors, ErpOrderReadBack } from './erp-verification';
+import { createStepRunner, StepRunner } from './step-runner';
+
+/**
+ * What happened to an order that was handed to an ERP adapter
+ */
+export interface EntryResult {
+  /** entered: saved as given; mismatch: saved, but the target shows it with differences */
+  status: "entered" | "mismatch";
+  /** Id of the order in the target, if it has one */
+  reference?: string;
+  /** The differences in the format of the review queue (status mismatch) */
+  differences?: OrderValidationError[];
+}
+
+/**
+ * A system orders are entered into: the Mini ERP Mock via UI automation, an export file or a REST API
+ */
+export interface ErpAdapter {
+  /** Name used in log output, e.g. "REST API https://erp.example.com" */
+  name: string;
+  /** Get the target ready, e.g. launch the ERP application; throws if it cannot be used */
+  open(): Promise<void>;
+  /**
+   * Enter and save the order. entryKey identifies the order across runs (see the processed ledger),
+   * targets that support it use it to ignore an order that is sent twice.
+   * Throws if the order was not saved.
+   */
+  enterOrder(order: Order, entryKey?: string): Promise<EntryResult>;
+}
+
+/** Where orders are entered: the Mini ERP Mock, an export file or a REST API */
+export type ErpTargetKind = "ui" | "file" | "rest";
+
+/**
+ * Thrown by ErpAdapter.open when the target cannot be used
+ */
+export class ErpAdapterError extends Error {
+  constructor(
+    message: string,
+    /** Short reason for the order summary, e.g. "ERP download failed" */
+    public readonly reason: string
+  ) {
+    super(message);
+    this.name = "ErpAdapterError";
+  }
+}
+
+/**
+ * Settings of the REST target
+ */
+export interface RestErpOptions {
+  /** URL orders are POSTed to, e.g. "https://erp.example.com/api/orders" */
+  url: string;
+  /** Sent as bearer token (default: none) */
+  token?: string;
+  /** Give up on a request after this many milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+// Fields of the export files and the REST requests
+interface ExportedOrder extends Order {
+  reference: string;
+  enteredAt: string;
+}
+
+const csvColumns = ["reference", "enteredAt", "customerName", "articleName", "quantity", "pricePerUnit", "lineTotal"];
+
+function csvField(value: string | number, isText = false): string {
+  let text = String(value);
+  // Spreadsheets run cells starting with these characters as formulas
+  if (isText && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Write to a temporary file first so an interrupted run never leaves a truncated export behind
+function writeFileAtomically(filePath: string, content: string) {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+}
+
+function readJsonExport(filePath: string): ExportedOrder[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const content = JSON.parse(fs.readFileSync(filePath, "utf8")) as unknown;
+  if (!Array.isArray(content)) {
+    throw new Error(`${filePath} is no JSON export of orders (expected a list)`);
+  }
+  return content as ExportedOrder[];
+}
+
+/**
+ * Append orders to an export file instead of entering them into an ERP: a .csv file with one line per
+ * article, or a .json file with a list of orders. Other systems can import the file.
+ */
+export function createFileErpAdapter(filePath: string): ErpAdapter {
+  const format = path.extname(filePath).toLowerCase();
+  if (format !== ".csv" && format !== ".json") {
+    throw new Error(`The export file must end with .csv or .json: ${filePath}`);
+  }
+  return {
+    name: `export file ${filePath}`,
+    async open() {
+      try {
+        fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+        if (format === ".json") {
+          readJsonExport(filePath);
+        }
+      } catch (ex) {
+        throw new ErpAdapterError(`Cannot use the export file: ${ex instanceof Error ? ex.message : ex}`, "export file not usable");
+      }
+    },
+    async enterOrder(order) {
+      const exported: ExportedOrder = { reference: crypto.randomBytes(8).toString("hex"), enteredAt: new Date().toISOString(), ...order };
+      if (format === ".json") {
+        writeFileAtomically(filePath, JSON.stringify([...readJsonExport(filePath), exported], null, 2));
+      } else {
+        const lines = order.orderedArticles.map(article => [
+          csvField(exported.reference),
+          csvField(exported.enteredAt),
+          csvField(order.customerName, true),
+          csvField(article.articleName, true),
+          csvField(article.quantity),
+          csvField(article.pricePerUnit.toFixed(2)),
+          csvField((article.quantity * article.pricePerUnit).toFixed(2)),
+        ].join(","));
+        const isNew = !fs.existsSync(filePath) || fs.statSync(filePath).size === 0;
+        fs.appendFileSync(filePath, (isNew ? csvColumns.join(",") + "\r\n" : "") + lines.map(line => line + "\r\n").join(""));
+      }
+      console.log(`Wrote order ${exported.reference} to ${filePath}.`);
+      return { status: "entered", reference: exported.reference };
+    },
+  };
+}
+
+// The order as the API answers with it, in the form of the ERP read-back; null if the answer does not contain it
+function toReadBack(body: Record<string, unknown>): ErpOrderReadBack | null {
+  if (typeof body.customerName !== "string" || !Array.isArray(body.orderedArticles)) {
+    return null;
+  }
+  const number = (value: unknown) => typeof value === "number" ? value : null;
+  return {
+    customerName: body.customerName,
+    lineItems: (body.orderedArticles as Array<Record<string, unknown>>).map(article => ({
+      articleName: typeof article.articleName === "string" ? article.articleName : null,
+      quantity: number(article.quantity),
+      pricePerUnit: number(article.pricePerUnit),
+      lineTotal: null,
+    })),
+    orderTotal: number(body.total),
+  };
+}
+
+function postJson(target: URL, body: string, headers: Record<string, string>, timeoutMs: number) {
+  return new Promise<{ status: number; text: string; location?: string }>((resolve, reject) => {
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "application/json", "Content-Length": Buffer.byteLength(body), ...headers },
+      timeout: timeoutMs,
+    }, response => {
+      let text = "";
+      response.setEncoding("utf8");
+      response.on("data", chunk => text += chunk);
+      response.on("end", () => resolve({ status: response.statusCode ?? 0, text, location: response.headers.location }));
+    });
+    request.on("timeout", () => request.destroy(new Error("ERP API request timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POST orders as JSON ({ customerName, orderedArticles }) to a REST API. The entry key is sent as
+ * Idempotency-Key header, so a retried request does not create the order twice. The id of the order is
+ * taken from the "id" field of the answer or the Location header; if the answer contains the saved order,
+ * it is compared with the order that was sent.
+ */
+export function createRestErpAdapter(options: RestErpOptions, steps: StepRunner = createStepRunner()): ErpAdapter {
+  const target = new URL(options.url);
+  return {
+    name: `REST API ${target.origin}`,
+    async open() {
+      // Nothing to prepare, the first order shows whether the API is reachable
+    },
+    async enterOrder(order, entryKey) {
+      const headers: Record<string, string> = {};
+      if (options.token) {
+        headers["Authorization"] = `Bearer ${options.token}`;
+      }
+      if (entryKey) {
+        headers["Idempotency-Key"] = entryKey;
+      }
+      console.log(`Sending order for ${order.customerName} to ${target.href}...`);
+      const response = await steps.run("post order", async () => {
+        const result = await postJson(target, JSON.stringify(order), headers, options.timeoutMs ?? 30000);
+        if (result.status < 200 || result.status >= 300) {
+          throw Object.assign(new Error(`ERP API answered with status ${result.status}: ${result.text.slice(0, 200)}`), { status: result.status });
+        }
+        return result;
+      });
+
+      let body: Record<string, unknown> = {};
+      try {
+        const parsed = response.text.trim() ? JSON.parse(response.text) as unknown : {};
+        body = typeof parsed === "object" && parsed !== null ? parsed as Record<string, unknown> : {};
+      } catch {
+        console.warn("The ERP API answer is no JSON, the saved order cannot be compared.");
+      }
+      const id = body.id ?? body.orderId;
+      const reference = id !== undefined ? String(id) : response.location;
+      console.log(`The ERP API saved the order${reference ? ` as ${reference}` : ""}.`);
+
+      const saved = toReadBack(body);
+      const diff = saved && diffOrder(order, saved);
+      if (diff && !diff.matches) {
+        console.error(`The ERP API saved a different order than the one sent:\n${formatOrderDiff(diff)}`);
+        return { status: "mismatch", reference, differences: toReviewErrors(diff) };
+      }
+      return { status: "entered", reference };
+    },
+  };
+}
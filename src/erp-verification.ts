@@ -0,0 +1,168 @@
+import { AutomationNode } from './automation-tree';
+import { queryAll } from './tree-query';
+import { Order } from './order';
+import { parseLooseNumber, OrderValidationError } from './order-validation';
+
+/**
+ * Tree selectors (see tree-query.ts) for reading a saved order back from the ERP window.
+ * The cell selectors are relative to a line item row.
+ */
+export interface ErpVerificationSelectors {
+  customerName: string;
+  lineItemRows: string;
+  articleName: string;
+  quantity: string;
+  pricePerUnit: string;
+  /** Optional columns and fields: not compared if the ERP does not show them */
+  lineTotal: string;
+  orderTotal: string;
+}
+
+/** Selectors for the Mini ERP Mock: the customer field and the line item grid of the order form */
+export const DEFAULT_ERP_VERIFICATION_SELECTORS: ErpVerificationSelectors = {
+  customerName: 'Edit[name~="Customer"]',
+  lineItemRows: 'DataGrid DataItem',
+  articleName: '*[name~="Article"]',
+  quantity: '*[name~="Quantity"]',
+  pricePerUnit: '*[name~="Price"]',
+  lineTotal: '*[name~="Total"]',
+  orderTotal: 'Text[name~="Total"]',
+};
+
+/**
+ * A line item as shown by the ERP; values are null if the ERP does not show them
+ */
+export interface ErpLineItem {
+  articleName: string | null;
+  quantity: number | null;
+  pricePerUnit: number | null;
+  lineTotal: number | null;
+}
+
+/**
+ * An order as read back from the ERP window
+ */
+export interface ErpOrderReadBack {
+  customerName: string | null;
+  lineItems: ErpLineItem[];
+  orderTotal: number | null;
+}
+
+/**
+ * A field whose value in the ERP differs from the extracted order
+ */
+export interface OrderDifference {
+  /** Path of the field, e.g. "orderedArticles[1].quantity" */
+  path: string;
+  expected: string | number | null;
+  actual: string | number | null;
+}
+
+/**
+ * Result of comparing the extracted order with what the ERP shows
+ */
+export interface OrderDiff {
+  matches: boolean;
+  differences: OrderDifference[];
+}
+
+// Cents are enough for prices and totals
+const AMOUNT_TOLERANCE = 0.005;
+
+// Edits and cells carry their content in the value, labels in the name
+const readText = (node: AutomationNode | undefined): string | null =>
+  node ? (node.currentValue ?? node.name ?? "").trim() || null : null;
+
+const readNumber = (node: AutomationNode | undefined): number | null => parseLooseNumber(readText(node));
+
+// First match of the selector below root, without root itself
+const findBelow = (root: AutomationNode, selector: string): AutomationNode | undefined =>
+  queryAll(root, selector).find(node => node !== root);
+
+/**
+ * Read the order shown in the ERP window. Empty rows (e.g. the "new row" of a grid) are ignored.
+ */
+export function readErpOrder(
+  tree: AutomationNode,
+  selectors: ErpVerificationSelectors = DEFAULT_ERP_VERIFICATION_SELECTORS
+): ErpOrderReadBack {
+  const lineItems = queryAll(tree, selectors.lineItemRows)
+    .map(row => ({
+      articleName: readText(findBelow(row, selectors.articleName)),
+      quantity: readNumber(findBelow(row, selectors.quantity)),
+      pricePerUnit: readNumber(findBelow(row, selectors.pricePerUnit)),
+      lineTotal: readNumber(findBelow(row, selectors.lineTotal)),
+    }))
+    .filter(item => item.articleName !== null || item.quantity !== null || item.pricePerUnit !== null);
+
+  return {
+    customerName: readText(queryAll(tree, selectors.customerName)[0]),
+    lineItems,
+    orderTotal: readNumber(queryAll(tree, selectors.orderTotal)[0]),
+  };
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare the extracted order with the order read back from the ERP.
+ * Text is compared ignoring case and surrounding whitespace, amounts to the cent.
+ */
+export function diffOrder(expected: Order, actual: ErpOrderReadBack): OrderDiff {
+  const differences: OrderDifference[] = [];
+  const compareText = (path: string, expectedValue: string, actualValue: string | null) => {
+    if (expectedValue.trim().toLowerCase() !== (actualValue ?? "").trim().toLowerCase()) {
+      differences.push({ path, expected: expectedValue, actual: actualValue });
+    }
+  };
+  const compareAmount = (path: string, expectedValue: number, actualValue: number | null, optional = false) => {
+    if (actualValue === null ? !optional : Math.abs(expectedValue - actualValue) > AMOUNT_TOLERANCE) {
+      differences.push({ path, expected: roundAmount(expectedValue), actual: actualValue });
+    }
+  };
+
+  compareText("customerName", expected.customerName, actual.customerName);
+
+  const count = Math.max(expected.orderedArticles.length, actual.lineItems.length);
+  for (let i = 0; i < count; i++) {
+    const article = expected.orderedArticles[i];
+    const item = actual.lineItems[i];
+    const path = `orderedArticles[${i}]`;
+    if (!article || !item) {
+      differences.push({
+        path,
+        expected: article ? article.articleName : null,
+        actual: item ? item.articleName ?? "(unnamed line item)" : null,
+      });
+      continue;
+    }
+    compareText(`${path}.articleName`, article.articleName, item.articleName);
+    compareAmount(`${path}.quantity`, article.quantity, item.quantity);
+    compareAmount(`${path}.pricePerUnit`, article.pricePerUnit, item.pricePerUnit);
+    compareAmount(`${path}.lineTotal`, article.quantity * article.pricePerUnit, item.lineTotal, true);
+  }
+
+  const total = expected.orderedArticles.reduce((sum, article) => sum + article.quantity * article.pricePerUnit, 0);
+  compareAmount("orderTotal", total, actual.orderTotal, true);
+
+  return { matches: differences.length === 0, differences };
+}
+
+const showValue = (value: string | number | null) => value === null ? "nothing" : JSON.stringify(value);
+
+const describeDifference = (difference: OrderDifference) =>
+  `expected ${showValue(difference.expected)}, ERP shows ${showValue(difference.actual)}`;
+
+/**
+ * One line per difference, e.g. '  orderedArticles[0].quantity: expected 2, ERP shows 20'
+ */
+export function formatOrderDiff(diff: OrderDiff): string {
+  return diff.differences.map(d => `  ${d.path}: ${describeDifference(d)}`).join("\n");
+}
+
+/**
+ * The differences in the format of the review queue
+ */
+export function toReviewErrors(diff: OrderDiff): OrderValidationError[] {
+  return diff.differences.map(d => ({ path: d.path, message: describeDifference(d), value: d.actual }));
+}
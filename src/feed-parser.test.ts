@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFeed, feedXmlFromPageText } from './feed-parser';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, "..", "fixtures", name), "utf8");
+
+test("RSS 2.0 entries", () => {
+  assert.deepEqual(parseFeed(readFixture("advisories.rss.xml"), "https://vendor.example/feed"), [
+    {
+      feed: "Vendor Advisories",
+      title: "CVE-2026-1234 in WidgetServer & friends",
+      text: "Remote code execution in WidgetServer 2.x",
+      timestamp: "2025-04-29T08:30:00.000Z",
+      url: "https://vendor.example/adv/1",
+    },
+    {
+      feed: "Vendor Advisories",
+      title: "Patch release 2.4.1",
+      text: "Fixes session handling – update now",
+      timestamp: "2025-04-20T10:00:00.000Z",
+      url: "https://vendor.example/adv/2",
+    },
+    {
+      feed: "Vendor Advisories",
+      title: "Maintenance window",
+      text: "",
+      timestamp: null,
+      url: "https://vendor.example/feed",
+    },
+  ]);
+});
+
+test("Atom entries", () => {
+  assert.deepEqual(parseFeed(readFixture("releases.atom.xml"), "https://acme.example/feed.atom"), [
+    {
+      feed: "Competitor Releases",
+      title: "Acme 5.0 released",
+      text: "Acme ships agents in 5.0",
+      timestamp: "2025-04-30T09:00:00.000Z",
+      url: "https://acme.example/blog/5",
+    },
+    {
+      feed: "Competitor Releases",
+      title: "No date entry",
+      text: "",
+      timestamp: null,
+      url: "https://acme.example/feed.atom",
+    },
+  ]);
+});
+
+test("a feed shown as XML tree in Chrome", () => {
+  const xml = readFixture("advisories.rss.xml").replace(/^<\?xml[^>]*>\s*/, "");
+  const pageText = `This XML file does not appear to have any style information associated with it. The document tree is shown below.\n${xml}`;
+  assert.equal(feedXmlFromPageText(pageText), xml);
+  assert.equal(parseFeed(feedXmlFromPageText(pageText)!, "https://vendor.example/feed").length, 3);
+  assert.equal(feedXmlFromPageText("Example Domain\nThis domain is for use in examples."), null);
+});
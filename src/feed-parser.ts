@@ -0,0 +1,102 @@
+/**
+ * An entry of an RSS or Atom feed
+ */
+export interface FeedEntry {
+  /** Title of the feed, e.g. "GitHub Security Advisories" */
+  feed: string;
+  title: string;
+  /** Description or summary of the entry as plain text, may be empty */
+  text: string;
+  /** ISO timestamp of the entry (published, updated or pubDate), null if it has none */
+  timestamp: string | null;
+  url: string;
+}
+
+const entities: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return entities[name.toLowerCase()] ?? match;
+  });
+}
+
+// Text content of an element: CDATA unwrapped, entities decoded, HTML markup of descriptions removed
+function elementText(content: string): string {
+  const markup = /<[^>]*>/g;
+  const text = content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1").replace(markup, " ");
+  // Descriptions often contain escaped HTML, which is only markup after decoding
+  return decodeEntities(text).replace(markup, " ").replace(/\s+/g, " ").trim();
+}
+
+// Content of the first element with one of the tag names, e.g. "title" or "dc:date"
+function childContent(xml: string, ...tagNames: string[]): string | undefined {
+  for (const tagName of tagNames) {
+    const match = new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`, "i").exec(xml);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Link of an Atom entry: the alternate link, or the first one
+function atomLink(xml: string): string | undefined {
+  const links = xml.match(/<link\b[^>]*>/gi) ?? [];
+  const attribute = (tag: string, name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(tag)?.[1];
+  const link = links.find(tag => (attribute(tag, "rel") ?? "alternate") === "alternate") ?? links[0];
+  return link ? attribute(link, "href") : undefined;
+}
+
+function toTimestamp(value: string | undefined): string | null {
+  const time = value ? Date.parse(elementText(value)) : NaN;
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+/**
+ * Chrome shows a feed as XML tree, with a note above it; return the XML part of the page text, or null if the page is no feed
+ */
+export function feedXmlFromPageText(pageText: string): string | null {
+  const start = pageText.search(/<(?:rss|feed|rdf:RDF)[\s>]/);
+  return start === -1 ? null : pageText.slice(start);
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom feed. Entries keep the order of the feed (usually newest first);
+ * feedUrl is used for entries without a link and as title of feeds without one.
+ * Only the elements needed for news are read, this is no general XML parser.
+ */
+export function parseFeed(xml: string, feedUrl: string): FeedEntry[] {
+  const isAtom = /<feed[\s>]/.test(xml) && !/<(?:rss|rdf:RDF)[\s>]/.test(xml);
+  const entryTag = isAtom ? "entry" : "item";
+  const entryPattern = new RegExp(`<${entryTag}(?:\\s[^>]*)?>([\\s\\S]*?)</${entryTag}>`, "gi");
+
+  // The title of the feed comes before the first entry
+  const firstEntry = xml.search(new RegExp(`<${entryTag}[\\s>]`, "i"));
+  const head = firstEntry === -1 ? xml : xml.slice(0, firstEntry);
+  const feedTitle = elementText(childContent(head, "title") ?? "") || feedUrl;
+
+  const feedEntries: FeedEntry[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(xml))) {
+    const entry = match[1];
+    const title = elementText(childContent(entry, "title") ?? "");
+    const text = elementText(childContent(entry, ...(isAtom ? ["summary", "content"] : ["description", "content:encoded"])) ?? "");
+    const link = isAtom ? atomLink(entry) : elementText(childContent(entry, "link") ?? "") || undefined;
+    const guid = elementText(childContent(entry, isAtom ? "id" : "guid") ?? "");
+    if (!title && !text) {
+      continue;
+    }
+    feedEntries.push({
+      feed: feedTitle,
+      title,
+      text: text === title ? "" : text,
+      timestamp: toTimestamp(isAtom ? childContent(entry, "published", "updated") : childContent(entry, "pubDate", "dc:date")),
+      url: link ?? (/^https?:\/\//.test(guid) ? guid : feedUrl),
+    });
+  }
+  return feedEntries;
+}
@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { fetchImapMessages, ImapOptions } from './imap-client';
+
+const messages: Record<number, string> = {
+  3: "Subject: Order 1\r\n\r\nTwo mice, please.\r\n",
+  7: "Subject: Order 2\r\n\r\nPrix: 12,50 € pour Zoë\r\n",
+  9: "Subject: Order 3\r\n\r\nOne cable.\r\n",
+};
+
+interface StandIn {
+  options: ImapOptions;
+  /** Commands received, literals appended after the line, e.g. 'A3 UID SEARCH CHARSET UTF-8 SUBJECT {4} Zoë' */
+  commands: string[];
+  /** Resolves when the client closed its connection */
+  closed: Promise<void>;
+  close(): void;
+}
+
+// IMAP stand-in for one connection: greets with greeting, accepts the password "secret" and finds every message
+function startStandIn(greeting = "* OK IMAP4rev1 ready"): Promise<StandIn> {
+  const commands: string[] = [];
+  let clientClosed: () => void;
+  const closed = new Promise<void>(resolve => { clientClosed = resolve; });
+  const server = net.createServer(socket => {
+    socket.write(`${greeting}\r\n`);
+    let buffer = Buffer.alloc(0);
+    // A command line that announced a literal of this many bytes
+    let literal: { line: string; size: number } | null = null;
+    const answer = (line: string) => {
+      commands.push(line);
+      const [tag, ...words] = line.split(" ");
+      const command = words.join(" ");
+      if (command.startsWith("LOGIN")) {
+        socket.write(command.endsWith('"secret"') ? `${tag} OK LOGIN completed\r\n` : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+      } else if (command.startsWith("UID SEARCH")) {
+        socket.write(`* SEARCH 9 3 7\r\n${tag} OK SEARCH completed\r\n`);
+      } else if (command.startsWith("UID FETCH")) {
+        const uid = Number(words[2]);
+        const raw = Buffer.from(messages[uid], "utf8");
+        socket.write(Buffer.concat([Buffer.from(`* 1 FETCH (UID ${uid} BODY[] {${raw.length}}\r\n`), raw, Buffer.from(`)\r\n${tag} OK FETCH completed\r\n`)]));
+      } else if (command === "LOGOUT") {
+        socket.write(`* BYE logging out\r\n${tag} OK LOGOUT completed\r\n`);
+      } else {
+        socket.write(`${tag} OK ${words[0]} completed\r\n`);
+      }
+    };
+    socket.on("data", chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        if (literal) {
+          if (buffer.length < literal.size + 2) {
+            return;
+          }
+          const line = `${literal.line} ${buffer.toString("utf8", 0, literal.size)}`;
+          buffer = buffer.subarray(literal.size + 2);
+          literal = null;
+          answer(line);
+          continue;
+        }
+        const end = buffer.indexOf("\r\n");
+        if (end === -1) {
+          return;
+        }
+        const line = buffer.toString("utf8", 0, end);
+        buffer = buffer.subarray(end + 2);
+        const size = /\{(\d+)\}$/.exec(line);
+        if (size) {
+          literal = { line, size: Number(size[1]) };
+          socket.write("+ Ready for literal data\r\n");
+        } else {
+          answer(line);
+        }
+      }
+    });
+    socket.on("close", () => clientClosed());
+    socket.on("error", () => { /* the client may reset the connection */ });
+  });
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve({
+    options: { host: "127.0.0.1", port: (server.address() as AddressInfo).port, secure: false, user: "orders@example.com", password: "secret" },
+    commands,
+    closed,
+    close: () => server.close(),
+  })));
+}
+
+test("the newest messages with the subject are fetched, oldest first", async () => {
+  const standIn = await startStandIn();
+  try {
+    const fetched = await fetchImapMessages(standIn.options, "Order", 2);
+    assert.deepEqual(fetched, [{ uid: 7, raw: messages[7] }, { uid: 9, raw: messages[9] }]);
+    assert.deepEqual(standIn.commands, [
+      'A1 LOGIN "orders@example.com" "secret"',
+      'A2 SELECT "INBOX"',
+      'A3 UID SEARCH SUBJECT "Order"',
+      "A4 UID FETCH 7 BODY.PEEK[]",
+      "A5 UID FETCH 9 BODY.PEEK[]",
+      "A6 LOGOUT",
+    ]);
+    await standIn.closed;
+  } finally {
+    standIn.close();
+  }
+});
+
+test("a subject with other than ASCII characters is searched as a UTF-8 literal", async () => {
+  const standIn = await startStandIn();
+  try {
+    const fetched = await fetchImapMessages({ ...standIn.options, mailbox: "Orders \"2025\"" }, "Zoë", 1);
+    assert.equal(fetched[0].raw, messages[9]);
+    assert.equal(standIn.commands[1], 'A2 SELECT "Orders \\"2025\\""');
+    // "Zoë" has 3 characters and 4 bytes
+    assert.equal(standIn.commands[2], "A3 UID SEARCH CHARSET UTF-8 SUBJECT {4} Zoë");
+  } finally {
+    standIn.close();
+  }
+});
+
+test("a failed login closes the connection", async () => {
+  const standIn = await startStandIn();
+  try {
+    await assert.rejects(fetchImapMessages({ ...standIn.options, password: "wrong" }, "Order"),
+      /IMAP command failed: NO \[AUTHENTICATIONFAILED\] Invalid credentials/);
+    await standIn.closed;
+    assert.equal(standIn.commands.length, 1);
+  } finally {
+    standIn.close();
+  }
+});
+
+test("a rejected greeting closes the connection", async () => {
+  const standIn = await startStandIn("* BYE too many connections");
+  try {
+    await assert.rejects(fetchImapMessages(standIn.options, "Order"), /IMAP server rejected the connection: \* BYE too many connections/);
+    await standIn.closed;
+    assert.deepEqual(standIn.commands, []);
+  } finally {
+    standIn.close();
+  }
+});
@@ -0,0 +1,207 @@
+import * as net from 'net';
+import * as tls from 'tls';
+
+/**
+ * Connection settings for an IMAP mailbox
+ */
+export interface ImapOptions {
+  host: string;
+  /** Defaults to 993 with TLS and 143 without */
+  port?: number;
+  /** Use an implicit TLS connection (default: true). Disable only for local test servers. */
+  secure?: boolean;
+  user: string;
+  password: string;
+  /** Mailbox to search in (default: "INBOX") */
+  mailbox?: string;
+}
+
+/**
+ * A raw message fetched from an IMAP mailbox
+ */
+export interface ImapMessage {
+  uid: number;
+  /** Full RFC 822 source of the message */
+  raw: string;
+}
+
+// An untagged ("* ...") response line; literals ({n} blocks) are collected separately
+interface ImapUntaggedResponse {
+  line: string;
+  literals: string[];
+}
+
+interface ImapCommandResult {
+  untagged: ImapUntaggedResponse[];
+}
+
+interface PendingCommand {
+  tag: string;
+  untagged: ImapUntaggedResponse[];
+  /** Sent after the server's "+" continuation request */
+  literal?: Buffer;
+  resolve: (result: ImapCommandResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Quote a string for use as an IMAP command argument
+ */
+const quote = (value: string): string => `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+
+/**
+ * Minimal IMAP connection that runs one command at a time.
+ * Supports just enough of RFC 3501 to search and fetch messages.
+ */
+async function openImapConnection(options: ImapOptions) {
+  const secure = options.secure ?? true;
+  const port = options.port ?? (secure ? 993 : 143);
+  const socket: net.Socket = secure
+    ? tls.connect({ host: options.host, port, servername: options.host })
+    : net.connect({ host: options.host, port });
+
+  let buffer = Buffer.alloc(0);
+  let pending: PendingCommand | null = null;
+  let tagCounter = 0;
+  let greetingReceived: (() => void) | null = null;
+  let connectionFailed: ((error: Error) => void) | null = null;
+
+  // Read one complete response line (including literals) from the buffer, or null if more data is needed
+  const readResponseLine = (): ImapUntaggedResponse | null => {
+    let offset = 0;
+    let line = "";
+    const literals: string[] = [];
+    for (;;) {
+      const end = buffer.indexOf("\r\n", offset);
+      if (end === -1) {
+        return null;
+      }
+      const text = buffer.toString("utf8", offset, end);
+      const literal = /\{(\d+)\}$/.exec(text);
+      if (!literal) {
+        buffer = buffer.subarray(end + 2);
+        return { line: line + text, literals };
+      }
+      const start = end + 2;
+      const size = parseInt(literal[1], 10);
+      if (buffer.length < start + size) {
+        return null;
+      }
+      literals.push(buffer.toString("utf8", start, start + size));
+      line += text;
+      offset = start + size;
+    }
+  };
+
+  const fail = (error: Error) => {
+    connectionFailed?.(error);
+    connectionFailed = null;
+    pending?.reject(error);
+    pending = null;
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let response: ImapUntaggedResponse | null;
+    while ((response = readResponseLine()) !== null) {
+      if (greetingReceived) {
+        if (response.line.startsWith("* OK") || response.line.startsWith("* PREAUTH")) {
+          greetingReceived();
+        } else {
+          fail(new Error(`IMAP server rejected the connection: ${response.line}`));
+        }
+        greetingReceived = null;
+        connectionFailed = null;
+      } else if (pending?.literal && response.line.startsWith("+")) {
+        socket.write(Buffer.concat([pending.literal, Buffer.from("\r\n")]));
+        pending.literal = undefined;
+      } else if (pending && response.line.startsWith(`${pending.tag} `)) {
+        const command = pending;
+        pending = null;
+        const status = response.line.slice(command.tag.length + 1);
+        if (status.startsWith("OK")) {
+          command.resolve({ untagged: command.untagged });
+        } else {
+          command.reject(new Error(`IMAP command failed: ${status}`));
+        }
+      } else if (pending) {
+        pending.untagged.push(response);
+      }
+    }
+  });
+  socket.on("error", fail);
+  socket.setTimeout(30000, () => socket.destroy(new Error("IMAP connection timed out")));
+  socket.on("close", () => fail(new Error("IMAP connection closed")));
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      greetingReceived = resolve;
+      connectionFailed = reject;
+    });
+  } catch (error) {
+    // E.g. a rejected greeting, the server would keep the connection open
+    socket.removeAllListeners("close");
+    socket.destroy();
+    throw error;
+  }
+
+  return {
+    /** Run a command; a literal is appended as an IMAP literal ({n}), e.g. for non-ASCII search text */
+    command(command: string, literal?: string): Promise<ImapCommandResult> {
+      if (pending) {
+        return Promise.reject(new Error("IMAP connection is busy"));
+      }
+      const tag = `A${++tagCounter}`;
+      return new Promise<ImapCommandResult>((resolve, reject) => {
+        const bytes = literal === undefined ? undefined : Buffer.from(literal, "utf8");
+        pending = { tag, untagged: [], literal: bytes, resolve, reject };
+        socket.write(bytes ? `${tag} ${command} {${bytes.length}}\r\n` : `${tag} ${command}\r\n`);
+      });
+    },
+    close() {
+      socket.removeAllListeners("close");
+      socket.on("error", () => { /* ignore errors while closing */ });
+      socket.end();
+    },
+  };
+}
+
+/**
+ * Fetch the messages whose subject contains searchText, oldest first.
+ * With maxCount, only the newest maxCount messages are fetched.
+ */
+export async function fetchImapMessages(options: ImapOptions, searchText: string, maxCount?: number): Promise<ImapMessage[]> {
+  const connection = await openImapConnection(options);
+  try {
+    await connection.command(`LOGIN ${quote(options.user)} ${quote(options.password)}`);
+    await connection.command(`SELECT ${quote(options.mailbox ?? "INBOX")}`);
+
+    // Quoted strings are 7-bit only, other text is sent as a UTF-8 literal
+    const search = /^[\x20-\x7e]*$/.test(searchText)
+      ? await connection.command(`UID SEARCH SUBJECT ${quote(searchText)}`)
+      : await connection.command("UID SEARCH CHARSET UTF-8 SUBJECT", searchText);
+    const uids: number[] = [];
+    for (const response of search.untagged.filter(r => r.line.startsWith("* SEARCH"))) {
+      for (const uid of response.line.slice("* SEARCH".length).trim().split(/\s+/)) {
+        if (uid.length > 0) {
+          uids.push(parseInt(uid, 10));
+        }
+      }
+    }
+    uids.sort((a, b) => a - b);
+
+    const messages: ImapMessage[] = [];
+    for (const uid of maxCount === undefined ? uids : uids.slice(Math.max(0, uids.length - maxCount))) {
+      const fetch = await connection.command(`UID FETCH ${uid} BODY.PEEK[]`);
+      const response = fetch.untagged.find(r => / FETCH /.test(r.line) && r.literals.length > 0);
+      if (response) {
+        messages.push({ uid, raw: response.literals[0] });
+      }
+    }
+
+    await connection.command("LOGOUT").catch(() => { /* the server may close before answering */ });
+    return messages;
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,146 @@
+import OpenAI from 'openai';
+import { createReplayProvider } from './llm-replay-provider';
+import { LlmConfig } from './config';
+
+/**
+ * The tasks the examples use a language model for; each can use its own model
+ */
+export type LlmTask = "calculator-result" | "news-summary" | "order-extraction" | "erp-element-ids" | "agent-action";
+
+/** All tasks, e.g. for the model settings per task */
+export const LLM_TASKS: LlmTask[] = ["calculator-result", "news-summary", "order-extraction", "erp-element-ids", "agent-action"];
+
+/**
+ * An image sent along with the prompt
+ */
+export interface LlmImage {
+  base64: string;
+  /** Defaults to "image/jpeg" */
+  mimeType?: string;
+}
+
+/**
+ * A single-turn completion request
+ */
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  images?: LlmImage[];
+  /** Ask the model to answer with a JSON object (JSON mode) */
+  json?: boolean;
+}
+
+/**
+ * A language model backend
+ */
+export interface LlmProvider {
+  /** Name used in log output, e.g. "OpenAI" */
+  name: string;
+  /** Run the request and return the text of the answer */
+  complete(request: LlmRequest): Promise<string>;
+}
+
+/**
+ * Settings shared by the OpenAI based providers
+ */
+export interface OpenAiProviderOptions {
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible API, e.g. "http://localhost:11434/v1" for Ollama */
+  baseUrl?: string;
+  /** Model used for tasks without an entry in models */
+  defaultModel?: string;
+  /** Model per task */
+  models?: Partial<Record<LlmTask, string>>;
+}
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+/**
+ * Provider for the OpenAI API or any API that speaks the OpenAI chat completions protocol
+ */
+export function createOpenAiProvider(options: OpenAiProviderOptions): LlmProvider {
+  const openai = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl });
+  const defaultModel = options.defaultModel ?? DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: options.baseUrl ? `OpenAI-compatible API at ${options.baseUrl}` : "OpenAI",
+    async complete(request: LlmRequest) {
+      const content: OpenAI.Chat.ChatCompletionContentPart[] = [{ type: "text", text: request.prompt }];
+      for (const image of request.images ?? []) {
+        content.push({
+          type: "image_url",
+          image_url: { url: `data:${image.mimeType ?? "image/jpeg"};base64,${image.base64}` },
+        });
+      }
+
+      const chatCompletion = await openai.chat.completions.create({
+        model: options.models?.[request.task] ?? defaultModel,
+        response_format: request.json ? { type: "json_object" } : undefined,
+        messages: [
+          {
+            role: "user",
+            // Plain text prompts are sent as a string, some OpenAI-compatible servers only support that
+            content: request.images?.length ? content : request.prompt,
+          },
+        ],
+      });
+      return chatCompletion.choices[0]?.message?.content ?? "";
+    },
+  };
+}
+
+/**
+ * Provider for an OpenAI-compatible server inside the own network, e.g. Ollama or llama.cpp.
+ * Such servers usually need no API key.
+ */
+export function createOpenAiCompatibleProvider(
+  baseUrl: string,
+  options: Omit<OpenAiProviderOptions, "baseUrl" | "apiKey"> & { apiKey?: string } = {}
+): LlmProvider {
+  return createOpenAiProvider({ ...options, apiKey: options.apiKey ?? "not-needed", baseUrl });
+}
+
+/**
+ * Create the provider selected by the config (see loadConfig; environment variables in brackets):
+ * - provider (LLM_PROVIDER): "openai" (default), "openai-compatible", "replay" or "record"
+ * - baseUrl (LLM_BASE_URL): base URL of an OpenAI-compatible server (used by "openai-compatible", optional for "record")
+ * - apiKey (LLM_API_KEY, falls back to OPENAI_API_KEY)
+ * - model and models (LLM_MODEL and LLM_MODEL_<TASK>): default model and model per task
+ * - fixtures (LLM_FIXTURES): fixture file for "replay" and "record"
+ *
+ * "record" answers from the fixture file and asks the real model (and records its answer) on a miss,
+ * so it throws without LLM_BASE_URL or an API key.
+ * Returns null if the selected provider is not configured (e.g. no OpenAI key).
+ */
+export function createLlmProviderFromConfig(config: LlmConfig): LlmProvider | null {
+  const { provider: kind, apiKey, baseUrl, fixtures: fixturesPath } = config;
+  const options = { defaultModel: config.model, models: config.models };
+
+  switch (kind) {
+    case "openai":
+      return apiKey ? createOpenAiProvider({ ...options, apiKey }) : null;
+    case "openai-compatible":
+      if (!baseUrl) {
+        throw new Error("LLM_PROVIDER=openai-compatible requires LLM_BASE_URL, e.g. http://localhost:11434/v1");
+      }
+      return createOpenAiCompatibleProvider(baseUrl, { ...options, apiKey });
+    case "replay":
+    case "record": {
+      if (!fixturesPath) {
+        throw new Error(`LLM_PROVIDER=${kind} requires LLM_FIXTURES, the path of the fixture file`);
+      }
+      if (kind === "replay") {
+        return createReplayProvider(fixturesPath);
+      }
+      if (!baseUrl && !apiKey) {
+        throw new Error("LLM_PROVIDER=record asks the real model on a miss and requires LLM_BASE_URL or an API key (LLM_API_KEY or OPENAI_API_KEY)");
+      }
+      const recordFrom = baseUrl
+        ? createOpenAiCompatibleProvider(baseUrl, { ...options, apiKey })
+        : createOpenAiProvider({ ...options, apiKey: apiKey! });
+      return createReplayProvider(fixturesPath, recordFrom);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}", expected openai, openai-compatible, replay or record`);
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { LlmProvider, LlmRequest } from './llm-provider';
+
+/**
+ * A recorded answer of the model
+ */
+export interface LlmFixture {
+  task: string;
+  /** Hash of the task, prompt, images and JSON mode, see getRequestKey */
+  key: string;
+  /** Beginning of the prompt, to make fixture files readable */
+  promptPreview: string;
+  response: string;
+}
+
+/**
+ * Deterministic key of a request; identical requests replay the same answer
+ */
+export function getRequestKey(request: LlmRequest): string {
+  const hash = crypto.createHash("sha256");
+  hash.update(JSON.stringify([request.task, request.prompt, request.json ?? false]));
+  for (const image of request.images ?? []) {
+    hash.update(image.base64);
+  }
+  return hash.digest("hex");
+}
+
+function readFixtures(fixturesPath: string): LlmFixture[] {
+  return fs.existsSync(fixturesPath) ? JSON.parse(fs.readFileSync(fixturesPath, "utf8")) as LlmFixture[] : [];
+}
+
+/**
+ * Provider that answers from a fixture file instead of calling a model, for tests and offline runs.
+ * Without recordFrom, a request without a fixture fails. With recordFrom, such requests are passed
+ * to that provider and its answer is added to the fixture file.
+ */
+export function createReplayProvider(fixturesPath: string, recordFrom?: LlmProvider): LlmProvider {
+  const fixtures = readFixtures(fixturesPath);
+
+  return {
+    name: recordFrom ? `${recordFrom.name} (recording to ${fixturesPath})` : `replay of ${fixturesPath}`,
+    async complete(request: LlmRequest) {
+      const key = getRequestKey(request);
+      const fixture = fixtures.find(f => f.key === key);
+      if (fixture) {
+        return fixture.response;
+      }
+      if (!recordFrom) {
+        throw new Error(`No fixture for ${request.task} request ${key} in ${fixturesPath}`);
+      }
+
+      const response = await recordFrom.complete(request);
+      fixtures.push({ task: request.task, key, promptPreview: request.prompt.slice(0, 200), response });
+      fs.writeFileSync(fixturesPath, JSON.stringify(fixtures, null, 2));
+      return response;
+    },
+  };
+}
+
+/**
+ * Provider that gives the answers in the given order, whatever the request, for tests of multi-step
+ * flows such as the agent. Fails when it runs out of answers.
+ */
+export function createScriptedProvider(answers: string[]): LlmProvider {
+  let next = 0;
+  return {
+    name: "scripted model",
+    async complete(request: LlmRequest) {
+      if (next >= answers.length) {
+        throw new Error(`The scripted model has no answer left for ${request.task} request #${next + 1}`);
+      }
+      return answers[next++];
+    },
+  };
+}
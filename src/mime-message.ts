@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+
+/**
+ * A parsed email message, reduced to what the examples need
+ */
+export interface MimeMessage {
+  /** Header values by lower-cased header name (the first occurrence wins) */
+  headers: Record<string, string>;
+  /** Readable body text: the text/plain part if present, otherwise the text/html part without tags */
+  text: string;
+}
+
+/**
+ * Split a raw header block into a map of lower-cased names to unfolded values
+ */
+function parseHeaders(headerBlock: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Read a parameter such as boundary or charset from a header value like 'multipart/mixed; boundary="abc"'
+ */
+function getHeaderParameter(headerValue: string | undefined, parameter: string): string | undefined {
+  const match = new RegExp(`;\\s*${parameter}\\s*=\\s*(?:"([^"]*)"|([^;\\s]*))`, "i").exec(headerValue ?? "");
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function toBufferEncoding(charset: string | undefined): BufferEncoding {
+  const normalized = (charset ?? "utf-8").toLowerCase();
+  return normalized === "iso-8859-1" || normalized === "latin1" || normalized === "us-ascii" || normalized === "windows-1252"
+    ? "latin1"
+    : "utf8";
+}
+
+function decodeQuotedPrintable(value: string): Buffer {
+  const softBreaksRemoved = value.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < softBreaksRemoved.length; i++) {
+    const hex = softBreaksRemoved.slice(i + 1, i + 3);
+    if (softBreaksRemoved[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(softBreaksRemoved[i], "utf8"));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode a body according to its Content-Transfer-Encoding and charset
+ */
+function decodeBody(body: string, transferEncoding: string | undefined, charset: string | undefined): string {
+  const encoding = toBufferEncoding(charset);
+  switch ((transferEncoding ?? "").toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64").toString(encoding);
+    case "quoted-printable":
+      return decodeQuotedPrintable(body).toString(encoding);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words in header values, e.g. "=?UTF-8?B?T3JkZXI=?="
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, type: string, text: string) => {
+      const bytes = type.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return bytes.toString(toBufferEncoding(charset));
+    });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Collect the text/plain and text/html bodies of a (possibly multipart) entity
+ */
+function collectBodies(headers: Record<string, string>, body: string, bodies: { plain?: string; html?: string }) {
+  const contentType = headers["content-type"] ?? "text/plain";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = getHeaderParameter(contentType, "boundary");
+    if (!boundary) {
+      return;
+    }
+    const parts = body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith("--")) {
+        break; // closing boundary
+      }
+      const entity = splitHeaderAndBody(part.replace(/^\r?\n/, ""));
+      collectBodies(parseHeaders(entity.headerBlock), entity.body, bodies);
+    }
+    return;
+  }
+
+  if ((headers["content-disposition"] ?? "").toLowerCase().startsWith("attachment")) {
+    return;
+  }
+
+  const decoded = decodeBody(body, headers["content-transfer-encoding"], getHeaderParameter(contentType, "charset"));
+  if (mimeType === "text/plain" && bodies.plain === undefined) {
+    bodies.plain = decoded.trim();
+  } else if (mimeType === "text/html" && bodies.html === undefined) {
+    bodies.html = htmlToText(decoded);
+  }
+}
+
+function splitHeaderAndBody(raw: string): { headerBlock: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) {
+    return { headerBlock: raw, body: "" };
+  }
+  return { headerBlock: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+/**
+ * Parse a raw RFC 822 message (the content of an .eml file)
+ */
+export function parseMimeMessage(raw: string): MimeMessage {
+  const { headerBlock, body } = splitHeaderAndBody(raw);
+  const headers = parseHeaders(headerBlock);
+  for (const name of Object.keys(headers)) {
+    headers[name] = decodeHeaderValue(headers[name]);
+  }
+
+  const bodies: { plain?: string; html?: string } = {};
+  collectBodies(headers, body, bodies);
+
+  return { headers, text: bodies.plain ?? bodies.html ?? "" };
+}
+
+/**
+ * Split the content of an mbox file into raw messages ("From " separator lines are removed, ">From " is unescaped)
+ */
+export function splitMbox(raw: string): string[] {
+  return raw
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim().length > 0)
+    .map(message => message.replace(/^>(>*From )/gm, "$1"));
+}
+
+/**
+ * Read all messages from an .eml file or an mbox file
+ */
+export function readMessagesFromFile(filePath: string): MimeMessage[] {
+  const raw = fs.readFileSync(filePath, "utf8");
+  const rawMessages = raw.startsWith("From ") ? splitMbox(raw) : [raw];
+  return rawMessages.map(parseMimeMessage);
+}
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NewsSummary } from './news-profiles';
+
+/**
+ * A check of the watch mode, one line of the history file
+ */
+export interface NewsHistoryEntry {
+  /** ISO timestamp of the check */
+  checkedAt: string;
+  /** Name of the news profile that was checked */
+  profile: string;
+  /** The sources of the profile, e.g. "@kimmonismus" or the URL of a feed */
+  sources: string[];
+  /** Number of tweets and feed entries that were not summarized before */
+  newItems?: number;
+  summary?: NewsSummary;
+  /** Why the check failed */
+  error?: string;
+  /**
+   * For summaries at or above the threshold: the alert was sent, could not be delivered to any sink,
+   * or was not sent because the same story was alerted before
+   */
+  alert?: "sent" | "failed" | "duplicate";
+  /** checkedAt of the earlier alert of the same story */
+  duplicateOf?: string;
+}
+
+/**
+ * Append-only history of the news checks, used to find stories that were already alerted
+ */
+export interface NewsHistory {
+  /** All checks, oldest first */
+  entries(): NewsHistoryEntry[];
+  /** Append the check and write it to the history file immediately */
+  add(entry: NewsHistoryEntry): void;
+  /** The latest alert of the profile since sinceMs (epoch milliseconds) about the same story as summary, if any */
+  findAlertedStory(profile: string, summary: NewsSummary, sinceMs: number): NewsHistoryEntry | undefined;
+}
+
+/** Default location of the history file, relative to the working directory */
+export const DEFAULT_NEWS_HISTORY_PATH = "news-history.jsonl";
+
+/** Similarity (0..1) from which two summaries count as the same story */
+export const DUPLICATE_STORY_SIMILARITY = 0.5;
+
+// Words that carry the topic; short words ("the", "new", "AI") are the same in every summary
+const topicWords = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/\w+(?:[.-]\w+)*/g) ?? []).filter(word => word.length >= 4));
+
+/**
+ * How similar two summaries are: the highest word overlap of any pair of their bullet points, as the share
+ * of the words of the shorter one. The language model words the same story differently on every check,
+ * so exact comparisons do not work.
+ */
+export function storySimilarity(a: string[], b: string[]): number {
+  let best = 0;
+  for (const first of a.map(topicWords)) {
+    for (const second of b.map(topicWords)) {
+      const shared = Array.from(first).filter(word => second.has(word)).length;
+      const shorter = Math.min(first.size, second.size);
+      best = Math.max(best, shorter === 0 ? 0 : shared / shorter);
+    }
+  }
+  return best;
+}
+
+/**
+ * Load the history from filePath (a missing file is an empty history)
+ */
+export function openNewsHistory(filePath: string = DEFAULT_NEWS_HISTORY_PATH): NewsHistory {
+  const entries: NewsHistoryEntry[] = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, "utf8")
+      .split("\n")
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as NewsHistoryEntry)
+    : [];
+
+  return {
+    entries: () => entries.slice(),
+    add(entry) {
+      entries.push(entry);
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+    },
+    findAlertedStory(profile, summary, sinceMs) {
+      return entries
+        .filter(entry => entry.profile === profile && entry.alert === "sent" && entry.summary && Date.parse(entry.checkedAt) >= sinceMs)
+        .reverse()
+        .find(entry => storySimilarity(entry.summary!.summaryBulletPoints, summary.summaryBulletPoints) >= DUPLICATE_STORY_SIMILARITY);
+    },
+  };
+}
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { JsonSchema, StructuredOutput, defineStructuredOutput, validateJsonSchema } from './structured-output';
+
+/**
+ * Where a profile reads its news from: the profile of a Twitter/X account, an RSS or Atom feed
+ * opened in Chrome, or a feed file on disk
+ */
+export type NewsSource = { twitter: string } | { feed: string } | { file: string };
+
+/**
+ * A named set of news sources with the prompt that summarizes them and the alert threshold
+ */
+export interface NewsProfile {
+  name: string;
+  /** Shown in alerts, e.g. "Security advisories" (default: the name) */
+  title: string;
+  sources: NewsSource[];
+  /**
+   * Instructions for the language model. {{items}} is replaced with the new tweets and feed entries,
+   * {{format}} with the expected JSON answer; without {{format}} it is added at the end.
+   */
+  prompt: string;
+  /**
+   * Object schema of the fields the answer has in addition to summaryBulletPoints and
+   * breakingNewsProbabilityInPercent, e.g. the affected products of a security advisory
+   */
+  outputSchema?: JsonSchema;
+  /** Breaking news probability that raises an alert in watch mode (default: DEFAULT_ALERT_THRESHOLD_PERCENT) */
+  thresholdInPercent?: number;
+  /** Only news of the last hours are read (default: DEFAULT_TWEET_LOOKBACK_HOURS) */
+  lookbackHours?: number;
+}
+
+/**
+ * The answer of the language model about the news of a profile
+ */
+export interface NewsSummary {
+  summaryBulletPoints: string[];
+  breakingNewsProbabilityInPercent: number;
+  /** Fields of the outputSchema of the profile */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A problem found by validateNewsProfiles, e.g. { path: "profiles.security.sources[0]", message: "..." }
+ */
+export interface NewsProfileValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when the profiles file cannot be loaded or the profile does not exist
+ */
+export class NewsProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NewsProfileError";
+  }
+}
+
+/** Accounts that are typically very up-to-date on AI news */
+export const DEFAULT_TWITTER_ACCOUNTS = ["kimmonismus", "ai_for_success", "slow_developer"];
+
+/** The profile of the original example: AI news from Twitter/X accounts */
+export const DEFAULT_NEWS_PROFILE: NewsProfile = {
+  name: "ai-news",
+  title: "AI news",
+  sources: DEFAULT_TWITTER_ACCOUNTS.map(account => ({ twitter: account })),
+  prompt: `These are the latest tweets of some twitter accounts that are typically very up-to-date on AI news. Give me a summary on the concrete topics they write about (3 bullet points, one short sentence, each) and a rating 0-100 if you have the impression that actual very big breaking news has just occurred within the last hour.
+<tweets>{{items}}</tweets>
+{{format}}`,
+};
+
+/** Profiles file that is read if it exists, relative to the working directory */
+export const DEFAULT_NEWS_PROFILES_PATH = "news-profiles.yaml";
+
+// Fields every answer has, they cannot be redefined by an output schema
+const summaryFields = ["summaryBulletPoints", "breakingNewsProbabilityInPercent"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * How a source is shown in log output, history and alerts, e.g. "@kimmonismus"
+ */
+export function sourceLabel(source: NewsSource): string {
+  return "twitter" in source ? `@${source.twitter}` : "feed" in source ? source.feed : source.file;
+}
+
+function validateSource(source: unknown, path: string, errors: NewsProfileValidationError[]) {
+  const keys = isRecord(source) ? Object.keys(source) : [];
+  if (!isRecord(source) || keys.length !== 1 || !["twitter", "feed", "file"].includes(keys[0])) {
+    errors.push({ path, message: "must have exactly one of twitter, feed or file" });
+  } else if (typeof source[keys[0]] !== "string" || !(source[keys[0]] as string).trim()) {
+    errors.push({ path: `${path}.${keys[0]}`, message: "must be a non-empty string" });
+  } else if (keys[0] === "twitter" && !/^@?\w{1,15}$/.test(source.twitter as string)) {
+    errors.push({ path: `${path}.twitter`, message: "must be an account handle, e.g. kimmonismus" });
+  } else if (keys[0] === "feed" && !/^https?:\/\//.test(source.feed as string)) {
+    errors.push({ path: `${path}.feed`, message: "must be an http or https URL" });
+  }
+}
+
+function validateProfile(name: string, raw: unknown, path: string, errors: NewsProfileValidationError[]): NewsProfile | null {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: "must be an object with sources and prompt" });
+    return null;
+  }
+  const { title, sources, prompt, outputSchema, thresholdInPercent, lookbackHours, ...rest } = raw;
+  const errorCount = errors.length;
+
+  if (title !== undefined && typeof title !== "string") {
+    errors.push({ path: `${path}.title`, message: "must be a string" });
+  }
+  if (!Array.isArray(sources) || sources.length === 0) {
+    errors.push({ path: `${path}.sources`, message: "must be a non-empty list of sources" });
+  } else {
+    sources.forEach((source, index) => validateSource(source, `${path}.sources[${index}]`, errors));
+  }
+  if (typeof prompt !== "string" || !prompt.includes("{{items}}")) {
+    errors.push({ path: `${path}.prompt`, message: "must be a text containing {{items}}" });
+  }
+  if (outputSchema !== undefined) {
+    if (!isRecord(outputSchema) || outputSchema.type !== "object") {
+      errors.push({ path: `${path}.outputSchema`, message: "must be a schema of type object" });
+    } else {
+      errors.push(...validateJsonSchema(outputSchema, `${path}.outputSchema`));
+      for (const field of summaryFields.filter(field => isRecord(outputSchema.properties) && field in outputSchema.properties)) {
+        errors.push({ path: `${path}.outputSchema.properties.${field}`, message: "is part of every answer and cannot be redefined" });
+      }
+    }
+  }
+  if (thresholdInPercent !== undefined && !(typeof thresholdInPercent === "number" && thresholdInPercent >= 0 && thresholdInPercent <= 100)) {
+    errors.push({ path: `${path}.thresholdInPercent`, message: "must be a percentage from 0 to 100" });
+  }
+  if (lookbackHours !== undefined && !(typeof lookbackHours === "number" && lookbackHours > 0)) {
+    errors.push({ path: `${path}.lookbackHours`, message: "must be a positive number" });
+  }
+  for (const key of Object.keys(rest)) {
+    errors.push({ path: `${path}.${key}`, message: "unknown key, expected title, sources, prompt, outputSchema, thresholdInPercent and lookbackHours" });
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+  return {
+    name,
+    title: (title as string | undefined) ?? name,
+    // Handles may be written with "@"
+    sources: (sources as NewsSource[]).map(source => "twitter" in source ? { twitter: source.twitter.replace(/^@/, "") } : source),
+    prompt: prompt as string,
+    outputSchema: outputSchema as JsonSchema | undefined,
+    thresholdInPercent: thresholdInPercent as number | undefined,
+    lookbackHours: lookbackHours as number | undefined,
+  };
+}
+
+/**
+ * Check a parsed profiles file ({ profiles: { <name>: <profile> } }). Returns all problems, not only the first.
+ */
+export function validateNewsProfiles(raw: unknown): { profiles: NewsProfile[] | null; errors: NewsProfileValidationError[] } {
+  if (!isRecord(raw) || !isRecord(raw.profiles)) {
+    return { profiles: null, errors: [{ path: "profiles", message: "must be a map of profile names to profiles" }] };
+  }
+  const errors: NewsProfileValidationError[] = [];
+  for (const key of Object.keys(raw).filter(key => key !== "profiles")) {
+    errors.push({ path: key, message: "unknown key, expected profiles" });
+  }
+  const profiles = Object.entries(raw.profiles)
+    .map(([name, profile]) => validateProfile(name, profile, `profiles.${name}`, errors));
+  return { profiles: errors.length === 0 ? profiles as NewsProfile[] : null, errors };
+}
+
+/**
+ * Load and validate a profiles file (.yaml, .yml or .json); throws a NewsProfileError listing all problems
+ */
+export function loadNewsProfiles(filePath: string): NewsProfile[] {
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, one parser reads both
+    raw = parseYaml(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new NewsProfileError(`Could not read news profiles file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  const { profiles, errors } = validateNewsProfiles(raw);
+  if (!profiles) {
+    throw new NewsProfileError(`Invalid news profiles file ${filePath}:\n${errors.map(e => `  ${e.path}: ${e.message}`).join("\n")}`);
+  }
+  return profiles;
+}
+
+/**
+ * Find a profile by name in the profiles file or the built-in ones (DEFAULT_NEWS_PROFILE). The file is
+ * DEFAULT_NEWS_PROFILES_PATH if it exists; its profiles replace built-in ones of the same name.
+ */
+export function findNewsProfile(name: string, profilesPath?: string): NewsProfile {
+  const filePath = profilesPath ?? (fs.existsSync(DEFAULT_NEWS_PROFILES_PATH) ? DEFAULT_NEWS_PROFILES_PATH : undefined);
+  const profiles = [...(filePath ? loadNewsProfiles(filePath) : []), DEFAULT_NEWS_PROFILE];
+  const profile = profiles.find(p => p.name === name);
+  if (!profile) {
+    const names = profiles.map(p => p.name).filter((n, index, all) => all.indexOf(n) === index);
+    throw new NewsProfileError(`Unknown news profile "${name}", available: ${names.join(", ")}`);
+  }
+  return profile;
+}
+
+/**
+ * The prompt of the profile for the formatted news items; {{format}} is left for completeStructured
+ */
+export function buildNewsPrompt(profile: NewsProfile, itemsText: string): string {
+  return profile.prompt.split("{{items}}").join(itemsText);
+}
+
+/**
+ * The answer the language model is asked for: the summary, the probability and the fields of the output schema of the profile
+ */
+export function newsSummaryOutput(profile: NewsProfile): StructuredOutput<NewsSummary> {
+  const detailFields = Object.keys(profile.outputSchema?.properties ?? {});
+  return defineStructuredOutput<NewsSummary>("news summary", {
+    type: "object",
+    properties: {
+      summaryBulletPoints: { type: "array", items: { type: "string" }, examples: [["bullet point 1", "bullet point 2", "bullet point 3"]] },
+      breakingNewsProbabilityInPercent: { type: "number", examples: [50] },
+      ...profile.outputSchema?.properties,
+    },
+    required: [...summaryFields, ...(profile.outputSchema?.required ?? detailFields)],
+  }, value => {
+    const answer = value as NewsSummary & Record<string, unknown>;
+    const summary: NewsSummary = {
+      summaryBulletPoints: answer.summaryBulletPoints,
+      breakingNewsProbabilityInPercent: answer.breakingNewsProbabilityInPercent,
+    };
+    if (profile.outputSchema) {
+      summary.details = Object.fromEntries(detailFields.filter(name => answer[name] !== undefined).map(name => [name, answer[name]]));
+    }
+    return summary;
+  });
+}
@@ -0,0 +1,449 @@
+import * as http from 'http';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import * as readline from 'readline';
+import { Order, OrderedArticle } from './order';
+import { OrderEmail } from './order-email-sources';
+import { EmailCapture, formatCapture } from './email-capture';
+import { validateOrder, formatValidationErrors, parseLooseNumber, OrderRules, OrderValidationError, DEFAULT_ORDER_RULES } from './order-validation';
+import { escapeHtml } from './run-log';
+
+/**
+ * When an order is shown to a reviewer before it is entered into the ERP
+ */
+export interface ApprovalRules {
+  /** Orders with a total above this value are reviewed (default: DEFAULT_APPROVAL_ABOVE_TOTAL) */
+  aboveTotal?: number;
+  /** Emails read with a confidence below this value are reviewed, see EmailCapture (default: DEFAULT_APPROVAL_BELOW_CONFIDENCE) */
+  belowConfidence?: number;
+}
+
+/**
+ * An order waiting for a decision of the reviewer
+ */
+export interface ApprovalRequest {
+  /** Subject or id of the email, as in the order summary */
+  label: string;
+  email: OrderEmail;
+  order: Order;
+  /** Why the order needs a review, see approvalReasons */
+  reasons: string[];
+  /** Problems of the order as the reviewer entered it last time, to be corrected */
+  errors?: OrderValidationError[];
+}
+
+/**
+ * The decision of the reviewer
+ */
+export interface ApprovalDecision {
+  /** Reviewers approve or reject; approveOrder tells approved and edited orders apart */
+  decision: "approved" | "edited" | "rejected";
+  /** The order to enter, for approved and edited orders */
+  order?: Order;
+  /** User name of the reviewer */
+  reviewer: string;
+  comment?: string;
+}
+
+/**
+ * Shows orders to a human and returns the decisions
+ */
+export interface OrderReviewer {
+  /** Where the review takes place, e.g. "terminal"; recorded in the audit log */
+  name: string;
+  review(request: ApprovalRequest): Promise<ApprovalDecision>;
+  /** Release the terminal or stop the web server */
+  close(): void;
+}
+
+/**
+ * Thrown when the reviewer cannot answer any more, e.g. because the terminal input was closed
+ */
+export class ReviewAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewAbortedError";
+  }
+}
+
+export const DEFAULT_APPROVAL_ABOVE_TOTAL = 1000;
+export const DEFAULT_APPROVAL_BELOW_CONFIDENCE = 0.7;
+
+/** Port of the review page of createWebReviewer */
+export const DEFAULT_APPROVAL_PORT = 8765;
+
+const formatAmount = (value: number) => Number.isFinite(value) ? value.toFixed(2) : String(value);
+
+function userName(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Sum of quantity * price of all articles
+ */
+export function orderTotal(order: Order): number {
+  return order.orderedArticles.reduce((sum, article) => sum + article.quantity * article.pricePerUnit, 0);
+}
+
+/**
+ * Why the order needs a review, e.g. "order total 1200.00 is above 1000"; empty if it can be entered without one
+ */
+export function approvalReasons(order: Order, capture: EmailCapture | undefined, rules: ApprovalRules): string[] {
+  const aboveTotal = rules.aboveTotal ?? DEFAULT_APPROVAL_ABOVE_TOTAL;
+  const belowConfidence = rules.belowConfidence ?? DEFAULT_APPROVAL_BELOW_CONFIDENCE;
+  const reasons: string[] = [];
+  const total = orderTotal(order);
+  if (total > aboveTotal) {
+    reasons.push(`order total ${formatAmount(total)} is above ${aboveTotal}`);
+  }
+  if (capture && capture.confidence < belowConfidence) {
+    reasons.push(`email read via ${capture.strategy} with confidence ${capture.confidence}, below ${belowConfidence}`);
+  }
+  return reasons;
+}
+
+/**
+ * The fields the reviewer changed, e.g. "orderedArticles[0].quantity: 5 -> 50"
+ */
+export function describeOrderChanges(before: Order, after: Order): string[] {
+  const changes: string[] = [];
+  const compare = (path: string, from: unknown, to: unknown) => {
+    if (from !== to) {
+      changes.push(`${path}: ${JSON.stringify(from) ?? "nothing"} -> ${JSON.stringify(to) ?? "nothing"}`);
+    }
+  };
+  compare("customerName", before.customerName, after.customerName);
+  const count = Math.max(before.orderedArticles.length, after.orderedArticles.length);
+  for (let i = 0; i < count; i++) {
+    const from = before.orderedArticles[i];
+    const to = after.orderedArticles[i];
+    if (!from || !to) {
+      compare(`orderedArticles[${i}]`, from?.articleName, to?.articleName);
+      continue;
+    }
+    compare(`orderedArticles[${i}].articleName`, from.articleName, to.articleName);
+    compare(`orderedArticles[${i}].quantity`, from.quantity, to.quantity);
+    compare(`orderedArticles[${i}].pricePerUnit`, from.pricePerUnit, to.pricePerUnit);
+  }
+  return changes;
+}
+
+/**
+ * The order for the terminal, one line per article and the total
+ */
+export function formatOrder(order: Order): string {
+  return [
+    `Customer: ${order.customerName}`,
+    ...order.orderedArticles.map((article, index) =>
+      `  ${index + 1}. ${article.articleName}: ${article.quantity} x ${formatAmount(article.pricePerUnit)} = ${formatAmount(article.quantity * article.pricePerUnit)}`),
+    `Total: ${formatAmount(orderTotal(order))}`,
+  ].join("\n");
+}
+
+/**
+ * Ask the reviewer until the decision is a rejection or a valid order. Orders the reviewer changed are
+ * validated with the same rules as extracted ones and shown again with their problems if they are invalid.
+ * Returns the decision with the normalized order; "edited" if the reviewer changed the order.
+ */
+export async function approveOrder(
+  reviewer: OrderReviewer,
+  request: ApprovalRequest,
+  rules: OrderRules = DEFAULT_ORDER_RULES
+): Promise<ApprovalDecision> {
+  const extractedOrder = request.order;
+  for (;;) {
+    const decision = await reviewer.review(request);
+    if (decision.decision === "rejected") {
+      return decision;
+    }
+    const { order, errors } = validateOrder(decision.order, rules);
+    if (order) {
+      const edited = describeOrderChanges(extractedOrder, order).length > 0;
+      return { ...decision, decision: edited ? "edited" : "approved", order };
+    }
+    console.error(`The reviewed order is invalid:\n${formatValidationErrors(errors)}`);
+    request = { ...request, order: decision.order!, errors };
+  }
+}
+
+// Reads answers line by line; unlike readline.question it notices when the input ends
+function createLinePrompt(input: NodeJS.ReadableStream, output: NodeJS.WritableStream) {
+  const lines: string[] = [];
+  let waiting: ((line: string | null) => void) | null = null;
+  let closed = false;
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  rl.on("line", line => {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(line);
+    } else {
+      lines.push(line);
+    }
+  });
+  rl.on("close", () => {
+    closed = true;
+    waiting?.(null);
+  });
+
+  return {
+    async ask(question: string): Promise<string> {
+      output.write(question);
+      const line = lines.length > 0 ? lines.shift()! : closed ? null : await new Promise<string | null>(resolve => waiting = resolve);
+      if (line === null) {
+        throw new ReviewAbortedError("The terminal input was closed before the review was finished.");
+      }
+      return line.trim();
+    },
+    close: () => rl.close(),
+  };
+}
+
+function formatRequest(request: ApprovalRequest): string {
+  const { email } = request;
+  const source = email.capture ? ` (${formatCapture(email.capture)})` : "";
+  return [
+    "",
+    `--- Review order: ${request.label} ---`,
+    `Needs review: ${request.reasons.join("; ")}`,
+    "",
+    `Email${source}:`,
+    email.text ?? "(only a screenshot of the email was taken, it cannot be shown in the terminal)",
+    "",
+    "Extracted order:",
+    formatOrder(request.order),
+    ...(request.errors?.length ? ["", "Problems:", formatValidationErrors(request.errors)] : []),
+    "",
+  ].join("\n") + "\n";
+}
+
+/**
+ * Review orders in the terminal: the email and the order are printed, the reviewer approves,
+ * edits field by field or rejects them. Reads from process.stdin by default.
+ */
+export function createTerminalReviewer(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): OrderReviewer {
+  // Created on the first review, so that a run without reviews does not hold the terminal
+  let prompt: ReturnType<typeof createLinePrompt> | null = null;
+  const ask = (question: string) => {
+    prompt = prompt ?? createLinePrompt(input, output);
+    return prompt.ask(question);
+  };
+  // Enter keeps the current value
+  const askText = async (question: string, current: string) => (await ask(`${question} [${current}]: `)) || current;
+  const askNumber = async (question: string, current: number): Promise<number> => {
+    for (;;) {
+      const value = parseLooseNumber(await askText(question, String(current)));
+      if (value !== null) {
+        return value;
+      }
+      output.write("Please enter a number.\n");
+    }
+  };
+
+  const editOrder = async (order: Order): Promise<Order> => {
+    const customerName = await askText("Customer", order.customerName);
+    const orderedArticles: OrderedArticle[] = [];
+    for (const [index, article] of order.orderedArticles.entries()) {
+      const articleName = await askText(`Article ${index + 1} name, "-" to remove`, article.articleName);
+      if (articleName === "-") {
+        continue;
+      }
+      orderedArticles.push({
+        articleName,
+        quantity: await askNumber(`Article ${index + 1} quantity`, article.quantity),
+        pricePerUnit: await askNumber(`Article ${index + 1} price per unit`, article.pricePerUnit),
+      });
+    }
+    for (;;) {
+      const articleName = await ask("New article name (empty to finish): ");
+      if (!articleName) {
+        break;
+      }
+      orderedArticles.push({
+        articleName,
+        quantity: await askNumber("Quantity", 1),
+        pricePerUnit: await askNumber("Price per unit", 0),
+      });
+    }
+    return { customerName, orderedArticles };
+  };
+
+  return {
+    name: "terminal",
+    async review(request) {
+      output.write(formatRequest(request));
+      let order = request.order;
+      for (;;) {
+        const answer = (await ask("[a]pprove, [e]dit or [r]eject? ")).toLowerCase();
+        if (answer === "a" || answer === "approve") {
+          return { decision: "approved", order, reviewer: userName() };
+        }
+        if (answer === "r" || answer === "reject") {
+          const comment = await ask("Reason (optional): ");
+          return { decision: "rejected", reviewer: userName(), comment: comment || undefined };
+        }
+        if (answer === "e" || answer === "edit") {
+          order = await editOrder(order);
+          output.write(`\n${formatOrder(order)}\n\n`);
+        }
+      }
+    },
+    close() {
+      prompt?.close();
+      prompt = null;
+    },
+  };
+}
+
+function renderReviewPage(request: ApprovalRequest | null, token: string, notice = ""): string {
+  const head = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Order review</title>
+${request ? "" : `<meta http-equiv="refresh" content="5; url=/?token=${token}">`}
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  .columns { display: flex; gap: 2em; align-items: flex-start; }
+  .columns > div { flex: 1; }
+  pre { white-space: pre-wrap; background: #f6f6f6; padding: 1em; }
+  img { max-width: 100%; }
+  td { padding: 2px 4px; }
+  .problems { color: #c62828; }
+</style>
+</head>
+<body>
+${notice ? `<p>${escapeHtml(notice)}</p>` : ""}`;
+  if (!request) {
+    return `${head}<p>No order is waiting for review. This page reloads by itself.</p></body></html>`;
+  }
+
+  const { email, order } = request;
+  const emailContent = email.text
+    ? `<pre>${escapeHtml(email.text)}</pre>`
+    : email.screenshot ? `<img src="data:image/jpeg;base64,${email.screenshot.imageBase64}" alt="Screenshot of the email">` : "<p>(no email content)</p>";
+  // Two empty rows to add articles
+  const articles = [...order.orderedArticles, ...Array(2).fill({ articleName: "", quantity: "", pricePerUnit: "" })];
+  const cell = (name: string, value: unknown) => `<td><input name="${name}" value="${escapeHtml(String(value ?? ""))}"></td>`;
+  return `${head}
+<h1>Review order: ${escapeHtml(request.label)}</h1>
+<p>Needs review: ${escapeHtml(request.reasons.join("; "))}</p>
+${request.errors?.length ? `<pre class="problems">${escapeHtml(formatValidationErrors(request.errors))}</pre>` : ""}
+<div class="columns">
+<div>
+<h2>Email</h2>
+${email.capture ? `<p>Read via ${escapeHtml(formatCapture(email.capture))}</p>` : ""}
+${emailContent}
+</div>
+<div>
+<h2>Order</h2>
+<form method="post" action="/?token=${token}">
+<p>Customer <input name="customerName" value="${escapeHtml(order.customerName ?? "")}" size="40"></p>
+<table>
+<tr><th>Article</th><th>Quantity</th><th>Price per unit</th></tr>
+${articles.map(article => `<tr>${cell("articleName", article.articleName)}${cell("quantity", article.quantity)}${cell("pricePerUnit", article.pricePerUnit)}</tr>`).join("\n")}
+</table>
+<p>Empty an article row to remove the article. Total of the extracted order: ${formatAmount(orderTotal(order))}</p>
+<p>Comment <input name="comment" size="40"></p>
+<p><button name="action" value="approve">Approve</button> <button name="action" value="reject">Reject</button></p>
+</form>
+</div>
+</div>
+</body>
+</html>`;
+}
+
+// The order as entered in the form; numbers that cannot be read stay text, approveOrder reports them
+function orderFromForm(form: URLSearchParams): Order {
+  const names = form.getAll("articleName");
+  const quantities = form.getAll("quantity");
+  const prices = form.getAll("pricePerUnit");
+  const number = (value: string | undefined) => parseLooseNumber(value ?? "") ?? value;
+  const orderedArticles = names
+    .map((articleName, index) => ({ articleName: articleName.trim(), quantity: number(quantities[index]), pricePerUnit: number(prices[index]) }))
+    .filter(article => article.articleName || article.quantity || article.pricePerUnit);
+  return { customerName: (form.get("customerName") ?? "").trim(), orderedArticles: orderedArticles as OrderedArticle[] };
+}
+
+/**
+ * Review orders on a local web page (http://127.0.0.1:<port>/), with the email next to an editable order form.
+ * The server starts with the first review; the page link contains a random token, so other web pages
+ * cannot send decisions to it.
+ */
+export function createWebReviewer(port: number = DEFAULT_APPROVAL_PORT): OrderReviewer {
+  const token = crypto.randomBytes(16).toString("hex");
+  const url = `http://127.0.0.1:${port}/?token=${token}`;
+  let server: http.Server | null = null;
+  let pending: { request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void } | null = null;
+
+  const handle = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const send = (status: number, html: string) => {
+      res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", "Connection": "close" });
+      res.end(html);
+    };
+    const requestUrl = new URL(req.url ?? "/", "http://127.0.0.1");
+    if (requestUrl.pathname !== "/") {
+      return send(404, "Not found");
+    }
+    if (requestUrl.searchParams.get("token") !== token) {
+      return send(403, "Open the link printed in the terminal.");
+    }
+    if (req.method !== "POST") {
+      return send(200, renderReviewPage(pending?.request ?? null, token));
+    }
+
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => {
+      body += chunk;
+      if (body.length > 1000000) {
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      if (!pending) {
+        return send(409, renderReviewPage(null, token, "There is no order waiting for review."));
+      }
+      const form = new URLSearchParams(body);
+      const comment = form.get("comment")?.trim() || undefined;
+      const decision: ApprovalDecision = form.get("action") === "reject"
+        ? { decision: "rejected", reviewer: userName(), comment }
+        : { decision: "approved", order: orderFromForm(form), reviewer: userName(), comment };
+      const { resolve } = pending;
+      pending = null;
+      send(200, renderReviewPage(null, token, `Decision recorded: ${decision.decision === "rejected" ? "rejected" : "submitted"}.`));
+      resolve(decision);
+    });
+  };
+
+  const start = () => new Promise<void>((resolve, reject) => {
+    const newServer = http.createServer(handle);
+    newServer.once("error", reject);
+    newServer.listen(port, "127.0.0.1", () => {
+      server = newServer;
+      resolve();
+    });
+  });
+
+  return {
+    name: "web",
+    async review(request) {
+      if (!server) {
+        await start();
+      }
+      console.log(`Waiting for the review of ${request.label}: open ${url}`);
+      return new Promise<ApprovalDecision>(resolve => pending = { request, resolve });
+    },
+    close() {
+      server?.close();
+      server = null;
+    },
+  };
+}
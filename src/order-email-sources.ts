@@ -0,0 +1,418 @@
+import * as path from 'path';
+import { SmoothOperatorClient, ExistingChromeInstanceStrategy } from 'smooth-operator-agent-tools';
+import { readMessagesFromFile, parseMimeMessage, MimeMessage } from './mime-message';
+import { fetchImapMessages, ImapOptions } from './imap-client';
+import {
+  waitForWindow,
+  waitForFocusedElement,
+  waitForTreeChangeAfter,
+  waitForStableChromeText,
+  waitForChromeTextChange,
+  getWindowTree,
+  WaitTimeoutError,
+} from './wait-for';
+import { createStepRunner, StepRunner } from './step-runner';
+import { expectFocusedWindow } from './action-guard';
+import {
+  EmailCapture,
+  ScreenshotCropper,
+  CAPTURE_CONFIDENCE,
+  MIN_EMAIL_TEXT_LENGTH,
+  extractGmailEmailText,
+  findReadingPane,
+} from './email-capture';
+
+/** Result of client.screenshot.take() */
+export type Screenshot = Awaited<ReturnType<SmoothOperatorClient["screenshot"]["take"]>>;
+
+/**
+ * An order email as delivered by an email source.
+ * Offline sources deliver its text. UI-based sources read the text from the screen and fall back to a
+ * screenshot of the opened email if they cannot find it.
+ */
+export interface OrderEmail {
+  /** Message-ID header or another id that is stable for this email, if known */
+  messageId?: string;
+  subject?: string;
+  /** Plain-text content of the email */
+  text?: string;
+  /** Screenshot of the opened email, or of its body if it could be cropped */
+  screenshot?: Screenshot;
+  /** How the email was read */
+  capture?: EmailCapture;
+}
+
+/**
+ * A place order emails can be read from
+ */
+export interface OrderEmailSource {
+  /** Name used in log output, e.g. "Gmail" */
+  name: string;
+  /** Find up to maxCount order emails, most recent first */
+  getOrderEmails(maxCount: number): Promise<OrderEmail[]>;
+}
+
+/** Where the order email is read from */
+export type OrderEmailSourceKind = "gmail" | "outlook" | "file" | "imap";
+
+/**
+ * Configuration for createOrderEmailSource
+ */
+export interface OrderEmailSourceConfig {
+  kind: OrderEmailSourceKind;
+  /** Search string used to find the order email */
+  searchText: string;
+  /** Path to an .eml or mbox file (kind "file") */
+  filePath?: string;
+  /** Mailbox settings (kind "imap") */
+  imap?: ImapOptions;
+  /** Runs the automation actions and mailbox requests with retries (default: a runner with default retries) */
+  steps?: StepRunner;
+  /** Crops Outlook screenshots to the reading pane when its text cannot be read (default: no cropping) */
+  cropScreenshot?: ScreenshotCropper;
+  /** Called with every email as soon as it is read, e.g. to redact its content in the run log */
+  onEmailRead?: EmailReadListener;
+}
+
+/** Called with an email as soon as a source has read it */
+export type EmailReadListener = (email: OrderEmail) => void;
+
+const ordinals = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+// Position in a list as used in element descriptions, e.g. "second" or "number 12"
+const ordinal = (index: number): string => ordinals[index] ?? `number ${index + 1}`;
+
+/**
+ * Read the opened email from the page text of Gmail, or take a screenshot if it is not found there
+ */
+async function captureGmailEmail(client: SmoothOperatorClient, pageText: string, searchText: string): Promise<OrderEmail | null> {
+  const found = extractGmailEmailText(pageText, searchText);
+  if (found) {
+    console.log("Read the email from the page text.");
+    return {
+      subject: found.subject,
+      text: found.text,
+      capture: {
+        strategy: "chrome-text",
+        confidence: found.confidence,
+        note: found.confidence < CAPTURE_CONFIDENCE.chromeText ? "end of the email not found" : undefined,
+      },
+    };
+  }
+  console.log("The email was not found in the page text, taking a screenshot of it...");
+  const screenshot = await client.screenshot.take();
+  return screenshot?.success
+    ? { screenshot, capture: { strategy: "screenshot", confidence: CAPTURE_CONFIDENCE.screenshot, note: "email not found in the page text" } }
+    : null;
+}
+
+/**
+ * Read up to maxCount order emails from Gmail
+ */
+async function getOrderEmailsFromGmail(
+  client: SmoothOperatorClient,
+  steps: StepRunner,
+  searchText: string,
+  maxCount: number,
+  onEmailRead?: EmailReadListener
+): Promise<OrderEmail[]> {
+  /*
+   * Example Email Content to send to your Gmail for testing:
+   *
+   * Subject: New Computerstuff.com Order
+   * Text:
+   * Dear you,
+   *
+   * I just visited our customer Smith & Co. Ltd.
+   * They want to order:
+   *
+   * - Product Name: High-Speed Router X200
+   *   Quantity: 5 units
+   *   Price per unit: 120.00
+   *
+   * - Product Name: Cat6 Ethernet Cable (10m)
+   *   Quantity: 10 units
+   *   Price per unit: 15.00
+   *
+   * Best regards,
+   * John Doe
+   * Sales Representative
+   */
+  console.log("Opening Gmail in Chrome...");
+  // ForceClose strategy might be disruptive, consider alternatives if needed
+  const openResult = await steps.run("open Gmail",
+    () => client.chrome.openChrome("https://mail.google.com/", ExistingChromeInstanceStrategy.ForceClose));
+  console.log(openResult?.message ?? "Attempted to open Chrome.");
+  
+  if (openResult?.message?.startsWith('Error')) {
+    console.error("Failed to open Chrome.");
+    return [];
+  }
+  
+  // Generous timeout for Gmail load and potential login
+  await waitForWindow(client, 'Window[name~="Gmail"]', { timeoutMs: 60000 });
+  let pageText = await waitForStableChromeText(client);
+
+  // Basic navigation - might need adjustments based on Gmail's UI state
+  console.log(`Searching for '${searchText}' in Gmail...`);
+  // Use description-based click for search bar
+  await steps.run("click the Gmail search field", () => client.mouse.clickByDescription("the search mail input field"));
+  await waitForFocusedElement(client, "Edit");
+  expectFocusedWindow(client, 'Window[name~="Gmail"]');
+  await client.keyboard.type(searchText);
+  await client.keyboard.press("Enter");
+  pageText = await waitForChromeTextChange(client, pageText); // Wait for search results
+
+  const emails: OrderEmail[] = [];
+  for (let i = 0; i < maxCount; i++) {
+    console.log(`Clicking the ${ordinal(i)} email in the search results...`);
+    // This description might need refinement
+    const clickResult = await client.mouse.clickByDescription(`the ${ordinal(i)} email result in the list`);
+    if (clickResult?.success === false) {
+      console.log("No further email found in the search results.");
+      break;
+    }
+    pageText = await waitForChromeTextChange(client, pageText); // Wait for email to load
+
+    const email = await captureGmailEmail(client, pageText, searchText);
+    if (email) {
+      onEmailRead?.(email);
+      emails.push(email);
+    }
+
+    if (i + 1 < maxCount) {
+      // Go back to the search results
+      await client.keyboard.press("Alt+Left");
+      pageText = await waitForChromeTextChange(client, pageText);
+    }
+  }
+  return emails;
+}
+
+/**
+ * Read the email shown in Outlook's reading pane from the automation tree, or take a screenshot
+ * (cropped to the reading pane if possible) if its text cannot be read
+ */
+async function captureOutlookEmail(
+  client: SmoothOperatorClient,
+  outlookWindowId: string,
+  cropScreenshot?: ScreenshotCropper
+): Promise<OrderEmail | null> {
+  const tree = await getWindowTree(client, outlookWindowId);
+  const readingPane = tree && findReadingPane(tree);
+  if (readingPane && readingPane.text.length >= MIN_EMAIL_TEXT_LENGTH) {
+    console.log("Read the email from the reading pane.");
+    return { text: readingPane.text, capture: { strategy: "automation-tree", confidence: CAPTURE_CONFIDENCE.automationTree } };
+  }
+
+  console.log("The reading pane has no readable text, taking screenshot of Outlook...");
+  const screenshot = await client.screenshot.take();
+  if (!screenshot?.success) {
+    return null;
+  }
+  const note = readingPane ? "reading pane text too short" : "reading pane not found";
+  if (readingPane?.region && cropScreenshot) {
+    try {
+      const imageBase64 = await cropScreenshot(screenshot.imageBase64, readingPane.region);
+      return {
+        screenshot: { ...screenshot, imageBase64 },
+        capture: { strategy: "cropped-screenshot", confidence: CAPTURE_CONFIDENCE.croppedScreenshot, note },
+      };
+    } catch (ex) {
+      console.warn(`Could not crop the screenshot to the reading pane, using the whole screen: ${ex}`);
+    }
+  }
+  return { screenshot, capture: { strategy: "screenshot", confidence: CAPTURE_CONFIDENCE.screenshot, note } };
+}
+
+/**
+ * Read up to maxCount order emails from Outlook
+ */
+async function getOrderEmailsFromOutlook(
+  client: SmoothOperatorClient,
+  steps: StepRunner,
+  searchText: string,
+  maxCount: number,
+  cropScreenshot?: ScreenshotCropper,
+  onEmailRead?: EmailReadListener
+): Promise<OrderEmail[]> {
+  console.log("Opening Outlook...");
+  let outlookWindowId: string;
+  try {
+    await steps.run("open Outlook", () => client.system.openApplication("outlook"));
+    // Generous timeout for Outlook to load
+    const outlookWindow = await waitForWindow(client, 'Window[name~="Outlook"]', { timeoutMs: 60000 });
+    outlookWindowId = outlookWindow.id!;
+  } catch (ex) {
+    console.error(`Failed to open Outlook: ${ex}. Make sure Outlook is installed.`);
+    return [];
+  }
+
+  console.log(`Searching for '${searchText}' in Outlook...`);
+  // Using keyboard shortcuts for search
+  await client.keyboard.press("Ctrl+E"); // Focus search bar shortcut
+  await waitForFocusedElement(client, "Edit");
+  expectFocusedWindow(client, 'Window[name~="Outlook"]');
+  await client.keyboard.type(searchText);
+  // Wait for search results
+  await waitForTreeChangeAfter(client, outlookWindowId, () => client.keyboard.press("Enter"));
+
+  console.log("Clicking the first email in the Outlook search results...");
+  // Using description-based click - might need adjustment
+  // Wait for email to load
+  await steps.run("click the first Outlook search result", () =>
+    waitForTreeChangeAfter(client, outlookWindowId, () => client.mouse.clickByDescription("the first email shown in the list pane")));
+
+  const emails: OrderEmail[] = [];
+  for (let i = 0; i < maxCount; i++) {
+    if (i > 0) {
+      // The list pane keeps the focus, the next email is shown in the reading pane
+      console.log(`Selecting the ${ordinal(i)} email in the Outlook search results...`);
+      try {
+        await waitForTreeChangeAfter(client, outlookWindowId, () => client.keyboard.press("Down"), { timeoutMs: 5000 });
+      } catch (ex) {
+        if (!(ex instanceof WaitTimeoutError)) {
+          throw ex;
+        }
+        // Nothing changed, the last email is already selected
+        console.log("Reached the end of the search results.");
+        break;
+      }
+    }
+
+    const email = await captureOutlookEmail(client, outlookWindowId, cropScreenshot);
+    if (!email) {
+      continue;
+    }
+    onEmailRead?.(email);
+    const content = (e: OrderEmail) => e.text ?? e.screenshot?.imageBase64;
+    if (emails.some(e => content(e) === content(email))) {
+      console.log("Reached the end of the search results.");
+      break;
+    }
+    emails.push(email);
+  }
+  return emails;
+}
+
+/**
+ * Read the order email from Gmail in Chrome (delivers its text, or a screenshot if the text is not found)
+ */
+export function createGmailSource(
+  client: SmoothOperatorClient,
+  searchText: string,
+  steps: StepRunner = createStepRunner(),
+  onEmailRead?: EmailReadListener
+): OrderEmailSource {
+  return {
+    name: "Gmail",
+    getOrderEmails(maxCount: number) {
+      return getOrderEmailsFromGmail(client, steps, searchText, maxCount, onEmailRead);
+    },
+  };
+}
+
+/**
+ * Read the order email from the local Outlook application (delivers the text of the reading pane,
+ * or a screenshot if it has no readable text)
+ */
+export function createOutlookSource(
+  client: SmoothOperatorClient,
+  searchText: string,
+  steps: StepRunner = createStepRunner(),
+  cropScreenshot?: ScreenshotCropper,
+  onEmailRead?: EmailReadListener
+): OrderEmailSource {
+  return {
+    name: "Outlook",
+    getOrderEmails(maxCount: number) {
+      return getOrderEmailsFromOutlook(client, steps, searchText, maxCount, cropScreenshot, onEmailRead);
+    },
+  };
+}
+
+function toOrderEmail(message: MimeMessage, fallbackId: string, capture: EmailCapture): OrderEmail {
+  return {
+    messageId: message.headers["message-id"] ?? fallbackId,
+    subject: message.headers["subject"],
+    text: message.text,
+    capture,
+  };
+}
+
+/**
+ * Read order emails from a local .eml or mbox file (delivers text).
+ * An mbox file is searched by subject, the messages appended last are returned first;
+ * a single .eml file is used regardless of its subject.
+ */
+export function createEmailFileSource(filePath: string, searchText: string, onEmailRead?: EmailReadListener): OrderEmailSource {
+  return {
+    name: `file ${path.basename(filePath)}`,
+    async getOrderEmails(maxCount: number) {
+      console.log(`Reading order emails from ${filePath}...`);
+      const messages = readMessagesFromFile(filePath);
+      const emails = messages
+        .map((message, index) => toOrderEmail(message, `${path.basename(filePath)}#${index}`, { strategy: "file", confidence: 1 }))
+        .filter(email => messages.length === 1 || (email.subject ?? "").toLowerCase().includes(searchText.toLowerCase()));
+      if (emails.length === 0) {
+        console.error(`No email with subject containing '${searchText}' found in ${filePath}.`);
+      }
+      const found = emails.reverse().slice(0, maxCount);
+      found.forEach(email => onEmailRead?.(email));
+      return found;
+    },
+  };
+}
+
+/**
+ * Read order emails from an IMAP mailbox (delivers text)
+ */
+export function createImapSource(
+  options: ImapOptions,
+  searchText: string,
+  steps: StepRunner = createStepRunner(),
+  onEmailRead?: EmailReadListener
+): OrderEmailSource {
+  return {
+    name: `IMAP ${options.host}`,
+    async getOrderEmails(maxCount: number) {
+      console.log(`Searching for '${searchText}' on IMAP server ${options.host}...`);
+      const messages = await steps.run("fetch IMAP messages", () => fetchImapMessages(options, searchText, maxCount));
+      if (messages.length === 0) {
+        console.error(`No email with subject containing '${searchText}' found.`);
+      }
+      const emails = messages
+        .reverse()
+        .map(message => toOrderEmail(parseMimeMessage(message.raw), `imap:${options.mailbox ?? "INBOX"}:${message.uid}`,
+          { strategy: "imap", confidence: 1 }));
+      emails.forEach(email => onEmailRead?.(email));
+      return emails;
+    },
+  };
+}
+
+/**
+ * Create the email source selected in the configuration
+ */
+export function createOrderEmailSource(client: SmoothOperatorClient | null, config: OrderEmailSourceConfig): OrderEmailSource {
+  switch (config.kind) {
+    case "gmail":
+    case "outlook":
+      if (!client) {
+        throw new Error(`The ${config.kind} email source requires the Smooth Operator client.`);
+      }
+      return config.kind === "gmail"
+        ? createGmailSource(client, config.searchText, config.steps, config.onEmailRead)
+        : createOutlookSource(client, config.searchText, config.steps, config.cropScreenshot, config.onEmailRead);
+    case "file":
+      if (!config.filePath) {
+        throw new Error("The file email source requires a file path.");
+      }
+      return createEmailFileSource(config.filePath, config.searchText, config.onEmailRead);
+    case "imap":
+      if (!config.imap) {
+        throw new Error("The IMAP email source requires IMAP settings.");
+      }
+      return createImapSource(config.imap, config.searchText, config.steps, config.onEmailRead);
+  }
+}
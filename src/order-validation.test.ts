@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseLooseNumber, validateOrder, formatValidationErrors, DEFAULT_ORDER_RULES } from './order-validation';
+
+test("numbers as they appear in emails", () => {
+  const cases: Array<[unknown, number | null]> = [
+    [5, 5],
+    ["5 units", 5],
+    ["120,00", 120],
+    ["120,5", 120.5],
+    ["1,000", 1000],
+    ["1,000,000", 1000000],
+    ["1.234.567", 1234567],
+    ["EUR 1.234,50", 1234.5],
+    ["$1,234.50", 1234.5],
+    ["1'234.50 CHF", 1234.5],
+    ["1 234,50 €", 1234.5],
+    ["-3", -3],
+    ["none", null],
+    [null, null],
+    [NaN, null],
+    [{ value: 5 }, null],
+  ];
+  for (const [value, expected] of cases) {
+    assert.equal(parseLooseNumber(value), expected, JSON.stringify(value));
+  }
+});
+
+test("a valid order is normalized", () => {
+  const result = validateOrder({
+    customerName: "  Smith & Co ",
+    orderedArticles: [{ articleName: "Mouse", quantity: "2 pcs", pricePerUnit: "10,50" }],
+  });
+  assert.deepEqual(result, {
+    order: { customerName: "Smith & Co", orderedArticles: [{ articleName: "Mouse", quantity: 2, pricePerUnit: 10.5 }] },
+    errors: [],
+  });
+});
+
+test("every problem of an order is reported", () => {
+  const { order, errors } = validateOrder({
+    customerName: "",
+    orderedArticles: [
+      { articleName: "Mouse", quantity: 2.5, pricePerUnit: 10 },
+      { quantity: "many", pricePerUnit: -1 },
+      { articleName: "Desk", quantity: 5000, pricePerUnit: 200 },
+    ],
+  });
+  assert.equal(order, null);
+  assert.deepEqual(errors.map(error => `${error.path} ${error.message}`), [
+    "customerName is required",
+    "orderedArticles[0].quantity must be a positive whole number",
+    "orderedArticles[1].articleName is required",
+    "orderedArticles[1].quantity must be a number",
+    "orderedArticles[1].pricePerUnit must be between 0 and 100000",
+    "orderedArticles[2].quantity must not exceed 1000",
+  ]);
+  assert.match(formatValidationErrors(errors), /^- customerName is required \(got ""\)\n/);
+});
+
+test("the order total and the number of articles are limited", () => {
+  const expensive = validateOrder({
+    customerName: "Smith",
+    orderedArticles: [{ articleName: "Server", quantity: 20, pricePerUnit: 60000 }],
+  });
+  assert.deepEqual(expensive.errors.map(error => error.message), ["order total 1200000.00 exceeds 1000000"]);
+
+  const articles = Array.from({ length: 3 }, (_, i) => ({ articleName: `A${i}`, quantity: 1, pricePerUnit: 1 }));
+  const tooMany = validateOrder({ customerName: "Smith", orderedArticles: articles }, { ...DEFAULT_ORDER_RULES, maxArticles: 2 });
+  assert.deepEqual(tooMany.errors.map(error => error.message), ["must not contain more than 2 articles"]);
+  assert.deepEqual(validateOrder("not an order").errors, [{ path: "", message: "must be an object", value: "not an order" }]);
+});
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import { Order, OrderedArticle } from './order';
+
+/**
+ * A single problem found in an extracted order
+ */
+export interface OrderValidationError {
+  /** Location of the problem, e.g. "orderedArticles[1].quantity" */
+  path: string;
+  message: string;
+  /** The offending value as extracted */
+  value?: unknown;
+}
+
+/**
+ * Result of validateOrder: the normalized order if it is valid, otherwise the list of errors
+ */
+export interface OrderValidationResult {
+  order: Order | null;
+  errors: OrderValidationError[];
+}
+
+/**
+ * Business rules every order has to satisfy before it is entered into the ERP
+ */
+export interface OrderRules {
+  /** Largest quantity allowed for a single article */
+  maxQuantity: number;
+  /** Smallest price per unit allowed */
+  minPricePerUnit: number;
+  /** Largest price per unit allowed */
+  maxPricePerUnit: number;
+  /** Largest order total (sum of quantity * price) allowed */
+  maxOrderTotal: number;
+  /** Largest number of articles in one order */
+  maxArticles: number;
+  /** Fields that must not be empty */
+  requiredFields: Array<"customerName" | "articleName">;
+}
+
+export const DEFAULT_ORDER_RULES: OrderRules = {
+  maxQuantity: 1000,
+  minPricePerUnit: 0,
+  maxPricePerUnit: 100000,
+  maxOrderTotal: 1000000,
+  maxArticles: 50,
+  requiredFields: ["customerName", "articleName"],
+};
+
+/**
+ * Load order rules from a JSON file; missing rules keep their default
+ */
+export function loadOrderRules(filePath: string): OrderRules {
+  const rules = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<OrderRules>;
+  return { ...DEFAULT_ORDER_RULES, ...rules };
+}
+
+/**
+ * Parse numbers as they appear in emails, e.g. 5, "5 units", "120,00", "EUR 1.234,50" or "1,234.50".
+ * Returns null if the value contains no number.
+ */
+export function parseLooseNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = /-?\d[\d.,' ]*/.exec(value.replace(/\u00a0/g, " "));
+  if (!match) {
+    return null;
+  }
+  let number = match[0].trim().replace(/['\s]/g, "");
+  const lastComma = number.lastIndexOf(",");
+  const lastDot = number.lastIndexOf(".");
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both separators: the last one is the decimal separator
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? "." : ",";
+    number = number.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma !== -1) {
+    // Only commas: "120,00" is a decimal, "1,000" and "1,000,000" are thousands
+    const isThousands = /^-?\d{1,3}(,\d{3})+$/.test(number);
+    number = isThousands ? number.split(",").join("") : number.replace(",", ".");
+  } else if ((number.match(/\./g) ?? []).length > 1) {
+    // Several dots can only be thousands separators
+    number = number.split(".").join("");
+  }
+
+  const parsed = Number(number);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function normalizeText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+}
+
+function validateArticle(
+  data: unknown,
+  path: string,
+  rules: OrderRules,
+  errors: OrderValidationError[]
+): OrderedArticle | null {
+  if (!isRecord(data)) {
+    errors.push({ path, message: "must be an object", value: data });
+    return null;
+  }
+  const errorCount = errors.length;
+
+  const articleName = normalizeText(data.articleName);
+  const isMissing = data.articleName === undefined || data.articleName === null;
+  if (!isMissing && typeof data.articleName !== "string" && typeof data.articleName !== "number") {
+    errors.push({ path: `${path}.articleName`, message: "must be a string", value: data.articleName });
+  } else if (!articleName && rules.requiredFields.includes("articleName")) {
+    errors.push({ path: `${path}.articleName`, message: "is required", value: data.articleName });
+  }
+
+  const quantity = parseLooseNumber(data.quantity);
+  if (quantity === null) {
+    errors.push({ path: `${path}.quantity`, message: "must be a number", value: data.quantity });
+  } else if (!Number.isInteger(quantity) || quantity <= 0) {
+    errors.push({ path: `${path}.quantity`, message: "must be a positive whole number", value: data.quantity });
+  } else if (quantity > rules.maxQuantity) {
+    errors.push({ path: `${path}.quantity`, message: `must not exceed ${rules.maxQuantity}`, value: data.quantity });
+  }
+
+  const pricePerUnit = parseLooseNumber(data.pricePerUnit);
+  if (pricePerUnit === null) {
+    errors.push({ path: `${path}.pricePerUnit`, message: "must be a number", value: data.pricePerUnit });
+  } else if (pricePerUnit < rules.minPricePerUnit || pricePerUnit > rules.maxPricePerUnit) {
+    errors.push({
+      path: `${path}.pricePerUnit`,
+      message: `must be between ${rules.minPricePerUnit} and ${rules.maxPricePerUnit}`,
+      value: data.pricePerUnit,
+    });
+  }
+
+  if (errors.length > errorCount || quantity === null || pricePerUnit === null) {
+    return null;
+  }
+  return { articleName, quantity, pricePerUnit };
+}
+
+/**
+ * Validate and normalize an order as returned by the model.
+ * Checks the structure and the business rules and reports every problem found.
+ */
+export function validateOrder(data: unknown, rules: OrderRules = DEFAULT_ORDER_RULES): OrderValidationResult {
+  const errors: OrderValidationError[] = [];
+  if (!isRecord(data)) {
+    return { order: null, errors: [{ path: "", message: "must be an object", value: data }] };
+  }
+
+  const customerName = normalizeText(data.customerName);
+  if (typeof data.customerName !== "string" && data.customerName !== undefined && data.customerName !== null) {
+    errors.push({ path: "customerName", message: "must be a string", value: data.customerName });
+  } else if (!customerName && rules.requiredFields.includes("customerName")) {
+    errors.push({ path: "customerName", message: "is required", value: data.customerName });
+  }
+
+  const orderedArticles: OrderedArticle[] = [];
+  if (!Array.isArray(data.orderedArticles)) {
+    errors.push({ path: "orderedArticles", message: "must be a list of articles", value: data.orderedArticles });
+  } else if (data.orderedArticles.length === 0) {
+    errors.push({ path: "orderedArticles", message: "must contain at least one article", value: data.orderedArticles });
+  } else if (data.orderedArticles.length > rules.maxArticles) {
+    errors.push({ path: "orderedArticles", message: `must not contain more than ${rules.maxArticles} articles` });
+  } else {
+    data.orderedArticles.forEach((article, index) => {
+      const validated = validateArticle(article, `orderedArticles[${index}]`, rules, errors);
+      if (validated) {
+        orderedArticles.push(validated);
+      }
+    });
+  }
+
+  const total = orderedArticles.reduce((sum, a) => sum + a.quantity * a.pricePerUnit, 0);
+  if (total > rules.maxOrderTotal) {
+    errors.push({ path: "orderedArticles", message: `order total ${total.toFixed(2)} exceeds ${rules.maxOrderTotal}` });
+  }
+
+  if (errors.length > 0) {
+    return { order: null, errors };
+  }
+  return { order: { customerName, orderedArticles }, errors };
+}
+
+/**
+ * Format validation errors for log output, one per line
+ */
+export function formatValidationErrors(errors: OrderValidationError[]): string {
+  return errors
+    .map(e => `- ${e.path || "order"} ${e.message}${e.value !== undefined ? ` (got ${JSON.stringify(e.value)})` : ""}`)
+    .join("\n");
+}
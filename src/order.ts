@@ -0,0 +1,40 @@
+import { defineStructuredOutput } from './structured-output';
+
+/**
+ * A line item of an order
+ */
+export interface OrderedArticle {
+  articleName: string;
+  quantity: number;
+  pricePerUnit: number;
+}
+
+/**
+ * An order as extracted from an order email
+ */
+export interface Order {
+  customerName: string;
+  orderedArticles: OrderedArticle[];
+}
+
+/**
+ * The order as the language model is asked to extract it from an email, see completeStructured.
+ * Business rules are checked afterwards by validateOrder.
+ */
+export const ORDER_OUTPUT = defineStructuredOutput<Order>("order", {
+  type: "object",
+  properties: {
+    customerName: { type: "string", description: "name of the customer" },
+    orderedArticles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          articleName: { type: "string", description: "name of the article" },
+          quantity: { type: "number", examples: [2] },
+          pricePerUnit: { type: "number", examples: [19.99] },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EmailCapture } from './email-capture';
+
+/**
+ * Information stored for every processed order email
+ */
+export interface LedgerEntry {
+  /** ISO timestamp of when the email was processed */
+  processedAt: string;
+  /**
+   * Whether the order was entered into the ERP, queued for review, entered but
+   * read back from the ERP with differences (and queued for review as well), or rejected by a reviewer
+   */
+  outcome: "entered" | "review" | "mismatch" | "rejected";
+  customerName?: string;
+  subject?: string;
+  /** How the email was read */
+  capture?: EmailCapture;
+  /** Id of the order in the ERP, if the target reports one */
+  reference?: string;
+}
+
+/**
+ * Persistent record of the order emails that were already entered into the ERP
+ * (or queued for review), so that re-runs never create duplicate ERP orders
+ */
+export interface ProcessedLedger {
+  /** Returns true if any of the keys was recorded before */
+  has(...keys: string[]): boolean;
+  /** Record the keys and write the ledger file immediately */
+  record(keys: string[], entry: LedgerEntry): void;
+}
+
+// Format of the ledger file
+interface LedgerFile {
+  version: 1;
+  entries: Record<string, LedgerEntry>;
+}
+
+/** Default location of the ledger file, relative to the working directory */
+export const DEFAULT_LEDGER_PATH = "processed-orders.json";
+
+/**
+ * Stable key for a piece of content, e.g. the email text or the extracted order
+ */
+export function contentHash(kind: string, content: unknown): string {
+  const text = typeof content === "string" ? content.trim() : JSON.stringify(content);
+  return `${kind}:sha256:${crypto.createHash("sha256").update(text).digest("hex")}`;
+}
+
+/**
+ * Load the ledger from filePath (a missing file is an empty ledger)
+ */
+export function openProcessedLedger(filePath: string = DEFAULT_LEDGER_PATH): ProcessedLedger {
+  let ledger: LedgerFile = { version: 1, entries: {} };
+  if (fs.existsSync(filePath)) {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf8")) as LedgerFile;
+    if (content.version !== 1 || typeof content.entries !== "object") {
+      throw new Error(`Unsupported ledger file format in ${filePath}`);
+    }
+    ledger = content;
+  }
+
+  const save = () => {
+    // Write to a temporary file first so an interrupted run never leaves a truncated ledger behind
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(ledger, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return {
+    has(...keys: string[]) {
+      return keys.some(key => key in ledger.entries);
+    },
+    record(keys: string[], entry: LedgerEntry) {
+      for (const key of keys) {
+        ledger.entries[key] = entry;
+      }
+      save();
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OrderValidationError } from './order-validation';
+import { EmailCapture } from './email-capture';
+
+/**
+ * An order that could not be entered automatically and waits for a human
+ */
+export interface ReviewItem {
+  /** ISO timestamp of when the item was queued */
+  queuedAt: string;
+  /** Why the order needs a review, e.g. "validation failed" */
+  reason: string;
+  email: {
+    messageId?: string;
+    subject?: string;
+    text?: string;
+    /** How the email was read; orders from screenshots deserve a closer look */
+    capture?: EmailCapture;
+  };
+  /** The order data exactly as extracted */
+  extractedOrder: unknown;
+  errors: OrderValidationError[];
+}
+
+/**
+ * Directory of orders waiting for review, one JSON file per order
+ */
+export interface ReviewQueue {
+  /** Add an item and return the path of its file */
+  add(item: ReviewItem): string;
+}
+
+/** Default review queue directory, relative to the working directory */
+export const DEFAULT_REVIEW_QUEUE_DIR = "review-queue";
+
+/**
+ * Open the review queue in directory (created on first use)
+ */
+export function openReviewQueue(directory: string = DEFAULT_REVIEW_QUEUE_DIR): ReviewQueue {
+  let counter = 0;
+  return {
+    add(item: ReviewItem) {
+      fs.mkdirSync(directory, { recursive: true });
+      const timestamp = item.queuedAt.replace(/[:.]/g, "-");
+      const filePath = path.join(directory, `${timestamp}-${process.pid}-${++counter}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(item, null, 2));
+      return filePath;
+    },
+  };
+}
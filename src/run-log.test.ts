@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createRunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { createEmailFileSource } from './order-email-sources';
+import { createScriptedProvider } from './llm-replay-provider';
+
+const emailFile = path.join(__dirname, "..", "fixtures", "order.eml");
+
+// Every file the run log wrote, with its content
+function readRunDirectory(directory: string): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      readRunDirectory(entryPath).forEach((content, name) => files.set(name, content));
+    } else {
+      files.set(entryPath, fs.readFileSync(entryPath, "utf8"));
+    }
+  }
+  return files;
+}
+
+// Outlook shows the email in its reading pane, its tree is read before the source knows the email
+const createOutlookClient = (emailText: string) => ({
+  system: {
+    getWindowDetails: async () => ({
+      userInterfaceElements: { id: "7", controlType: "Window", name: "Inbox - Outlook", children: [{ id: "8", controlType: "Document", name: emailText }] },
+    }),
+  },
+  screenshot: {
+    take: async () => ({ success: true, imageBase64: Buffer.from(emailText).toString("base64") }),
+  },
+}) as unknown as SmoothOperatorClient;
+
+test("a run log with email redaction does not contain the email", async t => {
+  t.mock.method(console, "log", () => {});
+  const runLog = createRunLog("erp", { runsDir: fs.mkdtempSync(path.join(os.tmpdir(), "runs-")), redact: ["secrets", "email"] });
+  const source = createEmailFileSource(emailFile, "Computerstuff", email => runLog.addEmailContent(email.subject, email.text));
+  const client = createLoggingClient(createOutlookClient(fs.readFileSync(emailFile, "utf8")), runLog);
+
+  await client.system.getWindowDetails("7");
+  await client.screenshot.take();
+  const [email] = await source.getOrderEmails(1);
+  const llm = createLoggingLlmProvider(createScriptedProvider([`{"customerName": "Smith & Co"}`]), runLog);
+  await llm.complete({ task: "order-extraction", prompt: `Extract the order details.\n\nEmail:\n${email.text}` });
+  runLog.log({ level: "info", type: "step", step: "read email", message: email.subject });
+  runLog.finish(true);
+
+  const files = readRunDirectory(runLog.directory);
+  assert.ok([...files.keys()].some(name => name.endsWith("order-extraction-prompt.txt")));
+  for (const [name, content] of files) {
+    for (const text of ["Wireless Mouse", "New Computerstuff.com Order", "jane@smith-co.example"]) {
+      assert.ok(!content.includes(text), `${path.basename(name)} contains "${text}"`);
+    }
+  }
+});
+
+test("without email redaction the window trees are saved", async t => {
+  t.mock.method(console, "log", () => {});
+  const runLog = createRunLog("erp", { runsDir: fs.mkdtempSync(path.join(os.tmpdir(), "runs-")) });
+  const client = createLoggingClient(createOutlookClient("2 x Wireless Mouse"), runLog);
+  await client.system.getWindowDetails("7");
+  // An unchanged tree is not saved again
+  await client.system.getWindowDetails("7");
+  await client.screenshot.take();
+  runLog.finish(true);
+  assert.deepEqual(fs.readdirSync(path.join(runLog.directory, "artifacts")), ["001-window-7.json", "002-screenshot.jpg"]);
+});
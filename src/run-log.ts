@@ -0,0 +1,415 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { LlmProvider, LlmRequest } from './llm-provider';
+import { StepOutcome } from './step-runner';
+
+/**
+ * Severity of a run log event; events below the configured level are not written
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * What the run log replaces before anything is written:
+ * - secrets: API keys, passwords and tokens of the environment and the config, bearer tokens and OpenAI keys
+ * - email: text and subject of the order emails, email addresses; screenshots and window trees are not saved
+ */
+export type RedactionKind = "secrets" | "email";
+
+/**
+ * Settings of the run log
+ */
+export interface RunLogOptions {
+  /** Directory the run directories are created in (default: DEFAULT_RUNS_DIR) */
+  runsDir?: string;
+  /** Lowest level written to the event log (default: "info") */
+  level?: LogLevel;
+  /** What to redact (default: ["secrets"]) */
+  redact?: RedactionKind[];
+  /** Further values the "secrets" redaction replaces, e.g. configSecrets(config) for keys from a config file */
+  secrets?: string[];
+}
+
+/** Directory the run directories are created in */
+export const DEFAULT_RUNS_DIR = "runs";
+
+/**
+ * A line of the event log (events.jsonl)
+ */
+export interface RunEvent {
+  time: string;
+  level: LogLevel;
+  /** step: a StepRunner step, call: a client call, llm: a language model request */
+  type: "run-start" | "run-end" | "step" | "call" | "llm" | "artifact";
+  /** Step name, client method (e.g. "system.getWindowDetails") or language model task */
+  step?: string;
+  durationMs?: number;
+  args?: unknown[];
+  outcome?: "succeeded" | "failed";
+  attempts?: number;
+  message?: string;
+  /** Paths of the artifacts written for the event, relative to the run directory */
+  artifacts?: string[];
+}
+
+/**
+ * Event log and artifacts of one run, written to a directory of its own:
+ * events.jsonl, artifacts/ and report.html
+ */
+export interface RunLog {
+  /** Directory of the run, e.g. runs/2025-05-01T10-00-00-000Z-erp; created with the first event */
+  readonly directory: string;
+  log(event: Omit<RunEvent, "time">): void;
+  /** Write an artifact (text, binary or JSON) and return its path relative to the run directory */
+  saveArtifact(name: string, content: string | Buffer | object): string;
+  /** Record the outcome of a step, pass it to createStepRunner */
+  recordStep(outcome: StepOutcome): void;
+  /** Register the subject and text of an order email for the "email" redaction */
+  addEmailContent(...texts: Array<string | undefined>): void;
+  redacts(kind: RedactionKind): boolean;
+  /** Write the run-end event and the HTML report; returns the path of the report */
+  finish(success: boolean): string;
+}
+
+// Environment variables with these endings hold secrets
+const secretVariablePattern = /(KEY|TOKEN|SECRET|PASSWORD)$/i;
+const secretPatterns = [/\bsk-[A-Za-z0-9_-]{16,}/g, /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g];
+const emailAddressPattern = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// Long arguments (trees, prompts) belong into artifacts, the event log only keeps their start
+const MAX_ARG_LENGTH = 200;
+
+function truncate(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_ARG_LENGTH) {
+    return `${value.slice(0, MAX_ARG_LENGTH)}... (${value.length} characters)`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(truncate);
+  }
+  if (value !== null && typeof value === "object") {
+    const truncated: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      truncated[key] = truncate(item);
+    }
+    return truncated;
+  }
+  return value;
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Create the run log of a run named name (e.g. the example). Nothing is written before the first event,
+ * so a run that does not start (e.g. an invalid command line) leaves no directory behind.
+ */
+export function createRunLog(name: string, options: RunLogOptions = {}): RunLog {
+  const startedAt = new Date();
+  const directory = path.join(options.runsDir ?? DEFAULT_RUNS_DIR, `${startedAt.toISOString().replace(/[:.]/g, "-")}-${name}`);
+  const eventsPath = path.join(directory, "events.jsonl");
+  const minLevel = LOG_LEVELS.indexOf(options.level ?? "info");
+  const redactions = options.redact ?? ["secrets"];
+  const events: RunEvent[] = [];
+  const emailContent: string[] = [];
+  let artifactCount = 0;
+  let started = false;
+
+  const secrets = redactions.includes("secrets")
+    ? [
+      ...Object.entries(process.env)
+        .filter(([variable, value]) => secretVariablePattern.test(variable) && value)
+        .map(([, value]) => value!),
+      ...options.secrets ?? [],
+    ].filter(value => value.length >= 6)
+    : [];
+
+  const redactText = (text: string): string => {
+    let redacted = text;
+    for (const secret of secrets) {
+      redacted = redacted.split(secret).join("[redacted]");
+    }
+    if (redactions.includes("secrets")) {
+      secretPatterns.forEach(pattern => { redacted = redacted.replace(pattern, "[redacted]"); });
+    }
+    if (redactions.includes("email")) {
+      for (const content of emailContent) {
+        redacted = redacted.split(content).join("[email content]");
+      }
+      redacted = redacted.replace(emailAddressPattern, "[email address]");
+    }
+    return redacted;
+  };
+
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(redactValue);
+    }
+    if (value !== null && typeof value === "object") {
+      const redacted: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        redacted[key] = redactValue(item);
+      }
+      return redacted;
+    }
+    return value;
+  };
+
+  const write = (event: Omit<RunEvent, "time">) => {
+    const line = redactValue({ time: new Date().toISOString(), ...event }) as RunEvent;
+    events.push(line);
+    fs.appendFileSync(eventsPath, JSON.stringify(line) + "\n");
+  };
+
+  const start = () => {
+    if (!started) {
+      started = true;
+      fs.mkdirSync(path.join(directory, "artifacts"), { recursive: true });
+      write({ level: "info", type: "run-start", step: name, message: `node ${process.version} on ${process.platform}` });
+    }
+  };
+
+  const runLog: RunLog = {
+    directory,
+    log(event) {
+      if (LOG_LEVELS.indexOf(event.level) < minLevel) {
+        return;
+      }
+      start();
+      write({ ...event, args: event.args && (truncate(event.args) as unknown[]) });
+    },
+    saveArtifact(artifactName, content) {
+      start();
+      artifactCount++;
+      const fileName = `${String(artifactCount).padStart(3, "0")}-${artifactName.replace(/[^\w.-]+/g, "_")}`;
+      const data = Buffer.isBuffer(content) ? content
+        : typeof content === "string" ? redactText(content)
+        : JSON.stringify(redactValue(content), null, 2);
+      fs.writeFileSync(path.join(directory, "artifacts", fileName), data);
+      return `artifacts/${fileName}`;
+    },
+    recordStep(outcome) {
+      runLog.log({
+        level: outcome.status === "failed" ? "error" : outcome.attempts > 1 ? "warn" : "info",
+        type: "step",
+        step: outcome.name,
+        durationMs: outcome.durationMs,
+        outcome: outcome.status,
+        attempts: outcome.attempts,
+        message: outcome.error && `${outcome.errorKind}: ${outcome.error}`,
+      });
+    },
+    addEmailContent(...texts) {
+      for (const text of texts) {
+        if (text && text.trim().length >= 4 && !emailContent.includes(text)) {
+          emailContent.push(text);
+        }
+      }
+      // Longer texts first, a subject can be part of the text
+      emailContent.sort((a, b) => b.length - a.length);
+    },
+    redacts(kind) {
+      return redactions.includes(kind);
+    },
+    finish(success) {
+      start();
+      write({
+        level: success ? "info" : "error",
+        type: "run-end",
+        step: name,
+        durationMs: Date.now() - startedAt.getTime(),
+        outcome: success ? "succeeded" : "failed",
+      });
+      const reportPath = path.join(directory, "report.html");
+      fs.writeFileSync(reportPath, renderReport(name, startedAt, success, events));
+      return reportPath;
+    },
+  };
+  return runLog;
+}
+
+function renderArtifactLink(artifact: string): string {
+  const link = `<a href="${escapeHtml(artifact)}">${escapeHtml(path.basename(artifact))}</a>`;
+  return /\.(jpe?g|png)$/i.test(artifact) ? `<a href="${escapeHtml(artifact)}"><img src="${escapeHtml(artifact)}" alt=""></a><br>${link}` : link;
+}
+
+function renderReport(name: string, startedAt: Date, success: boolean, events: RunEvent[]): string {
+  const rows = events.map(event => {
+    const details = event.message ?? (event.args ? JSON.stringify(event.args) : "");
+    return `<tr class="${event.level}">
+  <td>${escapeHtml(event.time.slice(11, 23))}</td>
+  <td>${event.level}</td>
+  <td>${event.type}</td>
+  <td>${escapeHtml(event.step ?? "")}</td>
+  <td class="number">${event.durationMs ?? ""}</td>
+  <td>${event.outcome ?? ""}${event.attempts && event.attempts > 1 ? ` (${event.attempts} attempts)` : ""}</td>
+  <td><code>${escapeHtml(details)}</code></td>
+  <td>${(event.artifacts ?? []).map(renderArtifactLink).join("<br>")}</td>
+</tr>`;
+  });
+  const steps = events.filter(event => event.type === "step");
+  const failedSteps = steps.filter(event => event.outcome === "failed").length;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(name)} run of ${startedAt.toISOString()}</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; font-size: 0.9em; }
+  td.number { text-align: right; }
+  code { white-space: pre-wrap; word-break: break-all; }
+  img { max-width: 240px; }
+  tr.warn { background: #fff6d5; }
+  tr.error { background: #fde2e2; }
+  .succeeded { color: #2e7d32; }
+  .failed { color: #c62828; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(name)} <span class="${success ? "succeeded" : "failed"}">${success ? "succeeded" : "failed"}</span></h1>
+<p>Started ${startedAt.toISOString()}, ${steps.length} step(s), ${failedSteps} failed. Event log: <a href="events.jsonl">events.jsonl</a></p>
+<table>
+<tr><th>Time</th><th>Level</th><th>Type</th><th>Step</th><th>ms</th><th>Outcome</th><th>Details</th><th>Artifacts</th></tr>
+${rows.join("\n")}
+</table>
+</body>
+</html>
+`;
+}
+
+const isObject = (value: unknown): value is object => typeof value === "object" && value !== null;
+
+// A screenshot.take result with an image
+const isScreenshot = (value: unknown): value is { imageBase64: string } =>
+  isObject(value) && "imageBase64" in value && typeof value.imageBase64 === "string" && value.imageBase64 !== "";
+
+/**
+ * Wrap a client so that every call is written to the run log (level debug, failures warn).
+ * Screenshots and changed window trees (getWindowDetails) are saved as artifacts, neither of them under email redaction.
+ */
+export function createLoggingClient(client: SmoothOperatorClient, runLog: RunLog): SmoothOperatorClient {
+  // Waits poll the same window, only trees that changed are saved
+  const lastTrees = new Map<string, string>();
+
+  const saveArtifacts = (method: string, args: unknown[], result: unknown): { artifacts: string[]; message?: string } => {
+    if (method === "screenshot.take" && isScreenshot(result)) {
+      if (runLog.redacts("email")) {
+        return { artifacts: [], message: "screenshot not saved (email redaction)" };
+      }
+      return { artifacts: [runLog.saveArtifact("screenshot.jpg", Buffer.from(result.imageBase64, "base64"))] };
+    }
+    if (method === "system.getWindowDetails" && isObject(result)) {
+      // The tree can hold the email before a source has read it, e.g. Outlook's reading pane
+      if (runLog.redacts("email")) {
+        return { artifacts: [] };
+      }
+      const windowId = String(args[0]);
+      const json = JSON.stringify(result);
+      if (lastTrees.get(windowId) !== json) {
+        lastTrees.set(windowId, json);
+        return { artifacts: [runLog.saveArtifact(`window-${windowId}.json`, result)] };
+      }
+    }
+    return { artifacts: [] };
+  };
+
+  const namespaces = new Map<string, object>();
+  const wrapNamespace = (name: string, target: object) => new Proxy(target, {
+    get(namespace, property, receiver) {
+      const value = Reflect.get(namespace, property, receiver);
+      if (typeof value !== "function" || typeof property !== "string") {
+        return value;
+      }
+      const method = `${name}.${property}`;
+      return async (...args: unknown[]) => {
+        const startedAt = Date.now();
+        try {
+          const result = await value.apply(namespace, args);
+          const failed = result?.success === false;
+          const { artifacts, message } = saveArtifacts(method, args, result);
+          runLog.log({
+            level: failed ? "warn" : artifacts.length > 0 ? "info" : "debug",
+            type: "call",
+            step: method,
+            args,
+            durationMs: Date.now() - startedAt,
+            outcome: failed ? "failed" : "succeeded",
+            message: failed ? result.message : message,
+            artifacts: artifacts.length > 0 ? artifacts : undefined,
+          });
+          return result;
+        } catch (error) {
+          runLog.log({
+            level: "warn",
+            type: "call",
+            step: method,
+            args,
+            durationMs: Date.now() - startedAt,
+            outcome: "failed",
+            message: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+      };
+    },
+  });
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property === "string" && value !== null && typeof value === "object") {
+        if (!namespaces.has(property)) {
+          namespaces.set(property, wrapNamespace(property, value));
+        }
+        return namespaces.get(property);
+      }
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Wrap a language model so that every prompt, its images and the answer are saved as artifacts
+ */
+export function createLoggingLlmProvider(llm: LlmProvider, runLog: RunLog): LlmProvider {
+  return {
+    name: llm.name,
+    async complete(request: LlmRequest) {
+      const startedAt = Date.now();
+      const artifacts = [runLog.saveArtifact(`${request.task}-prompt.txt`, request.prompt)];
+      if (!runLog.redacts("email")) {
+        for (const image of request.images ?? []) {
+          const extension = image.mimeType === "image/png" ? "png" : "jpg";
+          artifacts.push(runLog.saveArtifact(`${request.task}-image.${extension}`, Buffer.from(image.base64, "base64")));
+        }
+      }
+      try {
+        const answer = await llm.complete(request);
+        artifacts.push(runLog.saveArtifact(`${request.task}-response.txt`, answer));
+        runLog.log({ level: "info", type: "llm", step: request.task, durationMs: Date.now() - startedAt, outcome: "succeeded", message: llm.name, artifacts });
+        return answer;
+      } catch (error) {
+        runLog.log({
+          level: "warn",
+          type: "llm",
+          step: request.task,
+          durationMs: Date.now() - startedAt,
+          outcome: "failed",
+          message: error instanceof Error ? error.message : String(error),
+          artifacts,
+        });
+        throw error;
+      }
+    },
+  };
+}
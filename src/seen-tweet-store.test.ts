@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openSeenTweetStore } from './seen-tweet-store';
+
+test("seen tweets are kept across runs and forgotten after the retention", () => {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "seen-")), "seen-tweets.json");
+  openSeenTweetStore(filePath).add([{ key: "tweet:a", source: "@kimmonismus", url: "https://x.com/kimmonismus/status/1" }]);
+
+  const store = openSeenTweetStore(filePath);
+  assert.equal(store.has("tweet:a"), true);
+  assert.equal(store.has("tweet:b"), false);
+
+  // A record from 31 days ago is dropped the next time the store is written
+  const content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  content.tweets["tweet:a"].seenAt = new Date(Date.now() - 31 * 86400000).toISOString();
+  fs.writeFileSync(filePath, JSON.stringify(content));
+  openSeenTweetStore(filePath).add([{ key: "tweet:b", source: "@ai_for_success", url: "https://x.com/ai_for_success" }]);
+  assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(filePath, "utf8")).tweets), ["tweet:b"]);
+  fs.rmSync(path.dirname(filePath), { recursive: true });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A tweet or feed entry to record, see tweetKey and the news items of the checker
+ */
+export interface SeenItem {
+  /** Stable key of the item, e.g. from tweetKey */
+  key: string;
+  /** "@account" or the title of the feed */
+  source: string;
+  url: string;
+}
+
+/**
+ * Information stored for every item that was sent to the language model
+ */
+interface SeenRecord {
+  source: string;
+  /** ISO timestamp of when the tweet was first sent to the language model */
+  seenAt: string;
+  url: string;
+}
+
+// Format of the store file
+interface SeenTweetFile {
+  version: 1;
+  tweets: Record<string, SeenRecord>;
+}
+
+/**
+ * Persistent record of the tweets and feed entries that were already summarized, so that later runs only send new ones
+ */
+export interface SeenTweetStore {
+  has(key: string): boolean;
+  /** Record the items and write the store file immediately */
+  add(items: SeenItem[]): void;
+}
+
+/** Default location of the store file, relative to the working directory */
+export const DEFAULT_SEEN_TWEETS_PATH = "seen-tweets.json";
+
+/** Items are forgotten after this many days, they are too old to show up again */
+export const SEEN_TWEET_RETENTION_DAYS = 30;
+
+/**
+ * Load the store from filePath (a missing file is an empty store)
+ */
+export function openSeenTweetStore(filePath: string = DEFAULT_SEEN_TWEETS_PATH): SeenTweetStore {
+  let store: SeenTweetFile = { version: 1, tweets: {} };
+  if (fs.existsSync(filePath)) {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf8")) as SeenTweetFile;
+    if (content.version !== 1 || typeof content.tweets !== "object") {
+      throw new Error(`Unsupported seen tweets file format in ${filePath}`);
+    }
+    store = content;
+  }
+
+  const save = () => {
+    const cutoff = Date.now() - SEEN_TWEET_RETENTION_DAYS * 86400000;
+    for (const [key, tweet] of Object.entries(store.tweets)) {
+      if (Date.parse(tweet.seenAt) < cutoff) {
+        delete store.tweets[key];
+      }
+    }
+    // Write to a temporary file first so an interrupted run never leaves a truncated store behind
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(store, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return {
+    has(key: string) {
+      return key in store.tweets;
+    },
+    add(items: SeenItem[]) {
+      const seenAt = new Date().toISOString();
+      for (const item of items) {
+        store.tweets[item.key] = { source: item.source, seenAt, url: item.url };
+      }
+      save();
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AutomationNode, walkTree, findNodeById } from './automation-tree';
+
+/**
+ * What is remembered about a cached element, enough to find it again if its ID changed
+ */
+interface CachedElement {
+  id: string;
+  controlType?: string;
+  name?: string;
+}
+
+interface SelectorCacheEntry {
+  windowTitle: string;
+  fingerprint: string;
+  updatedAt: string;
+  elements: Record<string, CachedElement>;
+}
+
+// Format of the cache file
+interface SelectorCacheFile {
+  version: 1;
+  entries: Record<string, SelectorCacheEntry>;
+}
+
+/** A mapping of names to element IDs, e.g. ErpElementIds */
+type ElementIds<T> = { [K in keyof T]: string };
+
+/**
+ * Persistent cache of element IDs per window, so a language model does not have to look them up on every run
+ */
+export interface SelectorCache {
+  /** Return the cached IDs for the window if every one of them still resolves in the live tree */
+  lookup<T extends ElementIds<T>>(windowTitle: string, root: AutomationNode): T | null;
+  /** Remember the IDs for the window; returns false (and stores nothing) if an ID is not in the tree */
+  store<T extends ElementIds<T>>(windowTitle: string, root: AutomationNode, elementIds: T): boolean;
+}
+
+/** Default location of the cache file, relative to the working directory */
+export const DEFAULT_SELECTOR_CACHE_PATH = "selector-cache.json";
+
+// Control types that make up the structure of a form; their content (e.g. grid rows) is ignored
+const structuralControlTypes = ["Edit", "Button", "ComboBox", "CheckBox", "RadioButton", "Text", "Tab", "TabItem", "Menu", "MenuItem"];
+
+/**
+ * Fingerprint of the window structure: its interactive controls and labels, without their current values.
+ * Stays the same while the window layout does not change.
+ */
+export function fingerprintTree(root: AutomationNode): string {
+  const parts: string[] = [];
+  walkTree(root, node => {
+    if (node.controlType && structuralControlTypes.includes(node.controlType)) {
+      parts.push(`${node.controlType}:${node.name ?? ""}`);
+    }
+    // Grid and list rows change with the data, not with the layout
+    return !/^(DataGrid|Table|List)$/.test(node.controlType ?? "");
+  });
+  return crypto.createHash("sha256").update(parts.sort().join("\n")).digest("hex");
+}
+
+/**
+ * Find the element in the live tree: by its ID if it still has the same type and name,
+ * otherwise by a unique type and name (element IDs can change between application starts)
+ */
+function resolveElement(root: AutomationNode, element: CachedElement): string | null {
+  const node = findNodeById(root, element.id);
+  if (node && node.controlType === element.controlType && node.name === element.name) {
+    return element.id;
+  }
+  if (!element.name) {
+    return null;
+  }
+  const matches: AutomationNode[] = [];
+  walkTree(root, candidate => {
+    if (candidate.id && candidate.controlType === element.controlType && candidate.name === element.name) {
+      matches.push(candidate);
+    }
+  });
+  return matches.length === 1 ? matches[0].id ?? null : null;
+}
+
+/**
+ * Load the selector cache from filePath (a missing file is an empty cache)
+ */
+export function openSelectorCache(filePath: string = DEFAULT_SELECTOR_CACHE_PATH): SelectorCache {
+  let cache: SelectorCacheFile = { version: 1, entries: {} };
+  if (fs.existsSync(filePath)) {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf8")) as SelectorCacheFile;
+    if (content.version === 1 && typeof content.entries === "object") {
+      cache = content;
+    } else {
+      console.warn(`Ignoring selector cache ${filePath} with unsupported format.`);
+    }
+  }
+
+  const save = () => {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(cache, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const cacheKey = (windowTitle: string, fingerprint: string) => `${windowTitle}|${fingerprint}`;
+
+  return {
+    lookup<T extends ElementIds<T>>(windowTitle: string, root: AutomationNode): T | null {
+      const entry = cache.entries[cacheKey(windowTitle, fingerprintTree(root))];
+      if (!entry) {
+        return null;
+      }
+      const elementIds: Record<string, string> = {};
+      for (const [key, element] of Object.entries(entry.elements)) {
+        const id = resolveElement(root, element);
+        if (!id) {
+          console.log(`Cached element ${key} (${element.controlType} "${element.name}") no longer resolves.`);
+          return null;
+        }
+        elementIds[key] = id;
+      }
+      return elementIds as T;
+    },
+    store<T extends ElementIds<T>>(windowTitle: string, root: AutomationNode, elementIds: T): boolean {
+      const elements: Record<string, CachedElement> = {};
+      for (const [key, id] of Object.entries<string>(elementIds)) {
+        const node = findNodeById(root, id);
+        if (!node) {
+          console.warn(`Element ${key} with ID ${id} is not in the window, not caching the element IDs.`);
+          return false;
+        }
+        elements[key] = { id, controlType: node.controlType, name: node.name };
+      }
+      const fingerprint = fingerprintTree(root);
+      cache.entries[cacheKey(windowTitle, fingerprint)] = { windowTitle, fingerprint, updatedAt: new Date().toISOString(), elements };
+      save();
+      return true;
+    },
+  };
+}
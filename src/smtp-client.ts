@@ -0,0 +1,176 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import * as os from 'os';
+
+/**
+ * Connection settings for an SMTP server
+ */
+export interface SmtpOptions {
+  host: string;
+  /** Defaults to 465 with TLS and 587 without */
+  port?: number;
+  /**
+   * Use an implicit TLS connection (default: true). Without it, the connection is upgraded with
+   * STARTTLS if the server offers it; plain connections are for local test servers only.
+   */
+  secure?: boolean;
+  /** Login user; no login without it */
+  user?: string;
+  password?: string;
+  /** Sender address */
+  from: string;
+}
+
+/**
+ * A plain text email
+ */
+export interface SmtpMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+// A complete, possibly multi-line reply, e.g. 250 with the EHLO extensions
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Header value with non-ASCII characters as RFC 2047 encoded word
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+/**
+ * Minimal SMTP connection that runs one command at a time.
+ * Supports just enough of RFC 5321 to log in and send a message.
+ */
+async function openSmtpConnection(options: SmtpOptions) {
+  const secure = options.secure ?? true;
+  const port = options.port ?? (secure ? 465 : 587);
+
+  let socket!: net.Socket;
+  let buffer = "";
+  let replyLines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let notify: (() => void) | null = null;
+
+  const wake = () => {
+    const waiting = notify;
+    notify = null;
+    waiting?.();
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      replyLines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines: replyLines });
+        replyLines = [];
+      }
+    }
+    wake();
+  };
+  const onError = (error: Error) => {
+    failure = failure ?? error;
+    wake();
+  };
+  const attach = (target: net.Socket) => {
+    socket = target;
+    target.on("data", onData);
+    target.on("error", onError);
+    target.on("close", () => onError(new Error("SMTP connection closed")));
+    target.setTimeout(30000, () => target.destroy(new Error("SMTP connection timed out")));
+  };
+
+  const nextReply = async (): Promise<SmtpReply> => {
+    while (replies.length === 0) {
+      if (failure) {
+        throw failure;
+      }
+      await new Promise<void>(resolve => { notify = resolve; });
+    }
+    return replies.shift()!;
+  };
+
+  // Send a command (or only read the next reply) and check the class of the reply code, e.g. 2xx for 250
+  const command = async (line: string | null, expected: number, logLine = line): Promise<SmtpReply> => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await nextReply();
+    if (Math.floor(reply.code / 100) !== Math.floor(expected / 100)) {
+      throw new Error(`SMTP ${logLine ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+
+  attach(secure
+    ? tls.connect({ host: options.host, port, servername: options.host })
+    : net.connect({ host: options.host, port }));
+  await command(null, 220);
+  let hello = await command(`EHLO ${os.hostname()}`, 250);
+
+  if (!secure && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+    await command("STARTTLS", 220);
+    const plain = socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+    const upgraded = tls.connect({ socket: plain, servername: options.host });
+    attach(upgraded);
+    await new Promise<void>((resolve, reject) => {
+      upgraded.once("secureConnect", resolve);
+      upgraded.once("error", reject);
+    });
+    hello = await command(`EHLO ${os.hostname()}`, 250);
+  }
+
+  return {
+    command,
+    close() {
+      socket.removeAllListeners("close");
+      socket.on("error", () => { /* ignore errors while closing */ });
+      socket.end();
+    },
+  };
+}
+
+/**
+ * Send a plain text email
+ */
+export async function sendSmtpMail(options: SmtpOptions, message: SmtpMessage): Promise<void> {
+  const connection = await openSmtpConnection(options);
+  try {
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ""}`, "utf8").toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, 235, "AUTH PLAIN");
+    }
+    await connection.command(`MAIL FROM:<${options.from}>`, 250);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, 250);
+    }
+    await connection.command("DATA", 354);
+
+    const headers = [
+      `From: ${options.from}`,
+      `To: ${message.to.join(", ")}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString().replace("GMT", "+0000")}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+    ];
+    // Lines starting with a dot are escaped, a single dot ends the message
+    const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+    await connection.command(`${headers.join("\r\n")}\r\n\r\n${body}\r\n.`, 250, "message");
+
+    await connection.command("QUIT", 221).catch(() => { /* the server may close before answering */ });
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createStepRunner, classifyError, StepError, StepOutcome } from './step-runner';
+import { ElementNotFoundError } from './tree-query';
+import { WaitTimeoutError } from './wait-for';
+import { ActionBlockedError } from './action-guard';
+
+// An action that throws the errors in turn, then succeeds
+function failing(...errors: unknown[]) {
+  let calls = 0;
+  const action = async () => {
+    if (calls < errors.length) {
+      throw errors[calls++];
+    }
+    calls++;
+    return "done";
+  };
+  return { action, calls: () => calls };
+}
+
+const networkError = () => Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+test("errors are classified by type, HTTP status, error code and message", () => {
+  assert.equal(classifyError(new ElementNotFoundError('Button[name="Save"]')), "element-not-found");
+  assert.equal(classifyError(new WaitTimeoutError("the window", 1000)), "transient");
+  assert.equal(classifyError(new ActionBlockedError("Refused", "submit")), "fatal");
+  assert.equal(classifyError(Object.assign(new Error("Unauthorized"), { status: 401 })), "auth");
+  assert.equal(classifyError(Object.assign(new Error("Too Many Requests"), { status: 429 })), "transient");
+  assert.equal(classifyError(Object.assign(new Error("Bad Gateway"), { status: 502 })), "transient");
+  assert.equal(classifyError(Object.assign(new Error("Bad Request"), { status: 400 })), "fatal");
+  assert.equal(classifyError(networkError()), "transient");
+  assert.equal(classifyError(new Error("Incorrect API key provided")), "auth");
+  assert.equal(classifyError(new Error("Could not find the element")), "element-not-found");
+  assert.equal(classifyError("rate limit reached"), "transient");
+  assert.equal(classifyError(new TypeError("x is undefined")), "fatal");
+  assert.equal(classifyError(new StepError("save", "auth", 1, new Error("401"))), "auth");
+});
+
+test("transient errors are retried with a growing pause", async t => {
+  t.mock.method(console, "warn", () => {});
+  const pauses: number[] = [];
+  const outcomes: StepOutcome[] = [];
+  const steps = createStepRunner({ maxAttempts: 4, initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 500 },
+    outcome => outcomes.push(outcome), async ms => pauses.push(ms));
+  const { action, calls } = failing(networkError(), networkError(), networkError());
+  assert.equal(await steps.run("click", action), "done");
+  assert.equal(calls(), 4);
+  assert.deepEqual(pauses, [100, 300, 500]);
+  assert.deepEqual(outcomes.map(({ name, status, attempts }) => ({ name, status, attempts })), [{ name: "click", status: "succeeded", attempts: 4 }]);
+  assert.equal(steps.outcomes.length, 1);
+});
+
+test("a step fails for good after maxAttempts", async t => {
+  t.mock.method(console, "warn", () => {});
+  const pauses: number[] = [];
+  const steps = createStepRunner({ maxAttempts: 2, initialDelayMs: 10 }, undefined, async ms => pauses.push(ms));
+  const { action, calls } = failing(networkError(), networkError(), networkError());
+  await assert.rejects(steps.run("navigate", action),
+    (error: unknown) => error instanceof StepError && error.kind === "transient" && error.attempts === 2 && error.step === "navigate");
+  assert.equal(calls(), 2);
+  assert.deepEqual(pauses, [10]);
+  assert.deepEqual(steps.outcomes.map(outcome => [outcome.status, outcome.errorKind, outcome.error]), [["failed", "transient", "socket hang up"]]);
+
+  // The options of a step win over the defaults of the runner
+  const once = failing(networkError());
+  await assert.rejects(steps.run("save", once.action, { maxAttempts: 1 }), StepError);
+  assert.equal(once.calls(), 1);
+});
+
+test("auth and fatal errors are not retried", async t => {
+  t.mock.method(console, "warn", () => {});
+  const pauses: number[] = [];
+  const steps = createStepRunner({ maxAttempts: 5 }, undefined, async ms => pauses.push(ms));
+
+  const auth = failing(Object.assign(new Error("Invalid API key"), { status: 401 }));
+  await assert.rejects(steps.run("ask model", auth.action), (error: unknown) => error instanceof StepError && error.kind === "auth");
+  assert.equal(auth.calls(), 1);
+
+  const fatal = failing(new TypeError("x is undefined"));
+  await assert.rejects(steps.run("read", fatal.action), (error: unknown) => error instanceof StepError && error.kind === "fatal");
+  assert.equal(fatal.calls(), 1);
+
+  // A result with success: false counts as a failure
+  await assert.rejects(steps.run("invoke", async () => ({ success: false, message: "element is disabled" })),
+    /Step "invoke" failed after 1 attempt\(s\) \(fatal\): element is disabled/);
+  assert.deepEqual(pauses, []);
+});
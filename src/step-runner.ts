@@ -0,0 +1,198 @@
+import { ElementNotFoundError, AmbiguousElementError } from './tree-query';
+import { WaitTimeoutError } from './wait-for';
+import { ActionBlockedError } from './action-guard';
+
+/**
+ * What went wrong in a step:
+ * - transient: network problems, timeouts, rate limits, server errors; retrying can help
+ * - element-not-found: the UI element to click or fill is not there
+ * - auth: missing or invalid API key
+ * - fatal: anything else
+ */
+export type ErrorKind = "transient" | "element-not-found" | "auth" | "fatal";
+
+/**
+ * When and how often a failed step is retried
+ */
+export interface RetryOptions {
+  /** Attempts including the first one */
+  maxAttempts: number;
+  /** Pause before the first retry */
+  initialDelayMs: number;
+  /** The pause is multiplied by this factor before each further retry */
+  backoffFactor: number;
+  maxDelayMs: number;
+  /** Error kinds worth retrying */
+  retryOn: ErrorKind[];
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 10000,
+  retryOn: ["transient"],
+};
+
+/**
+ * Recorded result of a step
+ */
+export interface StepOutcome {
+  name: string;
+  status: "succeeded" | "failed";
+  attempts: number;
+  durationMs: number;
+  errorKind?: ErrorKind;
+  error?: string;
+}
+
+/**
+ * Thrown when an action reports failure in its result ({ success: false, message }) instead of throwing
+ */
+export class ActionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionFailedError";
+  }
+}
+
+/**
+ * Thrown by StepRunner.run when a step failed for good
+ */
+export class StepError extends Error {
+  constructor(
+    public readonly step: string,
+    public readonly kind: ErrorKind,
+    public readonly attempts: number,
+    public readonly cause: unknown
+  ) {
+    super(`Step "${step}" failed after ${attempts} attempt(s) (${kind}): ${cause instanceof Error ? cause.message : cause}`);
+    this.name = "StepError";
+  }
+}
+
+// Node.js network error codes that usually go away on their own
+const transientErrorCodes = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "ENOTFOUND", "ESOCKETTIMEDOUT"];
+
+/**
+ * Classify an error thrown by an automation action or a language model call
+ */
+export function classifyError(error: unknown): ErrorKind {
+  if (error instanceof StepError) {
+    return error.kind;
+  }
+  if (error instanceof ElementNotFoundError || error instanceof AmbiguousElementError) {
+    return "element-not-found";
+  }
+  if (error instanceof WaitTimeoutError) {
+    return "transient";
+  }
+  // Refused by the safety policy, see createGuardedClient; a retry would be refused again
+  if (error instanceof ActionBlockedError) {
+    return "fatal";
+  }
+
+  // HTTP errors, e.g. from the OpenAI client, carry the status code
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  if (typeof status === "number") {
+    if (status === 401 || status === 403) {
+      return "auth";
+    }
+    return status === 408 || status === 409 || status === 429 || status >= 500 ? "transient" : "fatal";
+  }
+  if (typeof code === "string" && transientErrorCodes.includes(code)) {
+    return "transient";
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/unauthori[sz]ed|api key|forbidden|authentication/i.test(message)) {
+    return "auth";
+  }
+  if (/not found|could not find|no element|no such element/i.test(message)) {
+    return "element-not-found";
+  }
+  if (/time[d ]?out|timed out|temporar|unavailable|rate limit|too many requests|socket hang up|network/i.test(message)) {
+    return "transient";
+  }
+  return "fatal";
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs automation actions as named steps with retries and records their outcomes
+ */
+export interface StepRunner {
+  /**
+   * Run action, retrying it according to the retry options, and return its result.
+   * A result with success: false counts as a failure. Throws a StepError if the step failed for good.
+   */
+  run<T>(name: string, action: () => Promise<T>, options?: Partial<RetryOptions>): Promise<T>;
+  /** Outcomes of all steps run so far, in order */
+  readonly outcomes: StepOutcome[];
+}
+
+/**
+ * Create a step runner; defaults override DEFAULT_RETRY_OPTIONS for all steps.
+ * onOutcome is called for every finished step, e.g. RunLog.recordStep.
+ * sleep makes the pauses between attempts, e.g. a fake one in tests.
+ */
+export function createStepRunner(
+  defaults: Partial<RetryOptions> = {},
+  onOutcome?: (outcome: StepOutcome) => void,
+  sleep: (ms: number) => Promise<unknown> = delay
+): StepRunner {
+  const outcomes: StepOutcome[] = [];
+  const record = (outcome: StepOutcome) => {
+    outcomes.push(outcome);
+    onOutcome?.(outcome);
+  };
+
+  return {
+    outcomes,
+    async run<T>(name: string, action: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+      const retry: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...defaults, ...options };
+      const startedAt = Date.now();
+      let nextDelayMs = retry.initialDelayMs;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await action();
+          const { success, message } = (result ?? {}) as { success?: unknown; message?: unknown };
+          if (success === false) {
+            throw new ActionFailedError(typeof message === "string" && message ? message : `${name} reported failure`);
+          }
+          record({ name, status: "succeeded", attempts: attempt, durationMs: Date.now() - startedAt });
+          return result;
+        } catch (error) {
+          const kind = classifyError(error);
+          const message = error instanceof Error ? error.message : String(error);
+          if (attempt < retry.maxAttempts && retry.retryOn.includes(kind)) {
+            console.warn(`Step "${name}" failed (${kind}: ${message}), retrying in ${nextDelayMs} ms (attempt ${attempt + 1} of ${retry.maxAttempts})...`);
+            await sleep(nextDelayMs);
+            nextDelayMs = Math.min(retry.maxDelayMs, nextDelayMs * retry.backoffFactor);
+            continue;
+          }
+          record({ name, status: "failed", attempts: attempt, durationMs: Date.now() - startedAt, errorKind: kind, error: message });
+          throw new StepError(name, kind, attempt, error);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Print the steps that needed retries or failed
+ */
+export function printStepSummary(outcomes: StepOutcome[]) {
+  const notable = outcomes.filter(outcome => outcome.status === "failed" || outcome.attempts > 1);
+  if (notable.length === 0) {
+    return;
+  }
+  console.log("\n--- Steps with Problems ---");
+  for (const outcome of notable) {
+    const error = outcome.error ? ` (${outcome.errorKind}: ${outcome.error})` : "";
+    console.log(`${outcome.status.padEnd(9)} ${outcome.name}, ${outcome.attempts} attempt(s)${error}`);
+  }
+  console.log("---------------------------");
+}
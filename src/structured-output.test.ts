@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { completeStructured, defineStructuredOutput, describeStructuredOutput, StructuredOutputError } from './structured-output';
+import { LlmProvider, LlmRequest } from './llm-provider';
+
+const ARTICLE_OUTPUT = defineStructuredOutput("article", {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "name of the article" },
+    quantity: { type: "integer" },
+    price: { type: "number" },
+  },
+}, value => value as { name: string; quantity: number; price: number });
+
+// A model that gives the answers in turn and keeps the requests
+function createStubProvider(...answers: string[]) {
+  const requests: LlmRequest[] = [];
+  const llm: LlmProvider = {
+    name: "stub model",
+    async complete(request) {
+      requests.push(request);
+      const answer = answers.shift();
+      if (answer === undefined) {
+        throw new Error("The stub model has no answer left");
+      }
+      return answer;
+    },
+  };
+  return { llm, requests };
+}
+
+test("a valid answer is returned, the JSON form is added to the end of the prompt", async () => {
+  const { llm, requests } = createStubProvider('```json\n{"name": "Mouse", "quantity": 2, "price": 10.5}\n```');
+  const article = await completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article." });
+  assert.deepEqual(article, { name: "Mouse", quantity: 2, price: 10.5 });
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].json, true);
+  assert.equal(requests[0].prompt, `Extract the article.\n\n${describeStructuredOutput(ARTICLE_OUTPUT)}`);
+});
+
+test("the JSON form replaces {{format}}", async () => {
+  const { llm, requests } = createStubProvider('{"name": "Mouse", "quantity": 2, "price": 10}');
+  await completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article. {{format}}\n\nEmail:\n2 x Mouse" });
+  assert.equal(requests[0].prompt, `Extract the article. ${describeStructuredOutput(ARTICLE_OUTPUT)}\n\nEmail:\n2 x Mouse`);
+  assert.ok(requests[0].prompt.includes('"name": "<name of the article>"'));
+});
+
+test("numbers written as in emails are taken without asking again", async () => {
+  const { llm, requests } = createStubProvider('{"name": "Router", "quantity": "5 units", "price": "120,00"}');
+  const article = await completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article." });
+  assert.deepEqual(article, { name: "Router", quantity: 5, price: 120 });
+  assert.equal(requests.length, 1);
+});
+
+test("an answer that does not match the schema is sent back with its problems", async t => {
+  t.mock.method(console, "warn", () => {});
+  const invalid = '{"name": "Mouse", "quantity": 1.5}';
+  const { llm, requests } = createStubProvider(invalid, '{"name": "Mouse", "quantity": 2, "price": 10}');
+  const article = await completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article." });
+  assert.deepEqual(article, { name: "Mouse", quantity: 2, price: 10 });
+  assert.equal(requests.length, 2);
+  assert.ok(requests[1].prompt.startsWith(requests[0].prompt));
+  assert.ok(requests[1].prompt.endsWith([
+    `Your previous answer was:\n${invalid}`,
+    "It has these problems:\n- answer.price: is required\n- answer.quantity: must be an integer, got 1.5\nAnswer again with the complete, corrected JSON.",
+  ].join("\n\n")));
+});
+
+test("after the last repair a StructuredOutputError of kind schema is thrown", async t => {
+  t.mock.method(console, "warn", () => {});
+  const { llm, requests } = createStubProvider('{"name": "Mouse"}', '{"name": "Mouse", "quantity": "two", "price": 10}');
+  await assert.rejects(completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article." }, { maxRepairs: 1 }),
+    (error: unknown) => error instanceof StructuredOutputError
+      && error.kind === "schema"
+      && error.attempts === 2
+      && error.answer === '{"name": "Mouse", "quantity": "two", "price": 10}'
+      && (error.value as { quantity: unknown }).quantity === "two"
+      && error.problems.join() === 'answer.quantity: must be an integer, got "two"');
+  assert.equal(requests.length, 2);
+});
+
+test("an answer without JSON is an error of kind invalid-json", async () => {
+  const { llm } = createStubProvider("Sorry, I cannot read this email.");
+  await assert.rejects(completeStructured(llm, ARTICLE_OUTPUT, { task: "order-extraction", prompt: "Extract the article." }, { maxRepairs: 0 }),
+    (error: unknown) => error instanceof StructuredOutputError
+      && error.kind === "invalid-json"
+      && error.value === undefined
+      && error.attempts === 1
+      && /^answer: no valid JSON/.test(error.problems[0]));
+});
@@ -0,0 +1,291 @@
+import { LlmProvider, LlmRequest } from './llm-provider';
+import type { StepRunner } from './step-runner';
+import { parseLooseNumber } from './order-validation';
+
+/**
+ * The part of JSON Schema used to describe the answers of the language model
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  /** Allowed values of a string or number */
+  enum?: Array<string | number>;
+  /** Example values; the first one is shown in the prompt instead of a generated one */
+  examples?: unknown[];
+  /** Element schema of an array */
+  items?: JsonSchema;
+  /** Fields of an object */
+  properties?: Record<string, JsonSchema>;
+  /** Fields of an object that must be present (default: all) */
+  required?: string[];
+}
+
+/**
+ * A JSON answer the language model is asked for: its schema, and how the validated JSON becomes the typed result
+ */
+export interface StructuredOutput<T> {
+  /** Used in log output and errors, e.g. "order" */
+  name: string;
+  schema: JsonSchema;
+  /** Turn the JSON that matches the schema into the result (default: use it as is) */
+  convert?: (value: unknown) => T;
+}
+
+/**
+ * A problem found in a schema by validateJsonSchema, e.g. { path: "properties.severity.type", message: "..." }
+ */
+export interface JsonSchemaError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Options of completeStructured
+ */
+export interface StructuredOutputOptions<T> {
+  /** Answers that do not match the schema are sent back for correction up to this many times (default: DEFAULT_MAX_REPAIRS) */
+  maxRepairs?: number;
+  /** Run every call of the model as a step with retries, see createStepRunner */
+  steps?: StepRunner;
+  /** Name of the step (default: "ask for <name of the output>") */
+  stepName?: string;
+  /** Checks beyond the schema, e.g. that element IDs exist in the tree; returns the problems */
+  check?: (value: T) => string[];
+}
+
+/**
+ * Thrown by completeStructured when the model does not give a valid answer after all repairs
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly output: string,
+    /** invalid-json: no JSON at all, schema: JSON that does not match the schema or the checks */
+    public readonly kind: "invalid-json" | "schema",
+    public readonly problems: string[],
+    /** The last answer of the model */
+    public readonly answer: string,
+    /** The JSON of the last answer, if it was JSON */
+    public readonly value: unknown,
+    public readonly attempts: number
+  ) {
+    super(`Invalid ${output} from the language model after ${attempts} attempt(s):\n  ${problems.join("\n  ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/** Corrections asked for when an answer does not match its schema */
+export const DEFAULT_MAX_REPAIRS = 2;
+
+const schemaTypes: Array<JsonSchema["type"]> = ["object", "array", "string", "number", "integer", "boolean"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Define a structured output; T is the type of the result
+ */
+export function defineStructuredOutput<T>(name: string, schema: JsonSchema, convert?: (value: unknown) => T): StructuredOutput<T> {
+  return { name, schema, convert };
+}
+
+/**
+ * Check a schema written by hand, e.g. in a config file. Returns all problems, not only the first.
+ */
+export function validateJsonSchema(schema: unknown, path = ""): JsonSchemaError[] {
+  const at = (key: string) => path ? `${path}.${key}` : key;
+  if (!isRecord(schema)) {
+    return [{ path, message: "must be a schema object with a type" }];
+  }
+  const errors: JsonSchemaError[] = [];
+  const { type, description, enum: values, examples, items, properties, required, ...rest } = schema;
+  if (!schemaTypes.includes(type as JsonSchema["type"])) {
+    errors.push({ path: at("type"), message: `must be one of ${schemaTypes.join(", ")}` });
+  }
+  if (description !== undefined && typeof description !== "string") {
+    errors.push({ path: at("description"), message: "must be a string" });
+  }
+  if (values !== undefined && (!Array.isArray(values) || values.some(value => typeof value !== "string" && typeof value !== "number"))) {
+    errors.push({ path: at("enum"), message: "must be a list of strings or numbers" });
+  }
+  if (examples !== undefined && !Array.isArray(examples)) {
+    errors.push({ path: at("examples"), message: "must be a list of values" });
+  }
+  for (const key of Object.keys(rest)) {
+    errors.push({ path: at(key), message: "unknown key, expected type, description, enum, examples, items, properties and required" });
+  }
+  if (type === "array") {
+    errors.push(...validateJsonSchema(items, at("items")));
+  }
+  if (type === "object") {
+    if (!isRecord(properties)) {
+      errors.push({ path: at("properties"), message: "must be a map of field names to schemas" });
+    } else {
+      for (const [name, property] of Object.entries(properties)) {
+        errors.push(...validateJsonSchema(property, at(`properties.${name}`)));
+      }
+      if (required !== undefined && (!Array.isArray(required) || required.some(name => !(String(name) in properties)))) {
+        errors.push({ path: at("required"), message: "must be a list of fields of properties" });
+      }
+    }
+  }
+  return errors;
+}
+
+// Example value of a schema for the prompt, e.g. "<name of the customer>" for a string with a description
+function exampleValue(schema: JsonSchema): unknown {
+  if (schema.examples && schema.examples.length > 0) {
+    return schema.examples[0];
+  }
+  if (schema.enum) {
+    return schema.enum.join(" | ");
+  }
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, exampleValue(property)]));
+    case "array":
+      return [exampleValue(schema.items!)];
+    case "string":
+      return schema.description ? `<${schema.description}>` : "text";
+    case "boolean":
+      return false;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The part of the prompt that tells the model how to answer, derived from the schema
+ */
+export function describeStructuredOutput(output: StructuredOutput<unknown>): string {
+  return `Answer with a JSON in this form:\n${JSON.stringify(exampleValue(output.schema), null, 4)}`;
+}
+
+/**
+ * Problems of value against schema, e.g. "answer.severity: must be one of low, high". An empty list means valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = "answer"): string[] {
+  const matchesType = schema.type === "array" ? Array.isArray(value)
+    : schema.type === "object" ? isRecord(value)
+    : schema.type === "integer" ? Number.isInteger(value)
+    : schema.type === "number" ? typeof value === "number" && Number.isFinite(value)
+    : typeof value === schema.type;
+  if (!matchesType) {
+    const article = schema.type === "array" || schema.type === "object" || schema.type === "integer" ? "an" : "a";
+    return [`${path}: must be ${article} ${schema.type}, got ${JSON.stringify(value) ?? "nothing"}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path}: must be one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}`];
+  }
+  if (schema.type === "array") {
+    return ([] as string[]).concat(...(value as unknown[]).map((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+  if (schema.type === "object") {
+    const properties = schema.properties ?? {};
+    const record = value as Record<string, unknown>;
+    const missing = (schema.required ?? Object.keys(properties)).filter(name => record[name] === undefined || record[name] === null);
+    return [
+      ...missing.map(name => `${path}.${name}: is required`),
+      ...([] as string[]).concat(...Object.entries(properties)
+        .filter(([name]) => record[name] !== undefined && record[name] !== null)
+        .map(([name, property]) => validateAgainstSchema(record[name], property, `${path}.${name}`))),
+    ];
+  }
+  return [];
+}
+
+/**
+ * Parse the JSON in an answer of the model; tolerates code fences, text around the JSON, comments copied
+ * from the prompt and trailing commas. Throws a SyntaxError if there is no JSON.
+ */
+export function parseJsonAnswer(answer: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(answer);
+  const text = (fenced ? fenced[1] : answer).trim();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+    if (start === -1 || end < start) {
+      throw error;
+    }
+    const cleaned = text.slice(start, end + 1)
+      .replace(/^\s*\/\/.*$/gm, "")
+      .replace(/,(\s*[}\]])/g, "$1");
+    return JSON.parse(cleaned);
+  }
+}
+
+/**
+ * Fix what the model often gets slightly wrong without asking it again: numbers as strings as they appear
+ * in emails ("12.50", "5 units", "120,00", see parseLooseNumber) and strings as numbers. Returns a corrected copy.
+ */
+function coerceToSchema(value: unknown, schema: JsonSchema): unknown {
+  if ((schema.type === "number" || schema.type === "integer") && typeof value === "string") {
+    return parseLooseNumber(value) ?? value;
+  }
+  if (schema.type === "string" && typeof value === "number") {
+    return String(value);
+  }
+  if (schema.type === "array" && Array.isArray(value) && schema.items) {
+    return value.map(item => coerceToSchema(item, schema.items!));
+  }
+  if (schema.type === "object" && isRecord(value)) {
+    const properties = schema.properties ?? {};
+    return Object.fromEntries(Object.entries(value).map(([name, field]) =>
+      [name, properties[name] ? coerceToSchema(field, properties[name]) : field]));
+  }
+  return value;
+}
+
+/**
+ * Ask the model for a JSON answer of the form of output and return it typed. The JSON form is added to the
+ * prompt at {{format}}, or at the end. Answers that are no valid JSON or do not match the schema (or check)
+ * are sent back with their problems, up to maxRepairs times; then a StructuredOutputError is thrown.
+ * Errors of the model calls themselves (e.g. network, auth) are thrown as they are.
+ */
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  output: StructuredOutput<T>,
+  request: Omit<LlmRequest, "json">,
+  options: StructuredOutputOptions<T> = {}
+): Promise<T> {
+  const format = describeStructuredOutput(output);
+  const prompt = request.prompt.includes("{{format}}")
+    ? request.prompt.split("{{format}}").join(format)
+    : `${request.prompt}\n\n${format}`;
+  const maxAttempts = (options.maxRepairs ?? DEFAULT_MAX_REPAIRS) + 1;
+  const stepName = options.stepName ?? `ask for ${output.name}`;
+
+  let correction = "";
+  for (let attempt = 1; ; attempt++) {
+    const call = () => llm.complete({ ...request, json: true, prompt: prompt + correction });
+    const name = attempt === 1 ? stepName : `${stepName} (correction ${attempt - 1})`;
+    const answer = options.steps ? await options.steps.run(name, call) : await call();
+
+    let value: unknown;
+    let problems: string[];
+    let kind: "invalid-json" | "schema" = "schema";
+    try {
+      value = coerceToSchema(parseJsonAnswer(answer), output.schema);
+      problems = validateAgainstSchema(value, output.schema);
+    } catch (error) {
+      kind = "invalid-json";
+      problems = [`answer: no valid JSON (${error instanceof Error ? error.message : error})`];
+    }
+    let result: T | undefined;
+    if (problems.length === 0) {
+      result = output.convert ? output.convert(value) : value as T;
+      problems = options.check?.(result) ?? [];
+    }
+    if (problems.length === 0) {
+      return result!;
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new StructuredOutputError(output.name, kind, problems, answer, value, attempt);
+    }
+    console.warn(`The ${output.name} from ${llm.name} is invalid (${problems.length} problem(s)), asking for a correction...`);
+    correction = `\n\nYour previous answer was:\n${answer}\n\nIt has these problems:\n${problems.map(problem => `- ${problem}`).join("\n")}\n`
+      + "Answer again with the complete, corrected JSON.";
+  }
+}
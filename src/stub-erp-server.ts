@@ -0,0 +1,141 @@
+import * as http from 'http';
+import { Order } from './order';
+
+/**
+ * An order as saved by the stub ERP server
+ */
+export interface StubErpOrder extends Order {
+  id: string;
+  total: number;
+}
+
+/**
+ * A running stub ERP server, see startStubErpServer
+ */
+export interface StubErpServer {
+  /** URL orders are POSTed to, e.g. "http://127.0.0.1:8766/orders" */
+  url: string;
+  /** The orders saved so far */
+  orders: StubErpOrder[];
+  close(): Promise<void>;
+}
+
+/** Port of the stub ERP server */
+export const DEFAULT_STUB_ERP_PORT = 8766;
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+function isOrder(value: unknown): value is Order {
+  const order = value as Order;
+  return typeof value === "object" && value !== null
+    && typeof order.customerName === "string"
+    && Array.isArray(order.orderedArticles)
+    && order.orderedArticles.every(article => typeof article?.articleName === "string"
+      && typeof article.quantity === "number" && typeof article.pricePerUnit === "number");
+}
+
+/**
+ * Start a local ERP REST API for trying and testing the "rest" target without a real ERP:
+ * POST /orders saves an order and answers 201 with the saved order and its id, GET /orders lists the
+ * saved orders. A repeated Idempotency-Key answers with the order saved first. Orders are kept in memory only.
+ * Requires the bearer token if one is given. Port 0 picks a free port.
+ */
+export function startStubErpServer(port = DEFAULT_STUB_ERP_PORT, token?: string): Promise<StubErpServer> {
+  const orders: StubErpOrder[] = [];
+  const byIdempotencyKey = new Map<string, StubErpOrder>();
+
+  const server = http.createServer((request, response) => {
+    const pathname = new URL(request.url ?? "/", "http://localhost").pathname;
+    if (pathname !== "/orders") {
+      sendJson(response, 404, { error: "not found" });
+      return;
+    }
+    if (token && request.headers.authorization !== `Bearer ${token}`) {
+      sendJson(response, 401, { error: "missing or wrong bearer token" });
+      return;
+    }
+    if (request.method === "GET") {
+      sendJson(response, 200, orders);
+      return;
+    }
+    if (request.method !== "POST") {
+      sendJson(response, 405, { error: "method not allowed" }, { "Allow": "GET, POST" });
+      return;
+    }
+
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", chunk => body += chunk);
+    request.on("end", () => {
+      const key = request.headers["idempotency-key"];
+      const existing = typeof key === "string" ? byIdempotencyKey.get(key) : undefined;
+      if (existing) {
+        console.log(`Stub ERP: order ${existing.id} was sent again, not saved twice.`);
+        sendJson(response, 200, existing);
+        return;
+      }
+
+      let order: unknown;
+      try {
+        order = JSON.parse(body);
+      } catch {
+        sendJson(response, 400, { error: "body is no JSON" });
+        return;
+      }
+      if (!isOrder(order)) {
+        sendJson(response, 422, { error: "expected customerName and orderedArticles with articleName, quantity and pricePerUnit" });
+        return;
+      }
+
+      const saved: StubErpOrder = {
+        id: `SO-${String(orders.length + 1).padStart(5, "0")}`,
+        customerName: order.customerName,
+        orderedArticles: order.orderedArticles.map(({ articleName, quantity, pricePerUnit }) => ({ articleName, quantity, pricePerUnit })),
+        total: order.orderedArticles.reduce((sum, article) => sum + article.quantity * article.pricePerUnit, 0),
+      };
+      orders.push(saved);
+      if (typeof key === "string") {
+        byIdempotencyKey.set(key, saved);
+      }
+      console.log(`Stub ERP: saved order ${saved.id} for ${saved.customerName} (total ${saved.total.toFixed(2)}).`);
+      sendJson(response, 201, saved, { "Location": `/orders/${saved.id}` });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    // Only reachable from this machine
+    server.listen(port, "127.0.0.1", () => {
+      const address = server.address();
+      const actualPort = typeof address === "object" && address ? address.port : port;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}/orders`,
+        orders,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * Run the stub ERP server until Ctrl+C; requests have to send the bearer token, if one is given
+ */
+export async function runStubErpServer(port = DEFAULT_STUB_ERP_PORT, token?: string): Promise<boolean> {
+  let server: StubErpServer;
+  try {
+    server = await startStubErpServer(port, token);
+  } catch (error) {
+    console.error(`Failed to start the stub ERP server: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+  console.log(`Stub ERP server listening on ${server.url}, press Ctrl+C to stop.`);
+  console.log(`Enter orders with: erp --erp-target rest --erp-url ${server.url}`);
+
+  await new Promise<void>(resolve => process.once("SIGINT", () => resolve()));
+  console.log(`\nStopping the stub ERP server (${server.orders.length} orders received)...`);
+  await server.close();
+  return true;
+}
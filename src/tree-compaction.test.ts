@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compactTree, formatCompactionStats, estimateTokens } from './tree-compaction';
+import { AutomationNode } from './automation-tree';
+
+// getWindowDetails of the Mini ERP Mock with an image, an offscreen and a disabled button
+const erpWindow: AutomationNode = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "fixtures", "erp-window.tree.json"), "utf8"));
+
+test("invisible, disabled and decorative elements are left out", () => {
+  const tree = compactTree(erpWindow);
+  const lines = tree.text.split("\n");
+  assert.equal(lines[0], 'Window "Mini ERP Mock - ERP system" id=42.1050');
+  assert.ok(lines.includes('      Edit "Quantity" id=42.1056 value="1"'));
+  assert.ok(lines.includes('        Custom "Article Name Row 0" id=42.1062 value="Mouse"'));
+  for (const id of ["42.1073", "42.1074", "42.1075"]) {
+    assert.ok(!tree.text.includes(`id=${id}`), `${id} is left out`);
+  }
+  assert.equal(tree.originalNodes, 24);
+  assert.equal(tree.keptNodes, 21);
+  assert.equal(tree.truncated, false);
+  assert.ok(tree.compactTokens < tree.originalTokens / 4);
+
+  // Pruning can be turned off
+  const unpruned = compactTree(erpWindow, { pruneInvisible: false, pruneDisabled: false, pruneDecorative: false });
+  assert.equal(unpruned.keptNodes, 24);
+});
+
+test("nameless wrappers with a single child are collapsed", () => {
+  const tree: AutomationNode = {
+    id: "w", controlType: "Window", name: "Dialog", children: [
+      { id: "p", controlType: "Pane", children: [{ id: "g", controlType: "Group", children: [
+        { id: "e", controlType: "Edit", name: "Customer", currentValue: "Smith" },
+      ] }] },
+      { id: "b", controlType: "Button", name: "OK" },
+    ],
+  };
+  assert.equal(compactTree(tree).text, 'Window "Dialog" id=w\n  Edit "Customer" id=e value="Smith"\n  Button "OK" id=b');
+  assert.equal(compactTree(tree, { collapseChains: false }).keptNodes, 5);
+});
+
+test("a tree over the budget keeps the upper levels and counts what is left out", () => {
+  const tree = compactTree(erpWindow, { maxTokens: 40 });
+  assert.equal(tree.truncated, true);
+  assert.ok(tree.compactTokens <= 40);
+  assert.deepEqual(tree.text.split("\n"), [
+    'Window "Mini ERP Mock - ERP system" id=42.1050',
+    "  Pane id=42.1051 (12 more below)",
+    '    Pane "Order" id=42.1052 (6 more below)',
+  ]);
+  assert.equal(formatCompactionStats(tree), `Automation tree: 24 -> 3 elements, ~${tree.originalTokens} -> ~${tree.compactTokens} tokens (cut to fit the token budget)`);
+
+  // Even the root alone is too long: the text is cut off
+  const cut = compactTree(erpWindow, { maxTokens: 5 });
+  assert.ok(cut.text.endsWith("... (cut off)"));
+  assert.ok(estimateTokens(cut.text) <= 5);
+});
+
+test("the json format", () => {
+  const tree = compactTree(erpWindow, { format: "json" });
+  const root = JSON.parse(tree.text);
+  assert.deepEqual(Object.keys(root), ["id", "type", "name", "children"]);
+  assert.deepEqual(root.children[0].children[0].children[3], { id: "42.1056", type: "Edit", name: "Quantity", value: "1" });
+  assert.equal(tree.keptNodes, 21);
+  assert.equal(formatCompactionStats(tree), `Automation tree: 24 -> 21 elements, ~${tree.originalTokens} -> ~${tree.compactTokens} tokens`);
+});
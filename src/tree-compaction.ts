@@ -0,0 +1,187 @@
+import { AutomationNode } from './automation-tree';
+
+/**
+ * How compactTree shortens an automation tree for a prompt
+ */
+export interface CompactTreeOptions {
+  /**
+   * text: one element per line, indented by depth, e.g. 'Button "Save Order" id=42';
+   * json: nested { id, type, name, value, children } without whitespace (default: text)
+   */
+  format?: "text" | "json";
+  /** Approximate token limit of the result, see estimateTokens (default: DEFAULT_TREE_TOKEN_BUDGET) */
+  maxTokens?: number;
+  /** Drop elements that are off screen or have an empty bounding rectangle (default: true) */
+  pruneInvisible?: boolean;
+  /** Drop disabled controls (default: true) */
+  pruneDisabled?: boolean;
+  /** Drop images, separators, scroll bars and nameless text without a value (default: true) */
+  pruneDecorative?: boolean;
+  /** Replace nameless panes and groups that only wrap a single child by that child (default: true) */
+  collapseChains?: boolean;
+}
+
+/**
+ * A compacted tree and its size before and after
+ */
+export interface CompactTree {
+  text: string;
+  originalNodes: number;
+  keptNodes: number;
+  /** Characters of the tree as JSON.stringify(tree, null, 2), the form prompts used before */
+  originalChars: number;
+  compactChars: number;
+  originalTokens: number;
+  compactTokens: number;
+  /** True if elements or lines had to be left out to fit maxTokens */
+  truncated: boolean;
+}
+
+/** Tokens a compacted tree may use in a prompt */
+export const DEFAULT_TREE_TOKEN_BUDGET = 4000;
+
+// Control types that only decorate the window
+const decorativeTypes = ["Image", "Separator", "Thumb", "ScrollBar"];
+
+// Control types that only group other elements; a nameless one with a single child is collapsed
+const containerTypes = ["Pane", "Group", "Custom", ""];
+
+// The node with only the fields that matter to the model
+interface CompactNode {
+  id?: string;
+  type?: string;
+  name?: string;
+  value?: string;
+  children?: CompactNode[];
+  /** Children left out to stay within the budget */
+  omitted?: number;
+}
+
+/**
+ * Rough token count of a text for budgets, about 4 characters per token for English and JSON
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function countNodes(node: AutomationNode): number {
+  return 1 + (node.children ?? []).reduce((sum, child) => sum + countNodes(child), 0);
+}
+
+function isPruned(node: AutomationNode, options: CompactTreeOptions): boolean {
+  const rectangle = node.boundingRectangle;
+  if (options.pruneInvisible !== false && (node.isOffscreen === true || (rectangle && (rectangle.width <= 0 || rectangle.height <= 0)))) {
+    return true;
+  }
+  if (options.pruneDisabled !== false && node.isEnabled === false) {
+    return true;
+  }
+  const hasChildren = (node.children ?? []).length > 0;
+  return options.pruneDecorative !== false && !hasChildren
+    && (decorativeTypes.includes(node.controlType ?? "") || (node.controlType === "Text" && !node.name && !node.currentValue));
+}
+
+// Prune and collapse; null if the node and all of its descendants are pruned
+function compactNode(node: AutomationNode, options: CompactTreeOptions, isRoot: boolean): CompactNode | null {
+  if (!isRoot && isPruned(node, options)) {
+    return null;
+  }
+  const children = (node.children ?? [])
+    .map(child => compactNode(child, options, false))
+    .filter((child): child is CompactNode => child !== null);
+  if (!isRoot && options.collapseChains !== false && children.length === 1 && !node.name && !node.currentValue
+    && containerTypes.includes(node.controlType ?? "")) {
+    return children[0];
+  }
+  const compact: CompactNode = {};
+  if (node.id) compact.id = node.id;
+  if (node.controlType) compact.type = node.controlType;
+  if (node.name) compact.name = node.name;
+  if (node.currentValue) compact.value = node.currentValue;
+  if (children.length > 0) compact.children = children;
+  return compact;
+}
+
+function compactCount(node: CompactNode): number {
+  return 1 + (node.children ?? []).reduce((sum, child) => sum + compactCount(child), 0);
+}
+
+// The tree with only the first count elements in breadth-first order; left out children are counted in "omitted"
+function keepFirst(root: CompactNode, count: number): CompactNode {
+  const kept = new Set<CompactNode>();
+  const queue = [root];
+  while (queue.length > 0 && kept.size < count) {
+    const node = queue.shift()!;
+    kept.add(node);
+    queue.push(...(node.children ?? []));
+  }
+  const copy = (node: CompactNode): CompactNode => {
+    const { children, ...rest } = node;
+    const keptChildren = (children ?? []).filter(child => kept.has(child));
+    const omitted = (children ?? []).filter(child => !kept.has(child)).reduce((sum, child) => sum + compactCount(child), 0);
+    return {
+      ...rest,
+      ...(keptChildren.length > 0 ? { children: keptChildren.map(copy) } : {}),
+      ...(omitted > 0 ? { omitted } : {}),
+    };
+  };
+  return copy(root);
+}
+
+function toText(node: CompactNode, indent = ""): string {
+  const parts = [node.type ?? "Element"];
+  if (node.name) parts.push(JSON.stringify(node.name));
+  if (node.id) parts.push(`id=${node.id}`);
+  if (node.value) parts.push(`value=${JSON.stringify(node.value)}`);
+  if (node.omitted) parts.push(`(${node.omitted} more below)`);
+  return [indent + parts.join(" "), ...(node.children ?? []).map(child => toText(child, indent + "  "))].join("\n");
+}
+
+/**
+ * Shorten an automation tree for a prompt: drop invisible, disabled and decorative elements, collapse
+ * nameless wrappers, and keep only the ID, control type, name and value of each element. If the result
+ * is still over maxTokens, the elements are kept level by level from the top as far as the budget allows
+ * (the number left out is noted at their parent), and as a last resort the text is cut off.
+ */
+export function compactTree(root: AutomationNode, options: CompactTreeOptions = {}): CompactTree {
+  const maxTokens = options.maxTokens ?? DEFAULT_TREE_TOKEN_BUDGET;
+  const serialize = (node: CompactNode) => options.format === "json" ? JSON.stringify(node) : toText(node);
+  const compact = compactNode(root, options, true)!;
+
+  // Leave out the deepest elements until it fits; the upper levels show the model where more is
+  let truncated = false;
+  let kept = compact;
+  let text = serialize(kept);
+  for (let count = compactCount(compact); count > 1 && estimateTokens(text) > maxTokens; ) {
+    count = Math.max(1, Math.min(count - 1, Math.floor(count * maxTokens / estimateTokens(text) * 0.9)));
+    kept = keepFirst(compact, count);
+    text = serialize(kept);
+    truncated = true;
+  }
+  if (estimateTokens(text) > maxTokens) {
+    const marker = "\n... (cut off)";
+    text = text.slice(0, Math.max(0, maxTokens * 4 - marker.length)) + marker;
+    truncated = true;
+  }
+
+  const original = JSON.stringify(root, null, 2);
+  return {
+    text,
+    originalNodes: countNodes(root),
+    keptNodes: compactCount(kept),
+    originalChars: original.length,
+    compactChars: text.length,
+    originalTokens: estimateTokens(original),
+    compactTokens: estimateTokens(text),
+    truncated,
+  };
+}
+
+/**
+ * One line about the size of a compacted tree for the log output, e.g.
+ * "Automation tree: 184 -> 37 elements, ~9120 -> ~610 tokens"
+ */
+export function formatCompactionStats(tree: CompactTree): string {
+  return `Automation tree: ${tree.originalNodes} -> ${tree.keptNodes} elements, ~${tree.originalTokens} -> ~${tree.compactTokens} tokens`
+    + (tree.truncated ? " (cut to fit the token budget)" : "");
+}
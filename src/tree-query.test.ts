@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AutomationNode, windowListToTree } from './automation-tree';
+import {
+  parseSelector, queryAll, queryOne, queryId, queryIds,
+  SelectorSyntaxError, ElementNotFoundError, AmbiguousElementError,
+} from './tree-query';
+import { DEFAULT_ERP_SELECTORS, DEFAULT_ERP_WINDOW_SELECTOR } from './ui-erp-adapter';
+
+// getWindowDetails tree of the Mini ERP Mock with two line items
+const erpWindow: AutomationNode = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "..", "fixtures", "erp-window.tree.json"), "utf8"));
+
+const ids = (nodes: AutomationNode[]) => nodes.map(node => node.id);
+
+test("type and attribute operators", () => {
+  assert.deepEqual(ids(queryAll(erpWindow, 'Button[name="Save Order"]')), ["42.1070"]);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Edit[name~="customer"]')), ["42.1054"]);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Custom[name^="Price Row"]')), ["42.1064", "42.1068"]);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Text[name$="25.00"]')), ["42.1072"]);
+  assert.deepEqual(ids(queryAll(erpWindow, '*[automationId="txtQuantity"]')), ["42.1056"]);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Edit[value="1"]')), ["42.1056"]);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Button[automationId]')), ["42.1058", "42.1070", "42.1071"]);
+});
+
+test("descendant and child combinators", () => {
+  assert.deepEqual(ids(queryAll(erpWindow, 'Pane[name="Order"] > Edit')), ["42.1054", "42.1055", "42.1056", "42.1057"]);
+  assert.deepEqual(queryAll(erpWindow, 'Window > Edit'), []);
+  assert.deepEqual(ids(queryAll(erpWindow, 'Window DataGrid DataItem[name="Line 2"] *[name~="Quantity"]')), ["42.1067"]);
+});
+
+test("the default ERP selectors find one control each", () => {
+  assert.deepEqual(queryIds(erpWindow, DEFAULT_ERP_SELECTORS), {
+    elementIdCustomerName: "42.1054",
+    elementIdArticleName: "42.1055",
+    elementIdQuantity: "42.1056",
+    elementIdPricePerUnit: "42.1057",
+    elementIdAddItemButton: "42.1058",
+    elementIdSaveOrderButton: "42.1070",
+  });
+});
+
+test("windows are found in the window list", () => {
+  const windows = windowListToTree([{ id: "1", title: "Inbox - Outlook" }, { id: "2", title: "Mini ERP Mock - ERP system" }]);
+  assert.equal(queryId(windows, DEFAULT_ERP_WINDOW_SELECTOR), "2");
+});
+
+test("not found and ambiguous selectors throw", () => {
+  assert.throws(() => queryOne(erpWindow, 'Button[name="Print"]'), ElementNotFoundError);
+  assert.throws(() => queryOne(erpWindow, 'Edit'), (error: unknown) =>
+    error instanceof AmbiguousElementError && error.matches.length === 4 && /4 elements match 'Edit'/.test(error.message));
+  assert.throws(() => queryId({ children: [{ controlType: "Button", name: "OK" }] }, 'Button'), /has no ID/);
+});
+
+test("invalid selectors throw a SelectorSyntaxError", () => {
+  for (const selector of ["", "Button[name=", "Pane >", "Button!", "[=x]"]) {
+    assert.throws(() => parseSelector(selector), SelectorSyntaxError, selector);
+  }
+  assert.deepEqual(parseSelector("Pane > Edit[name='a \\'b\\'']").map(part => part.combinator), [" ", ">"]);
+  assert.equal(parseSelector("Edit[name='a \\'b\\'']")[0].compound.conditions[0].value, "a 'b'");
+});
@@ -0,0 +1,232 @@
+import { AutomationNode, walkTree } from './automation-tree';
+
+/*
+ * CSS-like selectors for UI automation trees, e.g.
+ *
+ *   Button[name="Save Order"]           a button with exactly this name
+ *   Edit[name~="customer"]              an edit whose name contains "customer" (case-insensitive)
+ *   Pane[name="Order"] > Edit           an edit that is a direct child of the "Order" pane
+ *   Window Group[name^="Line"] Button   a button somewhere below a group whose name starts with "Line"
+ *   *[automationId="txtQuantity"]       any control with this automation id
+ *
+ * The type selector matches the control type. Attributes: id, name, value (current value), type
+ * (control type) and automationId. Operators: = (equals), ~= (contains, case-insensitive),
+ * ^= (starts with), $= (ends with); [attribute] alone checks that the attribute is not empty.
+ */
+
+type AttributeOperator = "=" | "~=" | "^=" | "$=" | "exists";
+
+interface AttributeCondition {
+  attribute: string;
+  operator: AttributeOperator;
+  value: string;
+}
+
+interface CompoundSelector {
+  /** Control type or undefined for "*" */
+  controlType?: string;
+  conditions: AttributeCondition[];
+}
+
+interface SelectorPart {
+  /** How this part relates to the previous one: " " (descendant) or ">" (child) */
+  combinator: " " | ">";
+  compound: CompoundSelector;
+}
+
+/**
+ * Thrown for selectors that cannot be parsed
+ */
+export class SelectorSyntaxError extends Error {
+  constructor(public readonly selector: string, reason: string) {
+    super(`Invalid selector '${selector}': ${reason}`);
+    this.name = "SelectorSyntaxError";
+  }
+}
+
+/**
+ * Thrown when no element matches a selector
+ */
+export class ElementNotFoundError extends Error {
+  constructor(public readonly selector: string) {
+    super(`No element matches '${selector}'`);
+    this.name = "ElementNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a selector that must identify one element matches several
+ */
+export class AmbiguousElementError extends Error {
+  constructor(public readonly selector: string, public readonly matches: AutomationNode[]) {
+    super(`${matches.length} elements match '${selector}': ${matches.slice(0, 5).map(describeNode).join(", ")}`
+      + (matches.length > 5 ? ", ..." : ""));
+    this.name = "AmbiguousElementError";
+  }
+}
+
+/**
+ * Short description of a node for messages, e.g. 'Edit "Customer" (id 42)'
+ */
+export function describeNode(node: AutomationNode): string {
+  return `${node.controlType ?? "?"}${node.name ? ` "${node.name}"` : ""}${node.id ? ` (id ${node.id})` : ""}`;
+}
+
+const identifierPattern = /^[A-Za-z_][\w-]*/;
+
+/**
+ * Parse a selector into its parts
+ */
+export function parseSelector(selector: string): SelectorPart[] {
+  const parts: SelectorPart[] = [];
+  let rest = selector.trim();
+  let combinator: " " | ">" = " ";
+
+  if (!rest) {
+    throw new SelectorSyntaxError(selector, "selector is empty");
+  }
+
+  while (rest) {
+    const compound: CompoundSelector = { conditions: [] };
+
+    if (rest.startsWith("*")) {
+      rest = rest.slice(1);
+    } else {
+      const typeMatch = identifierPattern.exec(rest);
+      if (typeMatch) {
+        compound.controlType = typeMatch[0];
+        rest = rest.slice(typeMatch[0].length);
+      } else if (!rest.startsWith("[")) {
+        throw new SelectorSyntaxError(selector, `unexpected '${rest[0]}'`);
+      }
+    }
+
+    while (rest.startsWith("[")) {
+      const attributeMatch = /^\[\s*([A-Za-z_][\w-]*)\s*(?:(=|~=|\^=|\$=)\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\]\s]+))\s*)?\]/.exec(rest);
+      if (!attributeMatch) {
+        throw new SelectorSyntaxError(selector, `invalid attribute condition at '${rest}'`);
+      }
+      const [match, attribute, operator, doubleQuoted, singleQuoted, bare] = attributeMatch;
+      const value = (doubleQuoted ?? singleQuoted ?? bare ?? "").replace(/\\(.)/g, "$1");
+      compound.conditions.push({ attribute, operator: (operator as AttributeOperator) ?? "exists", value });
+      rest = rest.slice(match.length);
+    }
+
+    parts.push({ combinator, compound });
+
+    const combinatorMatch = /^\s*(>)?\s*/.exec(rest)!;
+    if (combinatorMatch[0].length === 0 && rest) {
+      throw new SelectorSyntaxError(selector, `unexpected '${rest[0]}'`);
+    }
+    combinator = combinatorMatch[1] ? ">" : " ";
+    rest = rest.slice(combinatorMatch[0].length);
+    if (!rest && combinatorMatch[1]) {
+      throw new SelectorSyntaxError(selector, "selector ends with '>'");
+    }
+  }
+  return parts;
+}
+
+function getAttribute(node: AutomationNode, attribute: string): string | undefined {
+  switch (attribute) {
+    case "type":
+      return node.controlType;
+    case "value":
+      return node.currentValue;
+    default: {
+      const value = (node as Record<string, unknown>)[attribute];
+      return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+    }
+  }
+}
+
+function matchesCompound(node: AutomationNode, compound: CompoundSelector): boolean {
+  if (compound.controlType && node.controlType !== compound.controlType) {
+    return false;
+  }
+  return compound.conditions.every(({ attribute, operator, value }) => {
+    const actual = getAttribute(node, attribute);
+    switch (operator) {
+      case "exists":
+        return !!actual;
+      case "=":
+        return actual === value;
+      case "~=":
+        return actual !== undefined && actual.toLowerCase().includes(value.toLowerCase());
+      case "^=":
+        return actual !== undefined && actual.startsWith(value);
+      case "$=":
+        return actual !== undefined && actual.endsWith(value);
+    }
+  });
+}
+
+// Does node (with the given ancestors, root first) match parts[0..index]?
+function matchesParts(parts: SelectorPart[], index: number, node: AutomationNode, ancestors: AutomationNode[]): boolean {
+  if (!matchesCompound(node, parts[index].compound)) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  if (parts[index].combinator === ">") {
+    return ancestors.length > 0
+      && matchesParts(parts, index - 1, ancestors[ancestors.length - 1], ancestors.slice(0, -1));
+  }
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (matchesParts(parts, index - 1, ancestors[i], ancestors.slice(0, i))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * All nodes matching the selector, in document order
+ */
+export function queryAll(root: AutomationNode, selector: string): AutomationNode[] {
+  const parts = parseSelector(selector);
+  const matches: AutomationNode[] = [];
+  walkTree(root, (node, ancestors) => {
+    if (matchesParts(parts, parts.length - 1, node, ancestors)) {
+      matches.push(node);
+    }
+  });
+  return matches;
+}
+
+/**
+ * The single node matching the selector; throws ElementNotFoundError or AmbiguousElementError otherwise
+ */
+export function queryOne(root: AutomationNode, selector: string): AutomationNode {
+  const matches = queryAll(root, selector);
+  if (matches.length === 0) {
+    throw new ElementNotFoundError(selector);
+  }
+  if (matches.length > 1) {
+    throw new AmbiguousElementError(selector, matches);
+  }
+  return matches[0];
+}
+
+/**
+ * The element ID of the single node matching the selector, for client.automation.setValue / invoke
+ */
+export function queryId(root: AutomationNode, selector: string): string {
+  const node = queryOne(root, selector);
+  if (!node.id) {
+    throw new ElementNotFoundError(`${selector} (the element has no ID)`);
+  }
+  return node.id;
+}
+
+/**
+ * Resolve a whole set of selectors at once, e.g. all controls of a form
+ */
+export function queryIds<T extends { [K in keyof T]: string }>(root: AutomationNode, selectors: T): T {
+  const ids: Record<string, string> = {};
+  for (const [key, selector] of Object.entries<string>(selectors)) {
+    ids[key] = queryId(root, selector);
+  }
+  return ids as T;
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseTweets, parseTimeLabel, tweetKey } from './tweet-parser';
+
+// chrome.getText of a profile page, read at this time
+const pageText = fs.readFileSync(path.join(__dirname, "..", "fixtures", "profile-page.txt"), "utf8");
+const now = new Date("2025-05-01T12:00:00Z");
+
+test("time labels", () => {
+  assert.equal(parseTimeLabel("now", now)?.toISOString(), "2025-05-01T12:00:00.000Z");
+  assert.equal(parseTimeLabel("45s", now)?.toISOString(), "2025-05-01T11:59:15.000Z");
+  assert.equal(parseTimeLabel("12m", now)?.toISOString(), "2025-05-01T11:48:00.000Z");
+  assert.equal(parseTimeLabel("3h", now)?.toISOString(), "2025-05-01T09:00:00.000Z");
+  assert.equal(parseTimeLabel("2d", now)?.toISOString(), "2025-04-29T12:00:00.000Z");
+  assert.equal(parseTimeLabel("Mar 3", now)?.toISOString(), "2025-03-03T00:00:00.000Z");
+  // Without a year, a date after now is in the year before
+  assert.equal(parseTimeLabel("Dec 24", now)?.toISOString(), "2024-12-24T00:00:00.000Z");
+  assert.equal(parseTimeLabel("Mar 3, 2023", now)?.toISOString(), "2023-03-03T00:00:00.000Z");
+  assert.equal(parseTimeLabel("Posts", now), null);
+  assert.equal(parseTimeLabel("Smarch 3", now), null);
+});
+
+test("tweets of a saved profile page", () => {
+  assert.deepEqual(parseTweets(pageText, { now }), [
+    {
+      account: "kimmonismus",
+      text: "My list of the best AI newsletters, updated for this year.",
+      timestamp: "2025-01-05T00:00:00.000Z",
+      url: "https://x.com/kimmonismus",
+      pinned: true,
+    },
+    {
+      account: "kimmonismus",
+      text: "New open-weights model tops the coding leaderboard.\nWeights and paper are out today.",
+      timestamp: "2025-05-01T10:00:00.000Z",
+      url: "https://x.com/kimmonismus/status/1890012345678901234",
+    },
+    {
+      account: "ai_for_success",
+      text: "GPU prices dropped again this week.",
+      timestamp: "2025-05-01T07:00:00.000Z",
+      url: "https://x.com/ai_for_success",
+      repostedBy: "Chubby♨️",
+    },
+    {
+      account: "kimmonismus",
+      text: "Older thread about agents, part 1/3.",
+      timestamp: "2025-03-03T00:00:00.000Z",
+      url: "https://x.com/kimmonismus",
+    },
+  ]);
+});
+
+test("a page without tweets", () => {
+  assert.deepEqual(parseTweets("Home\nExplore\nThis account doesn't exist\nTry searching for another.", { now }), []);
+});
+
+test("the key of a tweet ignores case of the account and whitespace", () => {
+  const key = tweetKey({ account: "kimmonismus", text: "New model\nout today" });
+  assert.equal(tweetKey({ account: "KimMonismus", text: "New model  out today " }), key);
+  assert.notEqual(tweetKey({ account: "kimmonismus", text: "New model out tomorrow" }), key);
+});
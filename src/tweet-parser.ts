@@ -0,0 +1,153 @@
+import { contentHash } from './processed-ledger';
+
+/**
+ * A tweet read from the text of a profile page
+ */
+export interface Tweet {
+  /** Handle of the author, without the leading "@" */
+  account: string;
+  text: string;
+  /**
+   * ISO timestamp computed from the time label ("2h", "Mar 3") and the time the page was read;
+   * relative labels make it accurate to the minute or hour only. null if the label is unknown.
+   */
+  timestamp: string | null;
+  /** Link of the tweet if the page text contains it, otherwise the profile of the author */
+  url: string;
+  /** Pinned tweets stay on top of the profile regardless of their age */
+  pinned?: boolean;
+  /** Account that reposted the tweet, if it is a repost */
+  repostedBy?: string;
+}
+
+/**
+ * What parseTweets needs to know about the page
+ */
+export interface ParseTweetsOptions {
+  /** When the page text was read; relative time labels are counted back from it (default: now) */
+  now?: Date;
+}
+
+const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Lines of the page around and inside tweets that are not part of their text
+const uiLines = new Set([
+  "show more", "show less", "translate post", "show translation", "show this thread", "quote",
+  "this post is unavailable.", "ad", "promoted", "views", "replying to",
+]);
+// Reply, repost, like and view counts below a tweet, e.g. "12", "1.5K", "2,345", "18M"
+const countPattern = /^\d+(?:[.,]\d+)*[KMB]?$/;
+const handlePattern = /^@(\w{1,15})$/;
+const statusUrlPattern = /(?:https?:\/\/)?(?:www\.)?(?:x|twitter)\.com\/(\w{1,15})\/status\/(\d+)/;
+
+/**
+ * Convert the time label of a tweet to a date: relative ("now", "45s", "12m", "3h", "2d") or
+ * absolute ("Mar 3", "Mar 3, 2024"). A label without a year is in the year before now if it would be in the future.
+ * Returns null for anything else.
+ */
+export function parseTimeLabel(label: string, now: Date = new Date()): Date | null {
+  const text = label.trim().toLowerCase();
+  if (text === "now" || text === "just now") {
+    return new Date(now.getTime());
+  }
+  const relative = /^(\d+)\s*(s|m|min|h|d)$/.exec(text);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60000, min: 60000, h: 3600000, d: 86400000 }[relative[2] as "s" | "m" | "min" | "h" | "d"];
+    return new Date(now.getTime() - Number(relative[1]) * unitMs);
+  }
+  const absolute = /^([a-z]{3})[a-z]*\.? (\d{1,2})(?:, (\d{4}))?$/.exec(text);
+  if (absolute && months.includes(absolute[1])) {
+    const month = months.indexOf(absolute[1]);
+    const day = Number(absolute[2]);
+    if (absolute[3]) {
+      return new Date(Date.UTC(Number(absolute[3]), month, day));
+    }
+    const date = new Date(Date.UTC(now.getUTCFullYear(), month, day));
+    if (date.getTime() > now.getTime()) {
+      date.setUTCFullYear(date.getUTCFullYear() - 1);
+    }
+    return date;
+  }
+  return null;
+}
+
+// Header of a tweet at index: "@handle", "·", "2h" on separate lines, or "@handle · 2h" on one line
+function matchHeader(lines: string[], index: number): { account: string; timeLabel: string; textStart: number } | null {
+  const combined = /^@(\w{1,15})\s*·\s*(.+)$/.exec(lines[index]);
+  if (combined && parseTimeLabel(combined[2]) !== null) {
+    return { account: combined[1], timeLabel: combined[2], textStart: index + 1 };
+  }
+  const handle = handlePattern.exec(lines[index]);
+  if (!handle) {
+    return null;
+  }
+  if (lines[index + 1] === "·" && lines[index + 2] !== undefined && parseTimeLabel(lines[index + 2]) !== null) {
+    return { account: handle[1], timeLabel: lines[index + 2], textStart: index + 3 };
+  }
+  const dotAndTime = /^·\s*(.+)$/.exec(lines[index + 1] ?? "");
+  if (dotAndTime && parseTimeLabel(dotAndTime[1]) !== null) {
+    return { account: handle[1], timeLabel: dotAndTime[1], textStart: index + 2 };
+  }
+  return null;
+}
+
+/**
+ * Split the text of a profile page (chrome.getText) into tweets, in page order.
+ * A tweet starts with the display name, the handle and the time label of its author; the profile header,
+ * counts and buttons are left out. Reposts and pinned tweets are marked.
+ */
+export function parseTweets(pageText: string, options: ParseTweetsOptions = {}): Tweet[] {
+  const now = options.now ?? new Date();
+  const lines = pageText.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+  const headers: Array<{ index: number; account: string; timeLabel: string; textStart: number }> = [];
+  for (let index = 0; index < lines.length; index++) {
+    const header = matchHeader(lines, index);
+    if (header) {
+      headers.push({ index, ...header });
+      index = header.textStart - 1;
+    }
+  }
+
+  return headers.map((header, position) => {
+    // The tweet ends where the lines before the next header start (display name, "Pinned", "... reposted")
+    const next = headers[position + 1];
+    let end = next ? next.index - 1 : lines.length;
+    while (next && end > header.textStart && /^(pinned|.+ reposted)$/i.test(lines[end - 1])) {
+      end--;
+    }
+    const body = lines.slice(header.textStart, Math.max(header.textStart, end));
+    // The counts end the tweet; after the last tweet of the page, the sidebar and footer follow them
+    const counts = body.findIndex((line, i) => i > 0 && countPattern.test(line)
+      && (i + 1 === body.length || countPattern.test(body[i + 1])));
+    if (counts !== -1) {
+      body.splice(counts);
+    }
+
+    const before = lines.slice(Math.max(0, header.index - 3), Math.max(0, header.index - 1));
+    const repost = before.map(line => /^(.+) reposted$/i.exec(line)).find(match => match !== null);
+    const statusUrl = body.map(line => statusUrlPattern.exec(line)).find(match => match !== null);
+    const time = parseTimeLabel(header.timeLabel, now);
+
+    const tweet: Tweet = {
+      account: header.account,
+      text: body.filter(line => !uiLines.has(line.toLowerCase()) && line.replace(statusUrlPattern, "").trim() !== "").join("\n"),
+      timestamp: time ? time.toISOString() : null,
+      url: statusUrl ? `https://x.com/${statusUrl[1]}/status/${statusUrl[2]}` : `https://x.com/${header.account}`,
+    };
+    if (before.some(line => line.toLowerCase() === "pinned")) {
+      tweet.pinned = true;
+    }
+    if (repost) {
+      tweet.repostedBy = repost[1];
+    }
+    return tweet;
+  }).filter(tweet => tweet.text.length > 0);
+}
+
+/**
+ * Stable key of a tweet: its author and text; the timestamp is left out because relative labels change
+ */
+export function tweetKey(tweet: Pick<Tweet, "account" | "text">): string {
+  return contentHash("tweet", `${tweet.account.toLowerCase()}\n${tweet.text.replace(/\s+/g, " ").trim()}`);
+}
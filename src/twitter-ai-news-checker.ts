@@ -1,27 +1,150 @@
-import 'dotenv/config'; // Load environment variables from .env file
-import OpenAI from 'openai';
+import * as fs from 'fs';
 import { SmoothOperatorClient, ExistingChromeInstanceStrategy } from 'smooth-operator-agent-tools';
+import { createLlmProviderFromConfig, LlmProvider } from './llm-provider';
+import { createClientFromConfig } from './automation-client';
+import { Config, loadConfig } from './config';
+import { RunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { createGuardedClient } from './action-guard';
+import { waitForChromeText, waitForStableChromeText, WaitTimeoutError } from './wait-for';
+import { createStepRunner, printStepSummary, RetryOptions, StepError, StepRunner } from './step-runner';
+import { openNewsHistory, NewsHistoryEntry } from './news-history';
+import { AlertSink, NewsAlert, sendAlert } from './alert-sinks';
+import { parseTweets, tweetKey, Tweet } from './tweet-parser';
+import { parseFeed, feedXmlFromPageText, FeedEntry } from './feed-parser';
+import { openSeenTweetStore, SeenTweetStore } from './seen-tweet-store';
+import { contentHash } from './processed-ledger';
+import { completeStructured, StructuredOutputError } from './structured-output';
+import {
+  NewsProfile,
+  NewsSource,
+  NewsSummary,
+  findNewsProfile,
+  buildNewsPrompt,
+  newsSummaryOutput,
+  sourceLabel,
+  DEFAULT_NEWS_PROFILE,
+} from './news-profiles';
 
-// Helper function for delays
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Options for the Twitter AI news checker
+ */
+export interface TwitterCheckerOptions {
+  /** News profile, or its name in the profiles file, see findNewsProfile (default: DEFAULT_NEWS_PROFILE) */
+  profile?: NewsProfile | string;
+  /** Profiles file to find the profile in (default: DEFAULT_NEWS_PROFILES_PATH if it exists) */
+  profilesPath?: string;
+  /** Twitter/X account handles to read instead of the sources of the profile, without the leading "@" (default: twitter.accounts of the config) */
+  accounts?: string[];
+  /** Only news of the last hours are read (default: the lookbackHours of the profile or DEFAULT_TWEET_LOOKBACK_HOURS) */
+  lookbackHours?: number;
+  /** Maximum number of scrolls per profile while looking for older tweets (default: DEFAULT_MAX_SCROLLS) */
+  maxScrolls?: number;
+  /** File of the tweets and feed entries that were already summarized (default: DEFAULT_SEEN_TWEETS_PATH) */
+  seenTweetsPath?: string;
+  /** Retries of failed browser actions and language model calls, override retry of the config (default: DEFAULT_RETRY_OPTIONS) */
+  retry?: Partial<RetryOptions>;
+  /** Keep checking on an interval and alert on breaking news instead of checking once */
+  watch?: TwitterWatchOptions;
+  /** Event log and artifacts of the run, see createRunLog (default: none) */
+  runLog?: RunLog;
+  /** Settings such as the API keys (default: loadConfig(), from the config file, the environment and the .env file) */
+  config?: Config;
+  /** Client to use instead of creating one, e.g. a replay client (default: createClientFromConfig) */
+  client?: SmoothOperatorClient;
+  /** URL of an already running Smooth Operator server, e.g. "http://localhost:54321" */
+  serverUrl?: string;
+}
 
-export async function runTwitterChecker() {
+/**
+ * Settings of the watch mode, which checks the sources again and again and alerts on breaking news
+ */
+export interface TwitterWatchOptions {
+  /** Minutes between two checks (default: DEFAULT_WATCH_INTERVAL_MINUTES) */
+  intervalMinutes?: number;
+  /** Breaking news probability that raises an alert (default: the thresholdInPercent of the profile or DEFAULT_ALERT_THRESHOLD_PERCENT) */
+  thresholdInPercent?: number;
+  /** Where alerts are sent to (default: none, alerts are only printed) */
+  sinks?: AlertSink[];
+  /** History file of the checks (default: DEFAULT_NEWS_HISTORY_PATH) */
+  historyPath?: string;
+  /** Hours in which the same story is not alerted again (default: DEFAULT_DEDUPE_WINDOW_HOURS) */
+  dedupeWindowHours?: number;
+  /** Stop after this many checks (default: run until Ctrl+C) */
+  maxChecks?: number;
+}
+
+export const DEFAULT_TWEET_LOOKBACK_HOURS = 3;
+export const DEFAULT_MAX_SCROLLS = 10;
+export const DEFAULT_WATCH_INTERVAL_MINUTES = 15;
+export const DEFAULT_ALERT_THRESHOLD_PERCENT = 70;
+export const DEFAULT_DEDUPE_WINDOW_HOURS = 12;
+
+/**
+ * Run the Twitter AI news checker. Returns true if the example ran through.
+ */
+export async function runTwitterChecker(options: TwitterCheckerOptions = {}): Promise<boolean> {
   console.log('Running Twitter AI News Checker Example...');
 
-  const screengraspApiKey = process.env.SCREENGRASP_API_KEY;
-  const openaiApiKey = process.env.OPENAI_API_KEY;
+  // The settings can be passed in, otherwise they are read from the config file, the environment and the .env file
+  let config: Config;
+  try {
+    config = options.config ?? loadConfig();
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+  if (config.safety.dryRun) {
+    console.error("Error: The Twitter checker has no dry run: it reads the pages in a Chrome window, which a dry run does not open.");
+    return false;
+  }
+
+  // The client can be passed in (e.g. a replay client in tests), otherwise the config selects it,
+  // see createClientFromConfig. Passing a server URL connects to an already running server.
+  let client: SmoothOperatorClient | null;
+  try {
+    client = options.client ?? createClientFromConfig(config, options.serverUrl);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
 
-  if (!screengraspApiKey) {
+  if (!client) {
     console.error("Error: SCREENGRASP_API_KEY not found in .env file or environment variables. Get a free key at https://screengrasp.com/api.html");
-    process.exit(1); // Exit if key is missing
+    return false;
   }
 
-  if (!openaiApiKey) {
+  // The language model is OpenAI by default, see createLlmProviderFromConfig for the alternatives
+  let llm: LlmProvider | null;
+  try {
+    llm = createLlmProviderFromConfig(config.llm);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+
+  if (!llm) {
     console.warn("Warning: OPENAI_API_KEY not found in .env file or environment variables. OpenAI part will be skipped. Get a key at https://platform.openai.com/api-keys");
   }
 
-  // Initialize the Smooth Operator Client
-  const client = new SmoothOperatorClient(screengraspApiKey);
+  // A broken profiles file fails before the server is started
+  let profile: NewsProfile;
+  try {
+    profile = typeof options.profile === "object"
+      ? options.profile
+      : findNewsProfile(options.profile ?? DEFAULT_NEWS_PROFILE.name, options.profilesPath);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+
+  // Destructive actions need an opt-in or a confirmation, a dry run only logs the actions, see action-guard.ts
+  client = createGuardedClient(client, config.safety);
+
+  // Client calls and language model requests are written to the run log, see run-log.ts
+  if (options.runLog) {
+    client = createLoggingClient(client, options.runLog);
+    llm = llm && createLoggingLlmProvider(llm, options.runLog);
+  }
 
   console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
   try {
@@ -30,110 +153,402 @@ export async function runTwitterChecker() {
     console.log("Server started successfully.");
   } catch (error) {
     console.error("Failed to start server:", error);
-    return; // Exit if server fails to start
+    return false; // Exit if server fails to start
   }
 
-  let tweetsText = "";
-  let isBrowserOpen = false;
-  const accounts = ["kimmonismus", "ai_for_success", "slow_developer"];
+  const steps = createStepRunner({ ...config.retry, ...options.retry }, options.runLog?.recordStep);
+  const accounts = options.accounts ?? config.twitter.accounts;
 
   try {
-    console.log("Processing Twitter accounts...");
-    for (const account of accounts) {
-      const url = `https://x.com/${account}`;
-
-      if (!isBrowserOpen) {
-        console.log(`Opening browser to ${url}...`);
-        // Pass arguments as an object matching the API definition
-        const openResult = await client.chrome.openChrome(url);
-        console.log(openResult?.message ?? "Attempted to open Chrome.");
-        if (openResult?.message?.startsWith('Error')) {
-            console.error("Failed to open Chrome.");
-            return;
-        }
-        isBrowserOpen = true;
-        console.log("Waiting for browser to load (7s)...");
-        await delay(7000); // give the newly opened browser some time
-      } else {
-        console.log(`Navigating to ${url}, waiting (4s)...`);
-        // Pass arguments as an object matching the API definition
-        await client.chrome.navigate(url);
-        await delay(4000); // give navigation some time
-      }
-
-      // Scroll down the timeline
-      console.log("Scrolling down...");
-      for (let i = 0; i < 3; i++) {
-        // Pass arguments individually matching the API definition
-        await client.mouse.scroll(200, 200, 20, 'down'); // scroll down slightly (positive clicks = down)
-        await delay(1000);
-      }
+    const reader: NewsReader = {
+      client,
+      steps,
+      profile,
+      sources: accounts ? accounts.map(account => ({ twitter: account })) : profile.sources,
+      lookbackHours: options.lookbackHours ?? profile.lookbackHours ?? DEFAULT_TWEET_LOOKBACK_HOURS,
+      maxScrolls: options.maxScrolls ?? DEFAULT_MAX_SCROLLS,
+      seenTweets: openSeenTweetStore(options.seenTweetsPath),
+      runLog: options.runLog,
+      chromeIsOpen: false,
+    };
 
-      console.log(`Getting text from ${url}...`);
-      const response = await client.chrome.getText();
-      if (response?.success && response.resultValue) {
-        tweetsText += response.resultValue + "\n--------------------\n"; // separator
-      } else {
-        console.warn(`Warning: Could not get text from ${url}. Message: ${response?.message}`);
+    if (options.watch) {
+      if (!llm) {
+        console.error("Error: The watch mode needs a language model to rate the news.");
+        return false;
       }
-      await delay(1000); // Small delay between accounts
-    } // End of account loop
+      return await watchTwitterNews(reader, llm, options.watch);
+    }
 
-    if (!tweetsText.trim()) {
-      console.error("Error: Could not retrieve any tweet text. Skipping OpenAI analysis.");
-    } else if (!openaiApiKey) {
+    const items = await readNewItems(reader);
+    if (!items) {
+      console.error("Error: Could not retrieve any news. Skipping OpenAI analysis.");
+      return false;
+    } else if (items.length === 0) {
+      console.log("No new tweets or feed entries since the last run, nothing to summarize.");
+    } else if (!llm) {
       console.warn("Skipping OpenAI analysis as API key is missing.");
     } else {
-      console.log("Asking OpenAI about the collected tweets...");
+      console.log(`Asking ${llm.name} about the collected news...`);
       try {
-        const openaiClient = new OpenAI({ apiKey: openaiApiKey });
-        const chatCompletion = await openaiClient.chat.completions.create({
-          model: "gpt-4o", // Use a suitable model like gpt-4o
-          response_format: { type: "json_object" },
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: `These are the latest tweets of some twitter accounts that are typically very up-to-date on AI news. Give me a summary on the concrete topics they write about (3 bullet points, one short sentence, each) and a rating 0-100 if you have the impression that actual very big breaking news has just occurred within the last hour.
-<tweets>${tweetsText}</tweets>
-Answer with a JSON in this form:
-{
-    "summaryBulletPoints": [
-        "bullet point 1",
-        "bullet point 2",
-        "bullet point 3"
-    ],
-    "breakingNewsProbabilityInPercent": 50
-}`
-                }
-              ]
-            }
-          ]
-        });
+        const summary = await askForNewsSummary(llm, reader, items);
+        reader.seenTweets.add(items);
 
-        const resultText = chatCompletion.choices[0].message.content;
-        console.log("--- OpenAI Result ---");
-        try {
-          // Try to pretty-print if it's valid JSON
-          console.log(JSON.stringify(JSON.parse(resultText || '{}'), null, 4));
-        } catch {
-          console.log(resultText); // Print as is if not valid JSON
-        }
+        console.log("--- AI Result ---");
+        console.log(JSON.stringify(summary, null, 4));
         console.log("--------------------");
 
       } catch (ex: any) {
-        console.error("Error calling OpenAI:", ex.message || ex);
+        if (ex instanceof StructuredOutputError) {
+          console.error(`Error: ${ex.message}\nLast answer: ${ex.answer}`);
+          return false;
+        }
+        console.error(`Error calling ${llm.name}:`, ex.message || ex);
+        return false;
       }
     }
 
+    return true;
   } catch (error: any) {
     console.error("An error occurred during execution:", error.message || error);
+    return false;
   } finally {
+    printStepSummary(steps.outcomes);
     // Ensure the server is stopped even if errors occur
     console.log("Stopping server...");
     client.stopServer(); // Optional: Stop the server explicitly
     console.log("Twitter example finished.");
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Everything needed to read the news of the profile, shared by the checks of the watch mode
+ */
+interface NewsReader {
+  client: SmoothOperatorClient;
+  steps: StepRunner;
+  profile: NewsProfile;
+  sources: NewsSource[];
+  lookbackHours: number;
+  maxScrolls: number;
+  seenTweets: SeenTweetStore;
+  runLog?: RunLog;
+  /** Chrome is opened for the first page of the first check, later ones navigate */
+  chromeIsOpen: boolean;
+}
+
+/**
+ * A tweet or feed entry as it is sent to the language model
+ */
+interface NewsItem {
+  /** See tweetKey and feedEntryKey */
+  key: string;
+  /** "@account", with the reposting account for reposts, or the title of the feed */
+  source: string;
+  text: string;
+  timestamp: string | null;
+  url: string;
+}
+
+// Feed entries can be long articles, the summary only needs their beginning
+const MAX_FEED_ENTRY_LENGTH = 1000;
+
+const tweetItem = (tweet: Tweet): NewsItem => ({
+  key: tweetKey(tweet),
+  source: `@${tweet.account}${tweet.repostedBy ? ` (reposted by ${tweet.repostedBy})` : ""}`,
+  text: tweet.text,
+  timestamp: tweet.timestamp,
+  url: tweet.url,
+});
+
+// Feeds change the texts of entries now and then, link and title identify them
+const feedEntryKey = (entry: FeedEntry): string => contentHash("feed-entry", `${entry.url}\n${entry.title}`);
+
+const feedItem = (entry: FeedEntry): NewsItem => ({
+  key: feedEntryKey(entry),
+  source: entry.feed,
+  text: [entry.title, entry.text].filter(text => text.length > 0).join("\n").slice(0, MAX_FEED_ENTRY_LENGTH),
+  timestamp: entry.timestamp,
+  url: entry.url,
+});
+
+/**
+ * Read the news of the sources from the last lookbackHours and return the ones that were not summarized before.
+ * Returns null if no source could be read at all. Sources that do not load are skipped.
+ */
+async function readNewItems(reader: NewsReader): Promise<NewsItem[] | null> {
+  const since = new Date(Date.now() - reader.lookbackHours * 3600000);
+  const items: NewsItem[] = [];
+  let sourcesRead = 0;
+
+  console.log(`Processing the sources of the ${reader.profile.name} profile...`);
+  for (const source of reader.sources) {
+    const sourceItems = "twitter" in source
+      ? (await readAccountTweets(reader, source.twitter, since))?.map(tweetItem)
+      : (await readFeed(reader, source, since))?.map(feedItem);
+    if (sourceItems) {
+      sourcesRead++;
+      items.push(...sourceItems);
+    }
+  }
+  if (sourcesRead === 0) {
+    return null;
+  }
+
+  // A repost can show up on several profiles
+  const unique = items.filter((item, index) => items.findIndex(other => other.key === item.key) === index);
+  const newItems = unique.filter(item => !reader.seenTweets.has(item.key));
+  console.log(`Read ${unique.length} tweet(s) and feed entries since ${since.toLocaleTimeString()}, ${newItems.length} of them new.`);
+  return newItems;
+}
+
+/**
+ * Show url in Chrome: open it for the first page, navigate for later ones.
+ * Returns false if the navigation failed, the page is skipped then.
+ */
+async function showPage(reader: NewsReader, url: string): Promise<boolean> {
+  const { client, steps } = reader;
+  if (!reader.chromeIsOpen) {
+    console.log(`Opening browser to ${url}...`);
+    // Pass arguments as an object matching the API definition
+    const openResult = await steps.run("open Chrome", () => client.chrome.openChrome(url));
+    console.log(openResult?.message ?? "Attempted to open Chrome.");
+    if (openResult?.message?.startsWith('Error')) {
+      throw new Error("Failed to open Chrome.");
+    }
+    reader.chromeIsOpen = true;
+    return true;
+  }
+
+  console.log(`Navigating to ${url}...`);
+  try {
+    // Pass arguments as an object matching the API definition
+    await steps.run(`navigate to ${url}`, () => client.chrome.navigate(url));
+    return true;
+  } catch (ex) {
+    if (!(ex instanceof StepError) || ex.kind === "auth") {
+      throw ex;
+    }
+    console.warn(`Warning: ${ex.message}, skipping the page.`);
+    return false;
+  }
+}
+
+// Page texts are saved to the run log, they are the fixtures for the parsers, see tweet-parser.ts and feed-parser.ts
+function savePageText(reader: NewsReader, step: string, name: string, text: string) {
+  if (reader.runLog) {
+    reader.runLog.log({ level: "debug", type: "artifact", step, artifacts: [reader.runLog.saveArtifact(name, text)] });
+  }
+}
+
+/**
+ * Open the profile of the account and scroll down until tweets older than since show up, the page
+ * ends or maxScrolls is reached. Returns the tweets since since, or null if the profile did not load.
+ */
+async function readAccountTweets(reader: NewsReader, account: string, since: Date): Promise<Tweet[] | null> {
+  const { client } = reader;
+  const url = `https://x.com/${account}`;
+  if (!await showPage(reader, url)) {
+    return null;
+  }
+
+  // Wait until the profile of the account is shown (the newly opened browser can take a while)
+  console.log("Waiting for the page to load...");
+  try {
+    await waitForChromeText(client, `@${account}`, { timeoutMs: 60000 });
+    await waitForStableChromeText(client);
+  } catch (ex) {
+    if (!(ex instanceof WaitTimeoutError)) {
+      throw ex;
+    }
+    console.warn(`Warning: ${url} did not load (${ex.message}), skipping the account.`);
+    return null;
+  }
+
+  const tweets = new Map<string, Tweet>();
+  for (let scroll = 0; ; scroll++) {
+    console.log(`Getting text from ${url}...`);
+    const response = await client.chrome.getText();
+    if (!response?.success || !response.resultValue) {
+      console.warn(`Warning: Could not get text from ${url}. Message: ${response?.message}`);
+      break;
+    }
+    savePageText(reader, `page text of @${account}`, `page-${account}.txt`, response.resultValue);
+
+    let added = 0;
+    for (const tweet of parseTweets(response.resultValue)) {
+      if (!tweets.has(tweetKey(tweet))) {
+        tweets.set(tweetKey(tweet), tweet);
+        added++;
+      }
+    }
+    // Pinned tweets are on top regardless of their age
+    const reachedCutoff = Array.from(tweets.values())
+      .some(tweet => !tweet.pinned && tweet.timestamp !== null && Date.parse(tweet.timestamp) < since.getTime());
+    if (reachedCutoff || scroll >= reader.maxScrolls || (scroll > 0 && added === 0)) {
+      break;
+    }
+
+    console.log("Scrolling down...");
+    // Pass arguments individually matching the API definition
+    await client.mouse.scroll(200, 200, 20, 'down'); // scroll down slightly (positive clicks = down)
+    await waitForStableChromeText(client); // more tweets are loaded while scrolling
+  }
+
+  const recent = Array.from(tweets.values())
+    .filter(tweet => tweet.timestamp !== null && Date.parse(tweet.timestamp) >= since.getTime());
+  console.log(`Found ${tweets.size} tweet(s) of @${account}, ${recent.length} since ${since.toLocaleTimeString()}.`);
+  return recent;
+}
+
+/**
+ * Read a feed, from its URL in Chrome or from a file. Returns the entries since since (entries without date
+ * are kept, the seen store filters the old ones), or null if the feed could not be read.
+ */
+async function readFeed(reader: NewsReader, source: { feed: string } | { file: string }, since: Date): Promise<FeedEntry[] | null> {
+  let xml: string | null;
+  if ("file" in source) {
+    console.log(`Reading feed file ${source.file}...`);
+    try {
+      xml = fs.readFileSync(source.file, "utf8");
+    } catch (error) {
+      console.warn(`Warning: Could not read ${source.file} (${error instanceof Error ? error.message : error}), skipping the feed.`);
+      return null;
+    }
+  } else {
+    if (!await showPage(reader, source.feed)) {
+      return null;
+    }
+    console.log("Waiting for the feed to load...");
+    try {
+      await waitForStableChromeText(reader.client);
+    } catch (ex) {
+      if (!(ex instanceof WaitTimeoutError)) {
+        throw ex;
+      }
+      console.warn(`Warning: ${source.feed} did not load (${ex.message}), skipping the feed.`);
+      return null;
+    }
+    const response = await reader.client.chrome.getText();
+    if (!response?.success || !response.resultValue) {
+      console.warn(`Warning: Could not get text from ${source.feed}. Message: ${response?.message}`);
+      return null;
+    }
+    savePageText(reader, `page text of ${source.feed}`, `feed-${new URL(source.feed).hostname}.txt`, response.resultValue);
+    xml = feedXmlFromPageText(response.resultValue);
+  }
+
+  const label = sourceLabel(source);
+  const entries = xml ? parseFeed(xml, "feed" in source ? source.feed : source.file) : [];
+  if (entries.length === 0) {
+    console.warn(`Warning: ${label} is no RSS or Atom feed or has no entries, skipping the feed.`);
+    return null;
+  }
+  const recent = entries.filter(entry => entry.timestamp === null || Date.parse(entry.timestamp) >= since.getTime());
+  console.log(`Found ${entries.length} entries in ${label}, ${recent.length} since ${since.toLocaleTimeString()}.`);
+  return recent;
+}
+
+/**
+ * Ask the language model for a summary of the news and the probability of breaking news, with the prompt
+ * and output schema of the profile. Throws a StructuredOutputError if it does not answer in that form.
+ */
+function askForNewsSummary(llm: LlmProvider, reader: NewsReader, items: NewsItem[]): Promise<NewsSummary> {
+  const itemsText = items
+    .map(item => `${item.source}, ${item.timestamp ?? "unknown time"}:\n${item.text}`)
+    .join("\n--------------------\n");
+  return completeStructured(llm, newsSummaryOutput(reader.profile), {
+    task: "news-summary",
+    prompt: buildNewsPrompt(reader.profile, itemsText),
+  }, { steps: reader.steps, stepName: "summarize news" });
+}
+
+/**
+ * Check the sources every intervalMinutes until stopped (Ctrl+C) or maxChecks is reached.
+ * Every check is added to the history; a probability at or above the threshold is alerted through the sinks,
+ * unless the same story was alerted within the dedupe window. Returns false if the checks cannot go on (e.g. auth errors).
+ */
+async function watchTwitterNews(reader: NewsReader, llm: LlmProvider, watch: TwitterWatchOptions): Promise<boolean> {
+  const profile = reader.profile;
+  const sources = reader.sources.map(sourceLabel);
+  const intervalMs = (watch.intervalMinutes ?? DEFAULT_WATCH_INTERVAL_MINUTES) * 60000;
+  const threshold = watch.thresholdInPercent ?? profile.thresholdInPercent ?? DEFAULT_ALERT_THRESHOLD_PERCENT;
+  const dedupeWindowMs = (watch.dedupeWindowHours ?? DEFAULT_DEDUPE_WINDOW_HOURS) * 3600000;
+  const sinks = watch.sinks ?? [];
+  const history = openNewsHistory(watch.historyPath);
+
+  // Ctrl+C ends the watch after the current check, or right away while waiting for the next one
+  let stopped = false;
+  let wakeUp: (() => void) | null = null;
+  const stop = () => {
+    console.log("Stopping the watch...");
+    stopped = true;
+    wakeUp?.();
+  };
+  process.once("SIGINT", stop);
+
+  console.log(`Watching ${sources.length} source(s) of the ${profile.name} profile every ${intervalMs / 60000} minute(s), alerting at ${threshold}% via ${sinks.map(sink => sink.name).join(", ") || "the console"}.`);
+  try {
+    for (let check = 1; !stopped && (watch.maxChecks === undefined || check <= watch.maxChecks); check++) {
+      const checkedAt = new Date().toISOString();
+      console.log(`\n--- Check ${check} at ${checkedAt} ---`);
+      try {
+        const items = await readNewItems(reader);
+        if (!items) {
+          throw new Error("Could not retrieve any news");
+        }
+        if (items.length === 0) {
+          console.log("No new tweets or feed entries since the last check.");
+          history.add({ checkedAt, profile: profile.name, sources, newItems: 0 });
+        } else {
+          const summary = await askForNewsSummary(llm, reader, items);
+          summary.summaryBulletPoints.forEach(point => console.log(`- ${point}`));
+          Object.entries(summary.details ?? {}).forEach(([name, value]) => console.log(`${name}: ${JSON.stringify(value)}`));
+          console.log(`Breaking news probability: ${summary.breakingNewsProbabilityInPercent}%`);
+
+          const entry: NewsHistoryEntry = { checkedAt, profile: profile.name, sources, newItems: items.length, summary };
+          if (summary.breakingNewsProbabilityInPercent >= threshold) {
+            const earlier = history.findAlertedStory(profile.name, summary, Date.parse(checkedAt) - dedupeWindowMs);
+            if (earlier) {
+              console.log(`Same story as the alert of ${earlier.checkedAt}, not alerting again.`);
+              entry.alert = "duplicate";
+              entry.duplicateOf = earlier.checkedAt;
+            } else {
+              const alert: NewsAlert = { checkedAt, profile: profile.name, title: profile.title, thresholdInPercent: threshold, sources, ...summary };
+              console.log(`*** Possible breaking news (${summary.breakingNewsProbabilityInPercent}% >= ${threshold}%) ***`);
+              entry.alert = sinks.length === 0 || await sendAlert(sinks, alert) > 0 ? "sent" : "failed";
+            }
+          }
+          history.add(entry);
+          // A story no sink was told about is summarized and alerted again on the next check
+          if (entry.alert !== "failed") {
+            reader.seenTweets.add(items);
+          }
+        }
+      } catch (error) {
+        if (error instanceof StepError && error.kind === "auth") {
+          console.error(`Error: ${error.message}, stopping the watch.`);
+          return false;
+        }
+        console.error(`Check ${check} failed: ${error instanceof Error ? error.message : error}`);
+        history.add({ checkedAt, profile: profile.name, sources, error: error instanceof Error ? error.message : String(error) });
+      }
+
+      if (!stopped && (watch.maxChecks === undefined || check < watch.maxChecks)) {
+        console.log(`Next check at ${new Date(Date.now() + intervalMs).toLocaleTimeString()}.`);
+        // A pending timer would keep the process alive after Ctrl+C
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, intervalMs);
+          wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wakeUp = null;
+      }
+    }
+    return true;
+  } finally {
+    process.removeListener("SIGINT", stop);
+  }
+}
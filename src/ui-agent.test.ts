@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { runAgent, AgentClient, AgentError } from './ui-agent';
+import { createScriptedProvider } from './llm-replay-provider';
+import { createStepRunner } from './step-runner';
+import { RunLog } from './run-log';
+
+// A calculator with the buttons Seven and Equals; typing fails, invoking Seven shows 7 on the display
+function fakeCalculator() {
+  let display = "0";
+  const calls: string[] = [];
+  const tree = () => ({
+    id: "w1", name: "Calculator", controlType: "Window", children: [
+      { id: "b7", name: "Seven", controlType: "Button" },
+      { id: "eq", name: "Equals", controlType: "Button" },
+      { id: "res", name: `Display is ${display}`, controlType: "Text" },
+    ],
+  });
+  const record = (call: string, result = { success: true }) => async () => {
+    calls.push(call);
+    return result;
+  };
+  const client = {
+    system: { getOverview: async () => ({ windows: [{ id: "w1", title: "Calculator" }], focusInfo: { focusedElementParentWindow: tree() } }) },
+    automation: {
+      invoke: async (id: string) => {
+        calls.push(`invoke ${id}`);
+        display = id === "b7" ? "7" : display;
+        return { success: true };
+      },
+      setValue: record("setValue"),
+    },
+    keyboard: { type: record("type", { success: false, message: "no focus" } as { success: boolean }), press: record("press") },
+    mouse: { clickByDescription: record("click") },
+    chrome: { navigate: record("navigate") },
+  };
+  return { calls, client: client as unknown as AgentClient };
+}
+
+const answer = (action: object) => JSON.stringify({ reasoning: "closer to the goal", ...action });
+const steps = createStepRunner({ maxAttempts: 1 });
+
+test("the agent runs the chosen actions until the model is done", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  const { client, calls } = fakeCalculator();
+  const saved: Array<[string, unknown]> = [];
+  const runLog = { saveArtifact: (name: string, content: unknown) => saved.push([name, content]) } as unknown as RunLog;
+  const result = await runAgent("show 7", {
+    client, steps, runLog, llm: createScriptedProvider([
+      answer({ action: "keyboard.type", text: "7" }),
+      // An element ID that is not in the tree is sent back to the model, which corrects it
+      answer({ action: "automation.invoke", element: "seven" }),
+      answer({ action: "automation.invoke", element: "b7" }),
+      answer({ action: "done", result: "7" }),
+    ]),
+  });
+  assert.equal(result.status, "done");
+  assert.equal(result.message, "7");
+  assert.deepEqual(calls, ["type", "invoke b7"]);
+  assert.deepEqual(result.transcript.map(entry => [entry.action.action, entry.outcome]), [
+    ["keyboard.type", "failed"],
+    ["automation.invoke", "succeeded"],
+    ["done", "done"],
+  ]);
+  // The error of the failed action is kept in the transcript
+  assert.match(result.transcript[0].message ?? "", /no focus$/);
+  assert.equal(result.transcript[0].focusedWindow, "Calculator");
+  // The screen changed after invoking Seven
+  assert.equal(result.transcript[0].snapshotHash, result.transcript[1].snapshotHash);
+  assert.notEqual(result.transcript[1].snapshotHash, result.transcript[2].snapshotHash);
+
+  assert.equal(saved.length, 1);
+  assert.equal(saved[0][0], "agent-transcript.json");
+  assert.deepEqual(saved[0][1], { goal: "show 7", status: "done", message: "7", transcript: result.transcript });
+});
+
+test("the agent stops repeating an action on an unchanged screen", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "error", () => {});
+  const { client, calls } = fakeCalculator();
+  const equals = answer({ action: "automation.invoke", element: "eq" });
+  const result = await runAgent("loop", { client, steps, llm: createScriptedProvider([equals, equals, equals]) });
+  assert.equal(result.status, "loop");
+  assert.deepEqual(calls, ["invoke eq", "invoke eq"]);
+  assert.deepEqual(result.transcript.map(entry => entry.outcome), ["succeeded", "succeeded", "blocked"]);
+});
+
+test("the agent stops when the step budget is used up", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "error", () => {});
+  const { client, calls } = fakeCalculator();
+  const result = await runAgent("budget", {
+    client, steps, maxSteps: 1, llm: createScriptedProvider([
+      answer({ action: "keyboard.press", key: "A" }),
+      answer({ action: "keyboard.press", key: "B" }),
+    ]),
+  });
+  assert.equal(result.status, "step-budget");
+  assert.equal(result.message, "Goal not reached within 1 action(s)");
+  assert.deepEqual(calls, ["press"]);
+  assert.deepEqual(result.transcript.map(entry => entry.outcome), ["succeeded", "blocked"]);
+});
+
+test("the model can only choose the allowed actions", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "error", () => {});
+  const { client, calls } = fakeCalculator();
+  const press = answer({ action: "keyboard.press", key: "A" });
+  const result = await runAgent("allowed", {
+    client, steps, allowedActions: ["automation.invoke"], llm: createScriptedProvider([press, press, press, press]),
+  });
+  assert.equal(result.status, "error");
+  assert.deepEqual(calls, []);
+  assert.deepEqual(result.transcript, []);
+
+  await assert.rejects(runAgent("unknown", { client, llm: createScriptedProvider([]), allowedActions: ["files.delete" as never] }),
+    (error: unknown) => error instanceof AgentError && /Unknown agent action\(s\) files\.delete/.test(error.message));
+  await assert.rejects(runAgent("none", { client, llm: createScriptedProvider([]), allowedActions: [] }), AgentError);
+});
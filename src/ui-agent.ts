@@ -0,0 +1,353 @@
+import * as crypto from 'crypto';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { LlmProvider } from './llm-provider';
+import { completeStructured, defineStructuredOutput } from './structured-output';
+import { AutomationNode, walkTree } from './automation-tree';
+import { compactTree } from './tree-compaction';
+import { createStepRunner, StepRunner } from './step-runner';
+import { RunLog } from './run-log';
+import { expectFocusedWindow } from './action-guard';
+
+/**
+ * The UI actions the agent can choose from
+ */
+export type AgentActionName =
+  | "automation.invoke"
+  | "automation.setValue"
+  | "keyboard.type"
+  | "keyboard.press"
+  | "mouse.clickByDescription"
+  | "chrome.navigate";
+
+/**
+ * The parts of the client the agent uses; a fake client only needs these
+ */
+export type AgentClient = Pick<SmoothOperatorClient, "system" | "automation" | "keyboard" | "mouse" | "chrome">;
+
+/**
+ * The next action as chosen by the model; "done" ends the run
+ */
+export interface AgentAction {
+  action: AgentActionName | "done";
+  /** Element ID (automation.invoke, automation.setValue) */
+  element?: string;
+  /** Value to set (automation.setValue) */
+  value?: string;
+  /** Text to type (keyboard.type) */
+  text?: string;
+  /** Key or key combination, e.g. "Enter" or "Ctrl+S" (keyboard.press) */
+  key?: string;
+  /** Description of what to click (mouse.clickByDescription) */
+  description?: string;
+  /** URL to open (chrome.navigate) */
+  url?: string;
+  /** Outcome of the goal (done) */
+  result?: string;
+  /** Why the model chose the action */
+  reasoning: string;
+}
+
+/**
+ * A step of the agent run: the screen it started from, the chosen action and what happened
+ */
+export interface AgentTranscriptEntry {
+  step: number;
+  /** Hash of the snapshot the action was chosen on; equal hashes mean an unchanged screen */
+  snapshotHash: string;
+  /** Title of the focused window */
+  focusedWindow?: string;
+  action: AgentAction;
+  /** done: the model ended the run; blocked: the action was not executed */
+  outcome: "succeeded" | "failed" | "done" | "blocked";
+  /** Error or result message of the action */
+  message?: string;
+  durationMs: number;
+}
+
+/**
+ * How an agent run ended: the model said it is done, the step budget ran out, the agent repeated
+ * itself without any effect, or the model or the automation failed
+ */
+export type AgentRunStatus = "done" | "step-budget" | "loop" | "error";
+
+/**
+ * Result of runAgent, including the transcript of every step
+ */
+export interface AgentRunResult {
+  status: AgentRunStatus;
+  /** The outcome reported by the model (done) or why the run stopped */
+  message: string;
+  transcript: AgentTranscriptEntry[];
+}
+
+/**
+ * Options of runAgent
+ */
+export interface AgentOptions {
+  client: AgentClient;
+  llm: LlmProvider;
+  /** Runs the snapshots, actions and model calls with retries (default: a runner with default retries) */
+  steps?: StepRunner;
+  /** Actions executed at most, the run stops after that (default: DEFAULT_AGENT_MAX_STEPS) */
+  maxSteps?: number;
+  /** The actions the model may choose (default: all of AGENT_ACTIONS) */
+  allowedActions?: AgentActionName[];
+  /** How often the same action may be chosen on an unchanged screen before the run stops as a loop (default: 2) */
+  maxRepeats?: number;
+  /** Run log the transcript is saved to as agent-transcript.json (default: none) */
+  runLog?: RunLog;
+}
+
+/** Actions an agent run executes at most */
+export const DEFAULT_AGENT_MAX_STEPS = 20;
+
+// How an action is described to the model, its fields and how it is executed
+interface ActionDefinition {
+  description: string;
+  fields: Array<keyof AgentAction>;
+  run(client: AgentClient, action: AgentAction): Promise<{ success?: boolean; message?: string } | undefined>;
+}
+
+const actionDefinitions: Record<AgentActionName, ActionDefinition> = {
+  "automation.invoke": {
+    description: "invoke (click) the element with the element ID \"element\" from the automation tree",
+    fields: ["element"],
+    run: (client, action) => client.automation.invoke(action.element!),
+  },
+  "automation.setValue": {
+    description: "set the value of the input element \"element\" to \"value\"",
+    fields: ["element", "value"],
+    run: (client, action) => client.automation.setValue(action.element!, action.value!),
+  },
+  "keyboard.type": {
+    description: "type \"text\" into the focused element",
+    fields: ["text"],
+    run: (client, action) => client.keyboard.type(action.text!),
+  },
+  "keyboard.press": {
+    description: "press the key or key combination \"key\", e.g. \"Enter\" or \"Ctrl+S\"",
+    fields: ["key"],
+    run: (client, action) => client.keyboard.press(action.key!),
+  },
+  "mouse.clickByDescription": {
+    description: "click what \"description\" describes, found on a screenshot; only if the element is not in the tree",
+    fields: ["description"],
+    run: (client, action) => client.mouse.clickByDescription(action.description!),
+  },
+  "chrome.navigate": {
+    description: "open \"url\" in the Chrome window controlled by Smooth Operator",
+    fields: ["url"],
+    run: (client, action) => client.chrome.navigate(action.url!),
+  },
+};
+
+/** All actions the agent knows */
+export const AGENT_ACTIONS = Object.keys(actionDefinitions) as AgentActionName[];
+
+/**
+ * Thrown by runAgent for invalid options
+ */
+export class AgentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentError";
+  }
+}
+
+// What the model sees of the screen, and the element IDs it may use
+interface Snapshot {
+  text: string;
+  hash: string;
+  focusedWindow?: string;
+  focusedWindowId?: string;
+  elementIds: Set<string>;
+}
+
+async function takeSnapshot(client: AgentClient, steps: StepRunner): Promise<Snapshot> {
+  const overview = await steps.run("get system overview", () => client.system.getOverview());
+  const windows = (overview.windows ?? []).map(window => window.title);
+  const focusedWindow: AutomationNode | undefined = overview.focusInfo?.focusedElementParentWindow;
+  const focusedElement: AutomationNode | undefined = overview.focusInfo?.focusedElement;
+
+  const elementIds = new Set<string>();
+  for (const root of [focusedWindow, focusedElement]) {
+    if (root) {
+      walkTree(root, node => { if (node.id) elementIds.add(node.id); });
+    }
+  }
+  const text = `Open windows: ${JSON.stringify(windows)}\n\n`
+    + `Focused element: ${JSON.stringify(focusedElement ? { id: focusedElement.id, name: focusedElement.name, controlType: focusedElement.controlType } : null)}\n\n`
+    + (focusedWindow
+      ? `Focused window with its automation tree (one element per line with control type, name, id and value; children are indented):\n${compactTree(focusedWindow).text}`
+      : "No focused window");
+  return {
+    text,
+    // Of the full tree, the compacted one may leave out changes
+    hash: crypto.createHash("sha256").update(JSON.stringify([windows, focusedElement, focusedWindow])).digest("hex").slice(0, 16),
+    focusedWindow: focusedWindow?.name ?? (focusedWindow as { title?: string } | undefined)?.title,
+    focusedWindowId: focusedWindow?.id,
+    elementIds,
+  };
+}
+
+// The action without its reasoning, e.g. 'keyboard.type text="3+4"'
+function describeAction(action: AgentAction): string {
+  if (action.action === "done") {
+    return "done";
+  }
+  const fields = actionDefinitions[action.action].fields.map(field => `${field}=${JSON.stringify(action[field])}`);
+  return [action.action, ...fields].join(" ");
+}
+
+function buildPrompt(goal: string, allowed: AgentActionName[], snapshot: Snapshot, transcript: AgentTranscriptEntry[], stepsLeft: number): string {
+  const history = transcript.length === 0 ? "none yet"
+    : transcript.map(entry => `${entry.step}. ${describeAction(entry.action)} -> ${entry.outcome}${entry.message ? ` (${entry.message})` : ""}`
+      + `${entry.snapshotHash === snapshot.hash ? " [on the current screen]" : ""}`).join("\n");
+  return `You operate a Windows computer with UI automation to reach this goal:\n${goal}\n\n`
+    + `Choose the single next action. Available actions:\n`
+    + allowed.map(name => `- ${name}: ${actionDefinitions[name].description}`).join("\n")
+    + `\n- done: the goal is reached, or it cannot be reached; put the outcome into "result"\n\n`
+    + `Only use element IDs of the automation tree below. Prefer the automation actions over clicking by description. `
+    + `Do not repeat an action that did not change the screen, try something else. `
+    + `You have ${stepsLeft} action(s) left.\n\n`
+    + `Actions so far:\n${history}\n\n`
+    + `Current screen:\n${snapshot.text}\n\n{{format}}`;
+}
+
+function createActionOutput(allowed: AgentActionName[]) {
+  const text = (description: string) => ({ type: "string" as const, description });
+  return defineStructuredOutput<AgentAction>("next action", {
+    type: "object",
+    properties: {
+      action: { type: "string", enum: [...allowed, "done"] },
+      element: text("element ID, for automation.invoke and automation.setValue"),
+      value: text("value, for automation.setValue"),
+      text: text("text, for keyboard.type"),
+      key: text("key, for keyboard.press"),
+      description: text("what to click, for mouse.clickByDescription"),
+      url: text("URL, for chrome.navigate"),
+      result: text("outcome of the goal, for done"),
+      reasoning: text("why this action brings you closer to the goal"),
+    },
+    required: ["action", "reasoning"],
+  });
+}
+
+// Problems of an action the schema cannot express: missing fields and unknown element IDs
+function checkAction(action: AgentAction, snapshot: Snapshot): string[] {
+  if (action.action === "done") {
+    return [];
+  }
+  const problems = actionDefinitions[action.action].fields
+    .filter(field => typeof action[field] !== "string" || action[field] === "")
+    .map(field => `answer.${field}: is required for ${action.action}`);
+  if (action.element && !snapshot.elementIds.has(action.element)) {
+    problems.push(`answer.element: "${action.element}" is no element ID of the automation tree`);
+  }
+  return problems;
+}
+
+/**
+ * Let the model reach a goal step by step: take a snapshot of the screen with getOverview, ask the
+ * model for the next action from the allowed actions, execute it and repeat until the model answers
+ * "done". A failed action is reported to the model in the next step. The run stops when maxSteps
+ * actions were executed, or as a loop when the same action is chosen more than maxRepeats times on an
+ * unchanged screen. Errors of the model or of the snapshots end the run with the status "error".
+ */
+export async function runAgent(goal: string, options: AgentOptions): Promise<AgentRunResult> {
+  const steps = options.steps ?? createStepRunner();
+  const maxSteps = options.maxSteps ?? DEFAULT_AGENT_MAX_STEPS;
+  const maxRepeats = options.maxRepeats ?? 2;
+  const allowed = options.allowedActions ?? AGENT_ACTIONS;
+  const unknown = allowed.filter(name => !AGENT_ACTIONS.includes(name));
+  if (unknown.length > 0) {
+    throw new AgentError(`Unknown agent action(s) ${unknown.join(", ")}, expected ${AGENT_ACTIONS.join(", ")}`);
+  }
+  if (allowed.length === 0) {
+    throw new AgentError("The agent needs at least one allowed action");
+  }
+  const output = createActionOutput(allowed);
+
+  const transcript: AgentTranscriptEntry[] = [];
+  // How often each action was chosen on each screen
+  const repeats = new Map<string, number>();
+
+  const finish = (status: AgentRunStatus, message: string): AgentRunResult => {
+    options.runLog?.saveArtifact("agent-transcript.json", { goal, status, message, transcript });
+    return { status, message, transcript };
+  };
+
+  for (let step = 1; step <= maxSteps + 1; step++) {
+    const started = Date.now();
+    let snapshot: Snapshot;
+    let action: AgentAction;
+    try {
+      snapshot = await takeSnapshot(options.client, steps);
+      console.log(`Step ${step}: asking ${options.llm.name} for the next action${snapshot.focusedWindow ? ` in "${snapshot.focusedWindow}"` : ""}...`);
+      action = await completeStructured(options.llm, output, {
+        task: "agent-action",
+        prompt: buildPrompt(goal, allowed, snapshot, transcript, maxSteps - transcript.length),
+      }, { steps, stepName: `choose action ${step}`, check: value => checkAction(value, snapshot) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`The agent stopped: ${message}`);
+      return finish("error", message);
+    }
+    console.log(`  ${describeAction(action)}: ${action.reasoning}`);
+
+    const entry: AgentTranscriptEntry = {
+      step,
+      snapshotHash: snapshot.hash,
+      focusedWindow: snapshot.focusedWindow,
+      action,
+      outcome: "done",
+      durationMs: 0,
+    };
+    transcript.push(entry);
+
+    if (action.action === "done") {
+      entry.message = action.result;
+      entry.durationMs = Date.now() - started;
+      console.log(`The agent is done after ${step - 1} action(s): ${action.result ?? "no result given"}`);
+      return finish("done", action.result ?? "");
+    }
+    // The budget is checked after asking, so the model can still answer "done" after its last action
+    if (step > maxSteps) {
+      entry.outcome = "blocked";
+      entry.message = "step budget exhausted";
+      entry.durationMs = Date.now() - started;
+      console.error(`The agent did not reach the goal within ${maxSteps} action(s).`);
+      return finish("step-budget", `Goal not reached within ${maxSteps} action(s)`);
+    }
+
+    const key = `${snapshot.hash} ${describeAction(action)}`;
+    const count = (repeats.get(key) ?? 0) + 1;
+    repeats.set(key, count);
+    if (count > maxRepeats) {
+      entry.outcome = "blocked";
+      entry.message = `chosen ${count} times on an unchanged screen`;
+      entry.durationMs = Date.now() - started;
+      console.error(`The agent is stuck: it chose ${describeAction(action)} ${count} times without any change on the screen.`);
+      return finish("loop", `Stuck repeating ${describeAction(action)}`);
+    }
+
+    // The model chose the text for the window of the snapshot, a guarded client refuses to type into another one
+    if (action.action === "keyboard.type") {
+      expectFocusedWindow(options.client, snapshot.focusedWindowId ? `Window[id="${snapshot.focusedWindowId}"]` : null);
+    }
+    try {
+      const result = await steps.run(`${action.action} (step ${step})`, () => actionDefinitions[action.action as AgentActionName].run(options.client, action));
+      entry.outcome = result?.success === false ? "failed" : "succeeded";
+      entry.message = result?.message;
+    } catch (error) {
+      entry.outcome = "failed";
+      entry.message = error instanceof Error ? error.message : String(error);
+    }
+    entry.durationMs = Date.now() - started;
+    if (entry.outcome === "failed") {
+      console.warn(`  The action failed${entry.message ? `: ${entry.message}` : ""}; the model is told in the next step.`);
+    }
+  }
+  // Not reached, the last iteration returns
+  return finish("step-budget", `Goal not reached within ${maxSteps} action(s)`);
+}
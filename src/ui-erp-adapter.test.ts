@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createUiErpAdapter, MOCK_ERP_ARTIFACT } from './ui-erp-adapter';
+import { createScriptedProvider } from './llm-replay-provider';
+import { createStepRunner, StepError } from './step-runner';
+
+const erpWindow = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "fixtures", "erp-window.tree.json"), "utf8"));
+
+const networkError = () => Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+
+// The Mini ERP Mock of fixtures/erp-window.tree.json; its tree changes with every click.
+// failures are thrown by the calls of the keys, e.g. "setValue 42.1057", in turn.
+function createFakeErp(failures: Record<string, Error[]> = {}) {
+  const calls: string[] = [];
+  let clicks = 0;
+  const call = (name: string) => {
+    calls.push(name);
+    const error = failures[name]?.shift();
+    if (error) {
+      throw error;
+    }
+  };
+  const client = {
+    system: {
+      openApplication: async (path: string) => {
+        call(`openApplication ${path}`);
+        return { success: true };
+      },
+      getOverview: async () => ({ windows: [{ id: erpWindow.id, title: erpWindow.name }] }),
+      getWindowDetails: async () => ({ userInterfaceElements: { ...erpWindow, clicks } }),
+    },
+    automation: {
+      setValue: async (id: string) => {
+        call(`setValue ${id}`);
+        return { success: true };
+      },
+      invoke: async (id: string) => {
+        call(`invoke ${id}`);
+        clicks++;
+        return { success: true };
+      },
+    },
+  } as unknown as SmoothOperatorClient;
+  return { client, calls };
+}
+
+const steps = () => createStepRunner({ initialDelayMs: 1 }, undefined, async () => {});
+
+const selectorCachePath = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "selectors-")), "erp-selectors.json");
+
+test("the fields of an article are entered again, Add Item is clicked once", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  const { client, calls } = createFakeErp({ "setValue 42.1057": [networkError()] });
+  const erp = createUiErpAdapter(client, createScriptedProvider([]), steps(),
+    { erpExePath: "C:/Tools/erp.exe", selectorCachePath: selectorCachePath(), skipVerification: true });
+  await erp.open();
+  const result = await erp.enterOrder({
+    customerName: "Smith",
+    orderedArticles: [{ articleName: "Mouse", quantity: 2, pricePerUnit: 10 }, { articleName: "Cable", quantity: 1, pricePerUnit: 5 }],
+  });
+  assert.equal(result.status, "entered");
+  assert.deepEqual(calls, [
+    "openApplication C:/Tools/erp.exe",
+    "setValue 42.1054",
+    "setValue 42.1055", "setValue 42.1056", "setValue 42.1057",
+    // The price could not be set, the article is entered again
+    "setValue 42.1055", "setValue 42.1056", "setValue 42.1057",
+    "invoke 42.1058",
+    "setValue 42.1055", "setValue 42.1056", "setValue 42.1057",
+    "invoke 42.1058",
+    "invoke 42.1070",
+  ]);
+});
+
+test("a failed Add Item is not clicked again", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  const { client, calls } = createFakeErp({ "invoke 42.1058": [networkError()] });
+  const erp = createUiErpAdapter(client, createScriptedProvider([]), steps(),
+    { erpExePath: "C:/Tools/erp.exe", selectorCachePath: selectorCachePath(), skipVerification: true });
+  await erp.open();
+  await assert.rejects(erp.enterOrder({ customerName: "Smith", orderedArticles: [{ articleName: "Mouse", quantity: 2, pricePerUnit: 10 }] }),
+    (error: unknown) => error instanceof StepError && error.step === 'add article "Mouse"' && error.attempts === 1);
+  assert.deepEqual(calls.filter(name => name.startsWith("invoke")), ["invoke 42.1058"]);
+});
+
+test("without erpExePath the mock ERP is downloaded into the cache and launched from there", async t => {
+  t.mock.method(console, "log", () => {});
+  t.mock.method(console, "warn", () => {});
+  // Stand-in for the download host of the mock ERP
+  const downloads: string[] = [];
+  const server = http.createServer((request, response) => {
+    downloads.push(request.url ?? "");
+    response.end("MZ mini erp mock");
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const artifactCacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+  try {
+    const options = {
+      mockErpArtifact: { ...MOCK_ERP_ARTIFACT, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mini-erp-mock.exe` },
+      artifactCacheDir,
+      selectorCachePath: selectorCachePath(),
+      skipVerification: true,
+    };
+    const exePath = path.join(artifactCacheDir, "mini-erp-mock", MOCK_ERP_ARTIFACT.version, "mini-erp-mock.exe");
+    for (let run = 0; run < 2; run++) {
+      const { client, calls } = createFakeErp();
+      await createUiErpAdapter(client, createScriptedProvider([]), steps(), options).open();
+      assert.equal(calls[0], `openApplication ${exePath}`);
+    }
+    assert.equal(fs.readFileSync(exePath, "utf8"), "MZ mini erp mock");
+    // The second run uses the cached file
+    assert.deepEqual(downloads, ["/mini-erp-mock.exe"]);
+  } finally {
+    server.close();
+    fs.rmSync(artifactCacheDir, { recursive: true });
+  }
+});
@@ -0,0 +1,353 @@
+import * as fs from 'fs';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { Order } from './order';
+import { OrderValidationError } from './order-validation';
+import { LlmProvider } from './llm-provider';
+import { openSelectorCache, SelectorCache } from './selector-cache';
+import { AutomationNode, windowListToTree, findNodeById } from './automation-tree';
+import { queryAll, queryOne, queryIds, ElementNotFoundError, AmbiguousElementError } from './tree-query';
+import { waitForWindow, waitForTreeChangeAfter, getWindowTree } from './wait-for';
+import { StepError, StepRunner } from './step-runner';
+import { completeStructured, defineStructuredOutput } from './structured-output';
+import { compactTree, formatCompactionStats } from './tree-compaction';
+import { ErpAdapter, ErpAdapterError } from './erp-adapter';
+import { fetchArtifact, ArtifactManifestEntry } from './artifact-fetcher';
+import {
+  readErpOrder,
+  diffOrder,
+  formatOrderDiff,
+  toReviewErrors,
+  ErpVerificationSelectors,
+  DEFAULT_ERP_VERIFICATION_SELECTORS,
+} from './erp-verification';
+
+/**
+ * Settings of the UI automation target, the Mini ERP Mock or another ERP application with a similar form
+ */
+export interface UiErpAdapterOptions {
+  /** Selectors for the ERP window and controls (default: DEFAULT_ERP_WINDOW_SELECTOR, DEFAULT_ERP_SELECTORS) */
+  erpWindowSelector?: string;
+  erpSelectors?: Partial<ErpSelectors>;
+  /** Selectors for reading a saved order back (default: DEFAULT_ERP_VERIFICATION_SELECTORS) */
+  erpVerificationSelectors?: Partial<ErpVerificationSelectors>;
+  /** Skip reading the saved order back from the ERP (default: false) */
+  skipVerification?: boolean;
+  /** Cache file of the ERP element IDs (default: DEFAULT_SELECTOR_CACHE_PATH) */
+  selectorCachePath?: string;
+  /** Path to an already downloaded ERP executable; skips the mock ERP download */
+  erpExePath?: string;
+  /** Never download the mock ERP, take the pinned version from this file or directory (default: download it) */
+  erpOfflinePath?: string;
+  /** Cache directory of the mock ERP download (default: DEFAULT_ARTIFACT_CACHE_DIR) */
+  artifactCacheDir?: string;
+  /** Version of the mock ERP to download (default: MOCK_ERP_ARTIFACT) */
+  mockErpArtifact?: ArtifactManifestEntry;
+}
+
+/**
+ * The download of the Mini ERP Mock. Its sha256 and size are not pinned yet, so fetchArtifact trusts the
+ * first download and verifies later runs against the hash it recorded then.
+ */
+export const MOCK_ERP_ARTIFACT: ArtifactManifestEntry = {
+  name: "mini-erp-mock",
+  version: "1",
+  url: "https://www.dropbox.com/scl/fi/4qc9w57zrmmisyqu3ojnp/mini-erp-mock.exe?rlkey=x5m3ob810zt1scf0mpfn15l4v&dl=1",
+  fileName: "mini-erp-mock.exe",
+};
+
+// Interface for ERP element IDs
+interface ErpElementIds {
+  elementIdCustomerName: string;
+  elementIdArticleName: string;
+  elementIdQuantity: string;
+  elementIdPricePerUnit: string;
+  elementIdAddItemButton: string;
+  elementIdSaveOrderButton: string;
+}
+
+// The element IDs as the language model is asked to identify them
+const ERP_ELEMENT_IDS_OUTPUT = defineStructuredOutput<ErpElementIds>("ERP element IDs", {
+  type: "object",
+  properties: {
+    elementIdCustomerName: { type: "string", description: "ID of the customer name input" },
+    elementIdArticleName: { type: "string", description: "ID of the article name input" },
+    elementIdQuantity: { type: "string", description: "ID of the quantity input" },
+    elementIdPricePerUnit: { type: "string", description: "ID of the price input" },
+    elementIdAddItemButton: { type: "string", description: "ID of the add item button" },
+    elementIdSaveOrderButton: { type: "string", description: "ID of the save order button" },
+  },
+});
+
+/** Tree selectors (see tree-query.ts) for the ERP controls */
+export type ErpSelectors = { [K in keyof ErpElementIds]: string };
+
+/** Selectors for the controls of the Mini ERP Mock */
+export const DEFAULT_ERP_SELECTORS: ErpSelectors = {
+  elementIdCustomerName: 'Edit[name~="Customer"]',
+  elementIdArticleName: 'Edit[name~="Article"]',
+  elementIdQuantity: 'Edit[name~="Quantity"]',
+  elementIdPricePerUnit: 'Edit[name~="Price"]',
+  elementIdAddItemButton: 'Button[name~="Add Item"]',
+  elementIdSaveOrderButton: 'Button[name~="Save Order"]',
+};
+
+/** Selector for the Mini ERP Mock window in the list of open windows */
+export const DEFAULT_ERP_WINDOW_SELECTOR = 'Window[name~="ERP system"]';
+
+/**
+ * Load ERP selectors from a JSON file with the keys of ErpSelectors, an optional "window" selector
+ * and optional "verification" selectors (keys of ErpVerificationSelectors)
+ */
+export function loadErpSelectors(
+  filePath: string
+): Pick<UiErpAdapterOptions, "erpWindowSelector" | "erpSelectors" | "erpVerificationSelectors"> {
+  const { window, verification, ...erpSelectors } = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<ErpSelectors>
+    & { window?: string; verification?: Partial<ErpVerificationSelectors> };
+  return { erpWindowSelector: window, erpSelectors, erpVerificationSelectors: verification };
+}
+
+/**
+ * Use the language model to identify the element IDs in the ERP UI; IDs that are not in the tree are sent back for correction
+ */
+async function identifyErpElementIds(
+  tree: AutomationNode,
+  llm: LlmProvider,
+  steps: StepRunner
+): Promise<ErpElementIds | null> {
+  // Only the controls the model can pick from, in a compact form, see compactTree
+  const compact = compactTree(tree);
+  console.log(formatCompactionStats(compact));
+  console.log(`Asking ${llm.name} to identify ERP element IDs...`);
+  try {
+    const prompt = `Based on the following UI automation tree of the 'Mini ERP Mock' application, identify the element IDs for the specified controls. {{format}}
+
+UI Automation Tree (one element per line with control type, name, id and value; children are indented):
+${compact.text}`;
+
+    const elementIds = await completeStructured(llm, ERP_ELEMENT_IDS_OUTPUT, { task: "erp-element-ids", prompt }, {
+      steps,
+      stepName: "identify ERP element IDs",
+      check: ids => Object.entries(ids)
+        .filter(([, id]) => !findNodeById(tree, id))
+        .map(([name, id]) => `answer.${name}: there is no element with the ID ${JSON.stringify(id)} in the tree`),
+    });
+    console.log(`AI Element ID Response: ${JSON.stringify(elementIds)}`);
+    
+    console.log("Successfully identified ERP element IDs.");
+    return elementIds;
+    
+  } catch (ex) {
+    console.error(`Error calling ${llm.name} for element ID extraction: ${ex}`);
+    return null;
+  }
+}
+
+/**
+ * The ERP window and the element IDs of its controls
+ */
+interface ErpControls {
+  windowId: string;
+  elementIds: ErpElementIds;
+}
+
+/**
+ * Find the ERP window and identify the element IDs of its controls.
+ * Tries the tree selectors first, then the selector cache (if its IDs still resolve in the window)
+ * and asks the language model only if both fail.
+ */
+async function findErpControls(
+  client: SmoothOperatorClient,
+  llm: LlmProvider,
+  selectorCache: SelectorCache,
+  steps: StepRunner,
+  options: UiErpAdapterOptions
+): Promise<ErpControls | null> {
+  // 1. Get Overview and Find ERP Window
+  console.log("Getting system overview...");
+  const overview = await steps.run("get system overview", () => client.system.getOverview());
+  
+  // Prefer the focused window if it is the ERP, otherwise find the ERP window among all windows
+  const windowSelector = options.erpWindowSelector ?? DEFAULT_ERP_WINDOW_SELECTOR;
+  const focusedWindow = overview.focusInfo?.focusedElementParentWindow;
+  let erpWindow: AutomationNode;
+  try {
+    erpWindow = (focusedWindow && queryAll(windowListToTree([focusedWindow]), windowSelector)[0])
+      || queryOne(windowListToTree(overview.windows ?? []), windowSelector);
+  } catch (ex) {
+    console.error(`Error: Could not find the Mock ERP window. ${ex instanceof Error ? ex.message : ex}`);
+    return null;
+  }
+  
+  console.log(`Found Mock ERP window: ${erpWindow.id} - ${erpWindow.name}`);
+  
+  console.log("Getting ERP window details...");
+  const windowDetails = await steps.run("get ERP window details", () => client.system.getWindowDetails(erpWindow.id!));
+  if (!windowDetails || !windowDetails.userInterfaceElements) {
+    console.error("Error: Could not get details for the Mock ERP window.");
+    return null;
+  }
+  const tree: AutomationNode = windowDetails.userInterfaceElements;
+  const windowId = erpWindow.id!;
+  const windowTitle = erpWindow.name ?? "";
+  
+  // 2. Locate the controls with the tree selectors, no AI needed
+  try {
+    const selectedIds = queryIds(tree, { ...DEFAULT_ERP_SELECTORS, ...options.erpSelectors });
+    console.log("Found ERP element IDs with the tree selectors.");
+    return { windowId, elementIds: selectedIds };
+  } catch (ex) {
+    if (!(ex instanceof ElementNotFoundError || ex instanceof AmbiguousElementError)) {
+      throw ex;
+    }
+    console.log(`Tree selectors did not match (${ex.message}), trying the cache.`);
+  }
+  
+  // 3. Use the cached Element IDs if the window did not change
+  const cachedIds = selectorCache.lookup<ErpElementIds>(windowTitle, tree);
+  if (cachedIds) {
+    console.log("Using cached ERP element IDs.");
+    return { windowId, elementIds: cachedIds };
+  }
+  
+  // 4. Get Element IDs using AI
+  const erpElementIds = await identifyErpElementIds(tree, llm, steps);
+  if (erpElementIds && selectorCache.store(windowTitle, tree, erpElementIds)) {
+    console.log("Cached ERP element IDs for the next runs.");
+  }
+  return erpElementIds && { windowId, elementIds: erpElementIds };
+}
+
+/**
+ * Enter a single order into the ERP form and save it.
+ * After "Add Item" and "Save Order" waits until the ERP window shows the result.
+ * The fields of an article are entered again if that fails; "Add Item" and "Save Order" are never
+ * repeated, after a slow update a second click could add the article or save the order twice.
+ */
+async function enterOrderIntoErp(client: SmoothOperatorClient, erpControls: ErpControls, orderData: Order, steps: StepRunner) {
+  const { windowId, elementIds: erpElementIds } = erpControls;
+  console.log(`Entering customer name: ${orderData.customerName} into element ${erpElementIds.elementIdCustomerName}`);
+  await steps.run("enter customer name", () => client.automation.setValue(erpElementIds.elementIdCustomerName, orderData.customerName));
+  
+  for (const article of orderData.orderedArticles) {
+    await steps.run(`enter article "${article.articleName}"`, async () => {
+      console.log(`Entering article: ${article.articleName}`);
+      await client.automation.setValue(erpElementIds.elementIdArticleName, article.articleName);
+      await client.automation.setValue(erpElementIds.elementIdQuantity, article.quantity.toString());
+      await client.automation.setValue(erpElementIds.elementIdPricePerUnit, article.pricePerUnit.toFixed(2));
+    });
+    
+    console.log("Clicking 'Add Item' button...");
+    await steps.run(`add article "${article.articleName}"`, () => waitForTreeChangeAfter(client, windowId,
+      () => client.automation.invoke(erpElementIds.elementIdAddItemButton)), { maxAttempts: 1 });
+  }
+  
+  console.log("Clicking 'Save Order' button...");
+  await steps.run("save order", () => waitForTreeChangeAfter(client, windowId,
+    () => client.automation.invoke(erpElementIds.elementIdSaveOrderButton)), { maxAttempts: 1 });
+}
+
+/**
+ * Read the saved order back from the ERP window and compare it with the order that was entered.
+ * Returns the differences in the format of the review queue, empty if the ERP shows the order as entered.
+ */
+async function verifyErpEntry(
+  client: SmoothOperatorClient,
+  erpControls: ErpControls,
+  orderData: Order,
+  steps: StepRunner,
+  selectors: ErpVerificationSelectors
+): Promise<OrderValidationError[]> {
+  console.log("Reading the saved order back from the ERP...");
+  try {
+    const tree = await steps.run("read back saved order", () => getWindowTree(client, erpControls.windowId));
+    if (!tree) {
+      throw new Error("the ERP window has no automation tree");
+    }
+    const diff = diffOrder(orderData, readErpOrder(tree, selectors));
+    if (!diff.matches) {
+      console.error(`The ERP shows a different order than the one entered:\n${formatOrderDiff(diff)}`);
+      return toReviewErrors(diff);
+    }
+    console.log("Verified the saved order in the ERP.");
+    return [];
+  } catch (ex) {
+    console.error(`Could not verify the saved order: ${ex}`);
+    return [{ path: "", message: `could not read the saved order back: ${ex instanceof Error ? ex.message : ex}` }];
+  }
+}
+
+/**
+ * Enter orders into the Mini ERP Mock (or the application of erpExePath) with UI automation.
+ * open downloads and launches the ERP and finds its controls; every order is read back after saving
+ * unless skipVerification is set.
+ */
+export function createUiErpAdapter(
+  client: SmoothOperatorClient,
+  llm: LlmProvider,
+  steps: StepRunner,
+  options: UiErpAdapterOptions = {}
+): ErpAdapter {
+  let erpControls: ErpControls | null = null;
+  return {
+    name: "Mini ERP Mock",
+    async open() {
+      // --- Download and Run Mock ERP ---
+      let erpExePath = options.erpExePath;
+      if (!erpExePath) {
+        try {
+          erpExePath = await fetchArtifact(options.mockErpArtifact ?? MOCK_ERP_ARTIFACT,
+            { cacheDir: options.artifactCacheDir, offlinePath: options.erpOfflinePath, steps });
+        } catch (ex) {
+          if (ex instanceof StepError) {
+            throw ex;
+          }
+          throw new ErpAdapterError(`Failed to get the mock ERP application: ${ex instanceof Error ? ex.message : ex}`, "ERP download failed");
+        }
+      }
+      console.log(`Using ERP application: ${erpExePath}`);
+      
+      try {
+        console.log("Launching mock ERP application...");
+        await steps.run("launch ERP", () => client.system.openApplication(erpExePath));
+        // The wait has its own timeout, retrying it would only wait longer
+        await steps.run("wait for ERP window", () =>
+          waitForWindow(client, options.erpWindowSelector ?? DEFAULT_ERP_WINDOW_SELECTOR, { timeoutMs: 60000 }), { maxAttempts: 1 });
+        console.log("Mock ERP application launched.");
+      } catch (ex) {
+        if (ex instanceof StepError) {
+          throw ex;
+        }
+        throw new ErpAdapterError(`Error with mock ERP application: ${ex}`, "ERP launch failed");
+      }
+      
+      // --- Find the ERP Controls ---
+      console.log("Attempting to automate data entry into mock ERP...");
+      try {
+        erpControls = await findErpControls(client, llm, openSelectorCache(options.selectorCachePath), steps, options);
+      } catch (ex) {
+        if (ex instanceof StepError) {
+          throw ex;
+        }
+        console.error(`Error while looking for the ERP controls: ${ex}`);
+      }
+      if (!erpControls) {
+        throw new ErpAdapterError("Could not find the ERP controls.", "ERP controls not found");
+      }
+    },
+    async enterOrder(order) {
+      if (!erpControls) {
+        throw new Error("The ERP is not open, call open first.");
+      }
+      await enterOrderIntoErp(client, erpControls, order, steps);
+      console.log("Data entry automation complete.");
+      
+      // --- Verify the Saved Order ---
+      if (options.skipVerification) {
+        return { status: "entered" };
+      }
+      const differences = await verifyErpEntry(client, erpControls, order, steps,
+        { ...DEFAULT_ERP_VERIFICATION_SELECTORS, ...options.erpVerificationSelectors });
+      return differences.length > 0 ? { status: "mismatch", differences } : { status: "entered" };
+    },
+  };
+}
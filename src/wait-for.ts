@@ -0,0 +1,170 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { AutomationNode, windowListToTree } from './automation-tree';
+import { queryAll } from './tree-query';
+
+/**
+ * Timing of a wait
+ */
+export interface WaitOptions {
+  /** Give up after this many milliseconds (default: DEFAULT_WAIT_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Check the condition every this many milliseconds (default: DEFAULT_POLL_INTERVAL_MS) */
+  pollIntervalMs?: number;
+}
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+export const DEFAULT_POLL_INTERVAL_MS = 500;
+
+/**
+ * Thrown when a condition did not become true in time
+ */
+export class WaitTimeoutError extends Error {
+  constructor(
+    public readonly description: string,
+    public readonly timeoutMs: number,
+    public readonly lastError?: unknown
+  ) {
+    super(`Timed out after ${timeoutMs} ms waiting for ${description}`
+      + (lastError ? ` (last error: ${lastError instanceof Error ? lastError.message : lastError})` : ""));
+    this.name = "WaitTimeoutError";
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Poll probe until it returns a value other than null, undefined or false and return that value.
+ * Errors thrown by probe count as "not yet" and are reported if the wait times out.
+ */
+export async function waitFor<T>(
+  description: string,
+  probe: () => Promise<T | null | undefined | false>,
+  options: WaitOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const deadline = Date.now() + timeoutMs;
+  let lastError: unknown;
+
+  for (;;) {
+    try {
+      const result = await probe();
+      if (result !== null && result !== undefined && result !== false) {
+        return result;
+      }
+      lastError = undefined;
+    } catch (error) {
+      lastError = error;
+    }
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new WaitTimeoutError(description, timeoutMs, lastError);
+    }
+    await delay(pollIntervalMs);
+  }
+}
+
+/**
+ * Wait until a window matching the selector (e.g. 'Window[name~="Gmail"]') is open and return it
+ */
+export function waitForWindow(client: SmoothOperatorClient, windowSelector: string, options?: WaitOptions) {
+  return waitFor(`a window matching '${windowSelector}'`, async () => {
+    const overview = await client.system.getOverview();
+    return queryAll(windowListToTree(overview.windows ?? []), windowSelector)[0];
+  }, options);
+}
+
+/**
+ * The automation tree of a window
+ */
+export async function getWindowTree(client: SmoothOperatorClient, windowId: string): Promise<AutomationNode | null> {
+  const windowDetails = await client.system.getWindowDetails(windowId);
+  return windowDetails?.userInterfaceElements ?? null;
+}
+
+/**
+ * Wait until an element matching the selector appears in the window and return it
+ */
+export function waitForElement(client: SmoothOperatorClient, windowId: string, selector: string, options?: WaitOptions) {
+  return waitFor(`an element matching '${selector}'`, async () => {
+    const tree = await getWindowTree(client, windowId);
+    return tree && queryAll(tree, selector)[0];
+  }, options);
+}
+
+/**
+ * Wait until the focused element matches the selector, e.g. "Edit" after clicking into an input field
+ */
+export function waitForFocusedElement(client: SmoothOperatorClient, selector: string, options?: WaitOptions) {
+  return waitFor(`the focused element to match '${selector}'`, async () => {
+    const overview = await client.system.getOverview();
+    const focused: AutomationNode | undefined = overview.focusInfo?.focusedElement;
+    return focused && queryAll(focused, selector).includes(focused) && focused;
+  }, options);
+}
+
+/**
+ * Run action and wait until the automation tree of the window changed, e.g. after clicking "Add Item"
+ */
+export async function waitForTreeChangeAfter(
+  client: SmoothOperatorClient,
+  windowId: string,
+  action: () => Promise<unknown>,
+  options?: WaitOptions
+) {
+  const before = JSON.stringify(await getWindowTree(client, windowId));
+  await action();
+  await waitFor("the window to update", async () => {
+    const after = JSON.stringify(await getWindowTree(client, windowId));
+    return after !== before;
+  }, options);
+}
+
+/**
+ * The text of the current Chrome tab ("" if it cannot be read)
+ */
+export async function getChromeText(client: SmoothOperatorClient): Promise<string> {
+  const response = await client.chrome.getText();
+  return response?.success ? response.resultValue ?? "" : "";
+}
+
+/**
+ * Wait until the text of the current Chrome tab satisfies the predicate and return the text.
+ * A string predicate checks that the text contains it (case-insensitive).
+ */
+export function waitForChromeText(
+  client: SmoothOperatorClient,
+  predicate: string | ((text: string) => boolean),
+  options?: WaitOptions
+) {
+  const matches = typeof predicate === "string"
+    ? (text: string) => text.toLowerCase().includes(predicate.toLowerCase())
+    : predicate;
+  const description = typeof predicate === "string" ? `the Chrome tab to contain '${predicate}'` : "the Chrome tab text";
+  return waitFor(description, async () => {
+    const text = await getChromeText(client);
+    return matches(text) && text;
+  }, options);
+}
+
+/**
+ * Wait until the text of the current Chrome tab differs from previousText and has stopped changing,
+ * e.g. after clicking a link, and return it
+ */
+export async function waitForChromeTextChange(client: SmoothOperatorClient, previousText: string, options?: WaitOptions) {
+  await waitForChromeText(client, text => text !== previousText, options);
+  return waitForStableChromeText(client, options);
+}
+
+/**
+ * Wait until the text of the current Chrome tab stops changing (e.g. after scrolling loaded more content)
+ * and return it
+ */
+export async function waitForStableChromeText(client: SmoothOperatorClient, options?: WaitOptions) {
+  let previous: string | null = null;
+  return waitFor("the Chrome tab to finish loading", async () => {
+    const text = await getChromeText(client);
+    const isStable = text === previous;
+    previous = text;
+    return isStable && text;
+  }, options);
+}
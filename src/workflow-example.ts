@@ -0,0 +1,97 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { createLlmProviderFromConfig, LlmProvider } from './llm-provider';
+import { createClientFromConfig } from './automation-client';
+import { Config, loadConfig } from './config';
+import { RunLog, createLoggingClient, createLoggingLlmProvider } from './run-log';
+import { createStepRunner, printStepSummary, RetryOptions } from './step-runner';
+import { loadWorkflow, Workflow } from './workflow';
+import { runWorkflow } from './workflow-interpreter';
+import { createGuardedClient } from './action-guard';
+
+/**
+ * Options for running a workflow file
+ */
+export interface WorkflowExampleOptions {
+  /** Path of the workflow file (.yaml, .yml or .json) */
+  file: string;
+  /** Only validate the file and print what the steps would do */
+  dryRun?: boolean;
+  /** Values that override the variables of the workflow file */
+  variables?: Record<string, string>;
+  /** Retries of failed steps, override retry of the config (default: DEFAULT_RETRY_OPTIONS) */
+  retry?: Partial<RetryOptions>;
+  /** Event log and artifacts of the run, see createRunLog (default: none) */
+  runLog?: RunLog;
+  /** Settings such as the API keys (default: loadConfig(), from the config file, the environment and the .env file) */
+  config?: Config;
+  /** Client to use instead of creating one, e.g. a replay client (default: createClientFromConfig) */
+  client?: SmoothOperatorClient;
+  /** URL of an already running Smooth Operator server, e.g. "http://localhost:54321" */
+  serverUrl?: string;
+}
+
+/**
+ * Load, validate and run a workflow file. Returns true if every step succeeded.
+ */
+export async function runWorkflowExample(options: WorkflowExampleOptions): Promise<boolean> {
+  let workflow: Workflow;
+  try {
+    workflow = loadWorkflow(options.file);
+  } catch (error: any) {
+    console.error(`Error: ${error.message || error}`);
+    return false;
+  }
+  console.log(`Workflow file ${options.file} is valid.`);
+
+  // The language model is OpenAI by default, see createLlmProviderFromConfig for the alternatives
+  let llm: LlmProvider | null = null;
+  let client: SmoothOperatorClient | null = null;
+  let retry = options.retry;
+  if (!options.dryRun) {
+    try {
+      // The settings can be passed in, otherwise they are read from the config file, the environment and the .env file
+      const config = options.config ?? loadConfig();
+      llm = createLlmProviderFromConfig(config.llm);
+      retry = { ...config.retry, ...options.retry };
+      client = options.client ?? createClientFromConfig(config, options.serverUrl);
+      // Destructive actions need an opt-in or a confirmation, see action-guard.ts
+      client = client && createGuardedClient(client, config.safety);
+    } catch (error: any) {
+      console.error(`Error: ${error.message || error}`);
+      return false;
+    }
+    if (!client) {
+      console.error("Error: SCREENGRASP_API_KEY not found in .env file. Get a free key at https://screengrasp.com/api.html");
+      return false;
+    }
+    // Client calls and language model requests are written to the run log, see run-log.ts
+    if (options.runLog) {
+      client = createLoggingClient(client, options.runLog);
+      llm = llm && createLoggingLlmProvider(llm, options.runLog);
+    }
+
+    console.log("Starting server (can take a while, especially on first run, because it's installing the server)...");
+    try {
+      await client.startServer();
+    } catch (error) {
+      console.error("Failed to start server:", error);
+      return false;
+    }
+  }
+
+  const steps = createStepRunner(retry, options.runLog?.recordStep);
+  try {
+    await runWorkflow(workflow, { client, llm, steps, dryRun: options.dryRun, variables: options.variables, runLog: options.runLog });
+    console.log(`Workflow "${workflow.name}" ${options.dryRun ? "checked" : "finished"}.`);
+    return true;
+  } catch (error: any) {
+    console.error(`Workflow "${workflow.name}" failed: ${error.message || error}`);
+    return false;
+  } finally {
+    printStepSummary(steps.outcomes);
+    if (client) {
+      console.log("Stopping server...");
+      client.stopServer();
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import { LlmProvider, LlmTask } from './llm-provider';
+import { createStepRunner, StepRunner } from './step-runner';
+import { createOrderEmailSource, OrderEmailSourceKind } from './order-email-sources';
+import { validateOrder, DEFAULT_ORDER_RULES } from './order-validation';
+import { ORDER_OUTPUT } from './order';
+import { completeStructured, parseJsonAnswer, StructuredOutput, StructuredOutputError } from './structured-output';
+import { queryIds } from './tree-query';
+import { RunLog } from './run-log';
+import { expectFocusedWindow } from './action-guard';
+import { waitForWindow, waitForTreeChangeAfter, getWindowTree } from './wait-for';
+import {
+  Workflow,
+  WorkflowStep,
+  WorkflowActionName,
+  Condition,
+  WorkflowError,
+  UNKNOWN_VALUE,
+  renderTemplate,
+  evaluateCondition,
+} from './workflow';
+
+/**
+ * What a workflow runs with
+ */
+export interface WorkflowRunOptions {
+  /** Not used (and may be null) in a dry run */
+  client: SmoothOperatorClient | null;
+  /** Needed by llm.extract steps */
+  llm: LlmProvider | null;
+  /** Runs the client calls with retries (default: a runner with default retries) */
+  steps?: StepRunner;
+  /** Only print what the steps would do, without calling the client or the language model */
+  dryRun?: boolean;
+  /** Values that override the variables of the workflow file */
+  variables?: Record<string, unknown>;
+  /** Run log the email content is registered with for redaction */
+  runLog?: RunLog;
+}
+
+// Parameters of a step after rendering the templates
+type Parameters = Record<string, unknown>;
+
+interface RunContext {
+  options: WorkflowRunOptions;
+  steps: StepRunner;
+  variables: Record<string, unknown>;
+}
+
+// The client, which is only missing in a dry run
+function requireClient(context: RunContext, path: string): SmoothOperatorClient {
+  if (!context.options.client) {
+    throw new WorkflowError("No Smooth Operator client to run the step with", path);
+  }
+  return context.options.client;
+}
+
+/**
+ * Implementations of the actions that call the client or the language model; they return the value
+ * stored in the "saveAs" variable. set, log, fail, forEach and if are handled by runSteps.
+ */
+const clientActions: Record<
+  Exclude<WorkflowActionName, "set" | "log" | "fail" | "forEach" | "if">,
+  (context: RunContext, parameters: Parameters, path: string) => Promise<unknown>
+> = {
+  "system.openApplication": (context, p, path) =>
+    requireClient(context, path).system.openApplication(String(p.application)),
+  "system.getOverview": (context, _p, path) =>
+    requireClient(context, path).system.getOverview(),
+  "system.getWindowDetails": (context, p, path) =>
+    getWindowTree(requireClient(context, path), String(p.window)),
+  "keyboard.type": (context, p, path) => {
+    const client = requireClient(context, path);
+    expectFocusedWindow(client, p.window === undefined ? null : String(p.window));
+    return client.keyboard.type(String(p.text));
+  },
+  "keyboard.press": (context, p, path) =>
+    requireClient(context, path).keyboard.press(String(p.key)),
+  "mouse.clickByDescription": (context, p, path) =>
+    requireClient(context, path).mouse.clickByDescription(String(p.description)),
+  "chrome.openChrome": (context, p, path) =>
+    requireClient(context, path).chrome.openChrome(String(p.url)),
+  "chrome.navigate": (context, p, path) =>
+    requireClient(context, path).chrome.navigate(String(p.url)),
+  "chrome.getText": async (context, _p, path) => {
+    const response = await requireClient(context, path).chrome.getText();
+    return response?.resultValue ?? "";
+  },
+  "automation.findElements": async (context, p, path) => {
+    const tree = await getWindowTree(requireClient(context, path), String(p.window));
+    if (!tree) {
+      throw new WorkflowError(`Window ${p.window} has no automation tree`, path);
+    }
+    return queryIds(tree, p.elements as Record<string, string>);
+  },
+  "automation.setValue": (context, p, path) =>
+    requireClient(context, path).automation.setValue(String(p.element), String(p.value)),
+  "automation.invoke": async (context, p, path) => {
+    const client = requireClient(context, path);
+    if (p.window === undefined) {
+      return client.automation.invoke(String(p.element));
+    }
+    await waitForTreeChangeAfter(client, String(p.window), () => client.automation.invoke(String(p.element)));
+  },
+  "screenshot.take": (context, _p, path) =>
+    requireClient(context, path).screenshot.take(),
+  "email.getOrderEmail": async (context, p, path) => {
+    const source = createOrderEmailSource(requireClient(context, path), {
+      kind: p.source as OrderEmailSourceKind,
+      searchText: String(p.searchText),
+      filePath: p.file === undefined || p.file === "" ? undefined : String(p.file),
+      steps: context.steps,
+    });
+    const [email] = await source.getOrderEmails(1);
+    if (!email) {
+      throw new WorkflowError(`No email with subject '${p.searchText}' found via ${source.name}`, path);
+    }
+    context.options.runLog?.addEmailContent(email.subject, email.text);
+    return email;
+  },
+  "llm.extract": async (context, p, path) => {
+    const llm = context.options.llm;
+    if (!llm) {
+      throw new WorkflowError("No language model configured (OPENAI_API_KEY or LLM_PROVIDER)", path);
+    }
+    const image = p.image as { imageBase64?: string } | string | undefined;
+    const base64 = typeof image === "string" ? image : image?.imageBase64;
+    const json = p.json !== false;
+    const request = { task: p.task as LlmTask, prompt: String(p.prompt), images: base64 ? [{ base64 }] : undefined };
+    if (p.output !== undefined) {
+      const output = structuredOutputs[String(p.output)];
+      if (!output) {
+        throw new WorkflowError(`Unknown output "${p.output}", expected one of ${Object.keys(structuredOutputs).join(", ")}`, path);
+      }
+      try {
+        return await completeStructured(llm, output, request);
+      } catch (error) {
+        // An answer in the wrong form is left to the following steps, e.g. order.validate lists its problems
+        if (error instanceof StructuredOutputError && error.kind === "schema") {
+          console.warn(error.message);
+          return error.value;
+        }
+        throw error;
+      }
+    }
+    const answer = await llm.complete({ ...request, json });
+    if (!json) {
+      return answer;
+    }
+    try {
+      return parseJsonAnswer(answer);
+    } catch {
+      throw new WorkflowError(`The language model did not answer with JSON: ${answer.slice(0, 200)}`, path);
+    }
+  },
+  "order.validate": async (_context, p) => validateOrder(p.order, DEFAULT_ORDER_RULES),
+  "wait.window": (context, p, path) =>
+    waitForWindow(requireClient(context, path), String(p.selector), { timeoutMs: p.timeoutMs as number | undefined }),
+};
+
+// The outputs of WORKFLOW_OUTPUTS
+const structuredOutputs: Record<string, StructuredOutput<unknown>> = {
+  order: ORDER_OUTPUT,
+};
+
+// Short description of the parameters for the log, e.g. 'text="3+4"'
+function describeParameters(parameters: Parameters): string {
+  return Object.entries(parameters)
+    .filter(([name]) => name !== "saveAs")
+    .map(([name, value]) => {
+      const text = value === UNKNOWN_VALUE ? "<unknown>" : JSON.stringify(value) ?? "undefined";
+      return `${name}=${text.length > 60 ? `${text.slice(0, 57)}...` : text}`;
+    })
+    .join(" ");
+}
+
+async function runSteps(workflowSteps: WorkflowStep[], basePath: string, context: RunContext): Promise<void> {
+  const dryRun = context.options.dryRun ?? false;
+
+  for (let index = 0; index < workflowSteps.length; index++) {
+    const { action, name, ...rawParameters } = workflowSteps[index];
+    const path = `${basePath}[${index}]`;
+    const label = name ? `${path} ${name} (${action})` : `${path} ${action}`;
+
+    switch (action) {
+      case "forEach": {
+        const items = renderTemplate(rawParameters.items, context.variables);
+        const as = String(rawParameters.as);
+        const body = rawParameters.steps as WorkflowStep[];
+        if (items === UNKNOWN_VALUE) {
+          console.log(`${label}: for each item (known when running) as ${as}:`);
+          context.variables[as] = UNKNOWN_VALUE;
+          await runSteps(body, `${path}.steps`, context);
+          break;
+        }
+        if (!Array.isArray(items)) {
+          throw new WorkflowError(`forEach needs a list, got ${JSON.stringify(items)}`, path);
+        }
+        console.log(`${label}: ${items.length} item(s)`);
+        for (const item of items) {
+          context.variables[as] = item;
+          await runSteps(body, `${path}.steps`, context);
+        }
+        break;
+      }
+      case "if": {
+        const condition = rawParameters.condition as Condition;
+        const result = evaluateCondition(condition, context.variables);
+        const thenSteps = rawParameters.then as WorkflowStep[];
+        const elseSteps = rawParameters.else as WorkflowStep[] | undefined;
+        if (result === undefined) {
+          // Dry run: the condition depends on a result that is not known yet, show both branches
+          console.log(`${label}: ${JSON.stringify(condition)} is known when running; then:`);
+          await runSteps(thenSteps, `${path}.then`, context);
+          if (elseSteps) {
+            console.log(`${label}: else:`);
+            await runSteps(elseSteps, `${path}.else`, context);
+          }
+          break;
+        }
+        console.log(`${label}: ${JSON.stringify(condition)} is ${result}`);
+        if (result) {
+          await runSteps(thenSteps, `${path}.then`, context);
+        } else if (elseSteps) {
+          await runSteps(elseSteps, `${path}.else`, context);
+        }
+        break;
+      }
+      case "set":
+        Object.assign(context.variables, renderTemplate(rawParameters.variables, context.variables));
+        break;
+      case "log":
+        console.log(renderTemplate(rawParameters.message, context.variables));
+        break;
+      case "fail": {
+        const message = String(renderTemplate(rawParameters.message, context.variables));
+        if (dryRun) {
+          console.log(`${label}: would fail with "${message}"`);
+          break;
+        }
+        throw new WorkflowError(message, path);
+      }
+      default: {
+        const parameters = renderTemplate(rawParameters, context.variables) as Parameters;
+        const saveAs = parameters.saveAs as string | undefined;
+        if (dryRun) {
+          console.log(`${label} ${describeParameters(parameters)}`.trimEnd());
+          if (saveAs) {
+            context.variables[saveAs] = UNKNOWN_VALUE;
+          }
+          break;
+        }
+        console.log(`${label}...`);
+        const run = clientActions[action];
+        // A wait has its own timeout and the email sources retry their own steps
+        const result = await context.steps.run(label, () => run(context, parameters, path),
+          action === "wait.window" || action === "email.getOrderEmail" ? { maxAttempts: 1 } : {});
+        if (saveAs) {
+          context.variables[saveAs] = result;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Run the steps of a validated workflow (see loadWorkflow) and return the variables at the end.
+ * Throws a WorkflowError (or the StepError of the failed step) if a step fails.
+ */
+export async function runWorkflow(workflow: Workflow, options: WorkflowRunOptions): Promise<Record<string, unknown>> {
+  const context: RunContext = {
+    options,
+    steps: options.steps ?? createStepRunner(),
+    variables: { ...workflow.variables, ...options.variables },
+  };
+  console.log(`${options.dryRun ? "Dry run of" : "Running"} workflow "${workflow.name}"...`);
+  await runSteps(workflow.steps, "steps", context);
+  return context.variables;
+}
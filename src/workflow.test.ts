@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SmoothOperatorClient } from 'smooth-operator-agent-tools';
+import {
+  loadWorkflow, validateWorkflow, renderTemplate, evaluateCondition, UNKNOWN_VALUE, WorkflowError,
+} from './workflow';
+import { runWorkflow } from './workflow-interpreter';
+import { createScriptedProvider } from './llm-replay-provider';
+
+const workflowsDir = path.join(__dirname, "..", "workflows");
+
+test("the shipped workflow files are valid", () => {
+  for (const file of fs.readdirSync(workflowsDir).filter(name => /\.ya?ml$/.test(name))) {
+    assert.doesNotThrow(() => loadWorkflow(path.join(workflowsDir, file)), file);
+  }
+});
+
+test("validation lists every problem", () => {
+  const { workflow, errors } = validateWorkflow({
+    name: "Bad",
+    extra: 1,
+    steps: [
+      { action: "keyboard.typ", text: "hi" },
+      { action: "keyboard.type" },
+      { action: "log", message: "{{missing.x}}" },
+      { action: "if", condition: { exists: "foo", equals: [1, 2] }, then: [] },
+    ],
+  });
+  assert.equal(workflow, null);
+  assert.deepEqual(errors.map(error => error.path), ["extra", "steps[0].action", "steps[1].text", "steps[2].message", "steps[3].condition"]);
+  assert.match(errors[1].message, /unknown action "keyboard.typ"/);
+  assert.equal(errors[3].message, 'uses the variable "missing" before it is set');
+});
+
+test("variables set by earlier steps can be used", () => {
+  const { errors } = validateWorkflow({
+    name: "Ok",
+    steps: [
+      { action: "chrome.getText", saveAs: "page" },
+      { action: "forEach", items: "{{page}}", as: "line", steps: [{ action: "log", message: "{{line}}" }] },
+    ],
+  });
+  assert.deepEqual(errors, []);
+});
+
+test("llm.extract accepts every language model task", () => {
+  const step = (task: string) => ({ action: "llm.extract", task, prompt: "What is next?", json: false, saveAs: "answer" });
+  assert.deepEqual(validateWorkflow({ name: "Tasks", steps: ["agent-action", "order-extraction"].map(step) }).errors, []);
+  assert.match(validateWorkflow({ name: "Tasks", steps: [step("poem")] }).errors[0].message, /unknown task "poem", expected one of .*agent-action/);
+});
+
+test("templates with paths and filters", () => {
+  const variables = {
+    order: { customerName: "Smith", orderedArticles: [{ articleName: "Mouse", pricePerUnit: 10.5 }] },
+    answer: UNKNOWN_VALUE,
+  };
+  assert.equal(renderTemplate("Customer: {{order.customerName}}", variables), "Customer: Smith");
+  assert.equal(renderTemplate("{{ order.orderedArticles[0].pricePerUnit | fixed:2 }}", variables), "10.50");
+  assert.equal(renderTemplate("{{order.orderedArticles | json}}", variables), '[{"articleName":"Mouse","pricePerUnit":10.5}]');
+  // A single template keeps the type of the value
+  assert.deepEqual(renderTemplate({ items: "{{order.orderedArticles}}" }, variables), { items: variables.order.orderedArticles });
+  assert.equal(renderTemplate("Result: {{answer.text}}", variables), "Result: <answer.text>");
+  assert.throws(() => renderTemplate("{{nothing}}", variables), WorkflowError);
+  assert.throws(() => renderTemplate("{{order | upper}}", variables), /Unknown filter "upper"/);
+  assert.throws(() => renderTemplate("{{order.customerName | fixed:2}}", variables), /is not a number/);
+});
+
+test("conditions", () => {
+  const variables = { list: [], name: "Smith", unknown: UNKNOWN_VALUE };
+  assert.equal(evaluateCondition({ exists: "name" }, variables), true);
+  assert.equal(evaluateCondition({ exists: "list" }, variables), false);
+  assert.equal(evaluateCondition({ not: { exists: "name.first" } }, variables), true);
+  assert.equal(evaluateCondition({ equals: ["{{name}}", "Smith"] }, variables), true);
+  assert.equal(evaluateCondition({ notEquals: ["{{name}}", "Smith"] }, variables), false);
+  assert.equal(evaluateCondition({ equals: ["{{unknown}}", "x"] }, variables), undefined);
+});
+
+test("the calculator workflow runs against a fake client", async t => {
+  t.mock.method(console, "log", () => {});
+  const calls: string[] = [];
+  const calculator = { id: "w1", title: "Calculator" };
+  const client = {
+    system: {
+      openApplication: async (application: string) => { calls.push(`open ${application}`); return { success: true }; },
+      getOverview: async () => ({ windows: [calculator] }),
+      getWindowDetails: async (id: string) => ({ userInterfaceElements: { id, name: "Display is 84", controlType: "Text" } }),
+    },
+    keyboard: { type: async (text: string) => { calls.push(`type ${text}`); return { success: true }; } },
+    mouse: { clickByDescription: async (description: string) => { calls.push(`click ${description}`); return { success: true }; } },
+  } as unknown as SmoothOperatorClient;
+
+  const variables = await runWorkflow(loadWorkflow(path.join(workflowsDir, "calculator.yaml")), {
+    client,
+    llm: createScriptedProvider(["84"]),
+    variables: { expression: "12*7" },
+  });
+  assert.deepEqual(calls, ["open calc", "type 12*7", "click the equals sign"]);
+  assert.equal(variables.result, "84");
+});
+
+test("a dry run calls neither the client nor the language model", async t => {
+  t.mock.method(console, "log", () => {});
+  const variables = await runWorkflow(loadWorkflow(path.join(workflowsDir, "calculator.yaml")), {
+    client: null,
+    llm: null,
+    dryRun: true,
+  });
+  assert.equal(variables.result, UNKNOWN_VALUE);
+});
@@ -0,0 +1,491 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { LlmTask, LLM_TASKS } from './llm-provider';
+
+/*
+ * Workflow files describe an automation as a list of steps, in YAML or JSON:
+ *
+ *   name: Calculator
+ *   variables:
+ *     expression: "3+4"
+ *   steps:
+ *     - action: system.openApplication
+ *       application: calc
+ *     - action: keyboard.type
+ *       text: "{{expression}}"
+ *     - action: system.getOverview
+ *       saveAs: overview
+ *
+ * Parameters can use {{variable}} templates. A parameter that is only a template (e.g. items: "{{order.orderedArticles}}")
+ * gets the variable itself, otherwise its text representation. Paths can use dots and indexes
+ * ({{order.orderedArticles[0].articleName}}) and the filters "json" and "fixed:<digits>" ({{article.pricePerUnit | fixed:2}}).
+ */
+
+/**
+ * Types a step parameter can have; "steps" is a nested list of steps, "condition" a Condition
+ */
+type ParameterType = "string" | "number" | "boolean" | "map" | "any" | "steps" | "condition";
+
+interface ParameterSpec {
+  type: ParameterType;
+  required?: boolean;
+  description: string;
+}
+
+/**
+ * Parameters of every action. Actions with a "saveAs" parameter store their result in that variable.
+ */
+export const WORKFLOW_ACTIONS = {
+  "system.openApplication": {
+    application: { type: "string", required: true, description: "Application name or path, e.g. calc" },
+  },
+  "system.getOverview": {
+    saveAs: { type: "string", description: "Variable for the overview (windows and focus information)" },
+  },
+  "system.getWindowDetails": {
+    window: { type: "string", required: true, description: "Window ID" },
+    saveAs: { type: "string", description: "Variable for the automation tree of the window" },
+  },
+  "keyboard.type": {
+    text: { type: "string", required: true, description: "Text to type" },
+    window: { type: "string", description: "Tree selector of the window that has to have the focus, e.g. Window[name~=\"Calculator\"]" },
+  },
+  "keyboard.press": {
+    key: { type: "string", required: true, description: "Key or combination, e.g. Enter or Ctrl+E" },
+  },
+  "mouse.clickByDescription": {
+    description: { type: "string", required: true, description: "Description of what to click, e.g. the equals sign" },
+  },
+  "chrome.openChrome": {
+    url: { type: "string", required: true, description: "URL to open" },
+  },
+  "chrome.navigate": {
+    url: { type: "string", required: true, description: "URL to navigate to" },
+  },
+  "chrome.getText": {
+    saveAs: { type: "string", description: "Variable for the text of the current tab" },
+  },
+  "automation.findElements": {
+    window: { type: "string", required: true, description: "Window ID" },
+    elements: { type: "map", required: true, description: "Names and tree selectors of the elements, see tree-query.ts" },
+    saveAs: { type: "string", required: true, description: "Variable for the element IDs by name" },
+  },
+  "automation.setValue": {
+    element: { type: "string", required: true, description: "Element ID" },
+    value: { type: "string", required: true, description: "Value to set" },
+  },
+  "automation.invoke": {
+    element: { type: "string", required: true, description: "Element ID" },
+    window: { type: "string", description: "Window ID; if set, waits until the window changed" },
+  },
+  "screenshot.take": {
+    saveAs: { type: "string", description: "Variable for the screenshot" },
+  },
+  "email.getOrderEmail": {
+    source: { type: "string", required: true, description: "gmail, outlook or file" },
+    searchText: { type: "string", required: true, description: "Subject to search for" },
+    file: { type: "string", description: "Path to an .eml or mbox file (source file)" },
+    saveAs: { type: "string", required: true, description: "Variable for the email (subject, text or screenshot)" },
+  },
+  "llm.extract": {
+    task: { type: "string", required: true, description: "Language model task, e.g. order-extraction" },
+    prompt: { type: "string", required: true, description: "Prompt" },
+    image: { type: "any", description: "Screenshot to send along with the prompt" },
+    json: { type: "boolean", description: "Ask for and parse a JSON answer (default: true)" },
+    output: { type: "string", description: "Form of the JSON answer, added to the prompt and validated: order (default: any JSON)" },
+    saveAs: { type: "string", required: true, description: "Variable for the answer" },
+  },
+  "order.validate": {
+    order: { type: "any", required: true, description: "Extracted order" },
+    saveAs: { type: "string", required: true, description: "Variable for { order, errors }; order is null if invalid" },
+  },
+  "wait.window": {
+    selector: { type: "string", required: true, description: "Tree selector of the window, e.g. Window[name~=\"Calculator\"]" },
+    timeoutMs: { type: "number", description: "Timeout (default: 30000)" },
+    saveAs: { type: "string", description: "Variable for the window (id and name)" },
+  },
+  "set": {
+    variables: { type: "map", required: true, description: "Variables to set" },
+  },
+  "log": {
+    message: { type: "string", required: true, description: "Message to print" },
+  },
+  "fail": {
+    message: { type: "string", required: true, description: "Reason; ends the workflow as failed" },
+  },
+  "forEach": {
+    items: { type: "any", required: true, description: "List to loop over" },
+    as: { type: "string", required: true, description: "Variable for the current item" },
+    steps: { type: "steps", required: true, description: "Steps run for every item" },
+  },
+  "if": {
+    condition: { type: "condition", required: true, description: "Condition" },
+    then: { type: "steps", required: true, description: "Steps run if the condition is true" },
+    else: { type: "steps", description: "Steps run otherwise" },
+  },
+} satisfies Record<string, Record<string, ParameterSpec>>;
+
+export type WorkflowActionName = keyof typeof WORKFLOW_ACTIONS;
+
+/**
+ * A step: the action and its parameters, e.g. { action: "keyboard.type", text: "3+4" }
+ */
+export interface WorkflowStep {
+  action: WorkflowActionName;
+  /** Optional description for the log output */
+  name?: string;
+  [parameter: string]: unknown;
+}
+
+/**
+ * Condition of an "if" step; values can be templates.
+ * { exists: "order.customerName" } is true if the variable is set and not empty.
+ */
+export type Condition =
+  | { exists: string }
+  | { equals: [unknown, unknown] }
+  | { notEquals: [unknown, unknown] }
+  | { not: Condition };
+
+export interface Workflow {
+  name: string;
+  description?: string;
+  /** Variables with their default values; can be overridden when running the workflow */
+  variables: Record<string, unknown>;
+  steps: WorkflowStep[];
+}
+
+/**
+ * A problem found by validateWorkflow, e.g. { path: "steps[2].text", message: "is required" }
+ */
+export interface WorkflowValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a workflow file cannot be loaded or a step fails while running
+ */
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly path?: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "WorkflowError";
+  }
+}
+
+/**
+ * Value of a variable that is only known when the workflow really runs, e.g. the answer of the
+ * language model in a dry run. Templates render it as "<path>".
+ */
+export const UNKNOWN_VALUE: unique symbol = Symbol("unknown value");
+
+/** Structured outputs llm.extract can ask for, see completeStructured */
+export const WORKFLOW_OUTPUTS = ["order"];
+
+const templatePattern = /\{\{\s*([^}|]+?)\s*(?:\|\s*([^}]+?)\s*)?\}\}/g;
+
+// Variable names used in templates of the value, e.g. "order" for "{{order.customerName}}"
+function referencedVariables(value: unknown): string[] {
+  if (typeof value === "string") {
+    const names: string[] = [];
+    let match: RegExpExecArray | null;
+    templatePattern.lastIndex = 0;
+    while ((match = templatePattern.exec(value))) {
+      names.push(/^[^.[\s]+/.exec(match[1])![0]);
+    }
+    return names;
+  }
+  if (Array.isArray(value)) {
+    return ([] as string[]).concat(...value.map(referencedVariables));
+  }
+  if (value !== null && typeof value === "object") {
+    return ([] as string[]).concat(...Object.values(value).map(referencedVariables));
+  }
+  return [];
+}
+
+function validateCondition(condition: unknown, path: string, errors: WorkflowValidationError[]) {
+  if (condition === null || typeof condition !== "object" || Array.isArray(condition)) {
+    errors.push({ path, message: "must be an object with exists, equals, notEquals or not" });
+    return;
+  }
+  const keys = Object.keys(condition);
+  const [key] = keys;
+  const value = (condition as Record<string, unknown>)[key];
+  if (keys.length !== 1) {
+    errors.push({ path, message: `must have exactly one of exists, equals, notEquals or not, found ${keys.join(", ") || "none"}` });
+  } else if (key === "exists") {
+    if (typeof value !== "string") {
+      errors.push({ path: `${path}.exists`, message: "must be a variable path, e.g. order.customerName" });
+    }
+  } else if (key === "equals" || key === "notEquals") {
+    if (!Array.isArray(value) || value.length !== 2) {
+      errors.push({ path: `${path}.${key}`, message: "must be a list of two values" });
+    }
+  } else if (key === "not") {
+    validateCondition(value, `${path}.not`, errors);
+  } else {
+    errors.push({ path, message: `unknown condition "${key}", expected exists, equals, notEquals or not` });
+  }
+}
+
+// Variables a condition reads
+function conditionVariables(condition: Condition): string[] {
+  if ("exists" in condition) {
+    return [condition.exists.split(/[.[]/)[0]];
+  }
+  if ("not" in condition) {
+    return conditionVariables(condition.not);
+  }
+  return referencedVariables("equals" in condition ? condition.equals : condition.notEquals);
+}
+
+function validateSteps(steps: unknown, path: string, defined: Set<string>, errors: WorkflowValidationError[]) {
+  if (!Array.isArray(steps)) {
+    errors.push({ path, message: "must be a list of steps" });
+    return;
+  }
+  steps.forEach((step, index) => {
+    const stepPath = `${path}[${index}]`;
+    if (step === null || typeof step !== "object" || Array.isArray(step)) {
+      errors.push({ path: stepPath, message: "must be an object with an action" });
+      return;
+    }
+    const { action, name, ...parameters } = step as Record<string, unknown>;
+    if (typeof action !== "string" || !(action in WORKFLOW_ACTIONS)) {
+      errors.push({
+        path: `${stepPath}.action`,
+        message: `unknown action "${action}", expected one of ${Object.keys(WORKFLOW_ACTIONS).join(", ")}`,
+      });
+      return;
+    }
+    if (name !== undefined && typeof name !== "string") {
+      errors.push({ path: `${stepPath}.name`, message: "must be a string" });
+    }
+
+    const specs: Record<string, ParameterSpec> = WORKFLOW_ACTIONS[action as WorkflowActionName];
+    for (const parameter of Object.keys(parameters)) {
+      if (!(parameter in specs)) {
+        errors.push({ path: `${stepPath}.${parameter}`, message: `unknown parameter of ${action}, expected ${Object.keys(specs).join(", ")}` });
+      }
+    }
+    for (const [parameter, spec] of Object.entries(specs)) {
+      const value = parameters[parameter];
+      const parameterPath = `${stepPath}.${parameter}`;
+      if (value === undefined) {
+        if (spec.required) {
+          errors.push({ path: parameterPath, message: "is required" });
+        }
+        continue;
+      }
+      // Templates are checked when the step runs, their type is only known then
+      const isTemplate = typeof value === "string" && /^\{\{[^}]+\}\}$/.test(value.trim());
+      if (spec.type === "steps" || spec.type === "condition" || parameter === "saveAs" || parameter === "as") {
+        continue;
+      }
+      if (spec.type === "map" ? value === null || typeof value !== "object" || Array.isArray(value)
+        : spec.type !== "any" && !isTemplate && typeof value !== spec.type && !(spec.type === "string" && typeof value === "number")) {
+        errors.push({ path: parameterPath, message: `must be a ${spec.type}` });
+      }
+      for (const variable of referencedVariables(value)) {
+        if (!defined.has(variable)) {
+          errors.push({ path: parameterPath, message: `uses the variable "${variable}" before it is set` });
+        }
+      }
+    }
+
+    const isFixed = (value: unknown): value is string => typeof value === "string" && !value.includes("{{");
+    if (action === "llm.extract" && isFixed(parameters.task) && !LLM_TASKS.includes(parameters.task as LlmTask)) {
+      errors.push({ path: `${stepPath}.task`, message: `unknown task "${parameters.task}", expected one of ${LLM_TASKS.join(", ")}` });
+    }
+    if (action === "llm.extract" && isFixed(parameters.output) && !WORKFLOW_OUTPUTS.includes(parameters.output)) {
+      errors.push({ path: `${stepPath}.output`, message: `unknown output "${parameters.output}", expected one of ${WORKFLOW_OUTPUTS.join(", ")}` });
+    }
+    if (action === "email.getOrderEmail" && isFixed(parameters.source) && !["gmail", "outlook", "file"].includes(parameters.source)) {
+      errors.push({ path: `${stepPath}.source`, message: `unknown email source "${parameters.source}", expected gmail, outlook or file` });
+    }
+
+    // Nested steps see the variables set so far; variables set inside them count as set afterwards,
+    // a loop or branch that does not run leaves them empty
+    if (action === "forEach") {
+      if (typeof parameters.as !== "string") {
+        errors.push({ path: `${stepPath}.as`, message: "must be a variable name" });
+      }
+      validateSteps(parameters.steps, `${stepPath}.steps`, new Set([...defined, String(parameters.as)]), errors);
+    } else if (action === "if") {
+      validateCondition(parameters.condition, `${stepPath}.condition`, errors);
+      if (errors.every(e => !e.path.startsWith(`${stepPath}.condition`))) {
+        for (const variable of conditionVariables(parameters.condition as Condition)) {
+          if (!defined.has(variable)) {
+            errors.push({ path: `${stepPath}.condition`, message: `uses the variable "${variable}" before it is set` });
+          }
+        }
+      }
+      validateSteps(parameters.then, `${stepPath}.then`, defined, errors);
+      if (parameters.else !== undefined) {
+        validateSteps(parameters.else, `${stepPath}.else`, defined, errors);
+      }
+    } else if (action === "set" && parameters.variables !== null && typeof parameters.variables === "object") {
+      Object.keys(parameters.variables).forEach(variable => defined.add(variable));
+    }
+
+    if (typeof parameters.saveAs === "string") {
+      defined.add(parameters.saveAs);
+    } else if (parameters.saveAs !== undefined) {
+      errors.push({ path: `${stepPath}.saveAs`, message: "must be a variable name" });
+    }
+  });
+}
+
+/**
+ * Check the structure of a parsed workflow file: known actions, required parameters and their types,
+ * and that every variable is set before it is used. Returns all problems, not only the first.
+ */
+export function validateWorkflow(raw: unknown): { workflow: Workflow | null; errors: WorkflowValidationError[] } {
+  const errors: WorkflowValidationError[] = [];
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { workflow: null, errors: [{ path: "", message: "must be an object with name and steps" }] };
+  }
+  const { name, description, variables = {}, steps, ...rest } = raw as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim()) {
+    errors.push({ path: "name", message: "is required" });
+  }
+  if (description !== undefined && typeof description !== "string") {
+    errors.push({ path: "description", message: "must be a string" });
+  }
+  for (const key of Object.keys(rest)) {
+    errors.push({ path: key, message: "unknown key, expected name, description, variables and steps" });
+  }
+  if (variables === null || typeof variables !== "object" || Array.isArray(variables)) {
+    errors.push({ path: "variables", message: "must be a map of names to values" });
+  }
+
+  const defined = new Set(variables !== null && typeof variables === "object" ? Object.keys(variables) : []);
+  validateSteps(steps, "steps", defined, errors);
+
+  return {
+    workflow: errors.length === 0 ? { name: name as string, description: description as string | undefined, variables: variables as Record<string, unknown>, steps: steps as WorkflowStep[] } : null,
+    errors,
+  };
+}
+
+export function formatWorkflowErrors(errors: WorkflowValidationError[]): string {
+  return errors.map(e => `  ${e.path || "(file)"}: ${e.message}`).join("\n");
+}
+
+/**
+ * Load and validate a workflow file (.yaml, .yml or .json); throws a WorkflowError listing all problems
+ */
+export function loadWorkflow(filePath: string): Workflow {
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, one parser reads both
+    raw = parseYaml(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new WorkflowError(`Could not read workflow file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  const { workflow, errors } = validateWorkflow(raw);
+  if (!workflow) {
+    throw new WorkflowError(`Invalid workflow file ${filePath}:\n${formatWorkflowErrors(errors)}`);
+  }
+  return workflow;
+}
+
+// Read a path like "order.orderedArticles[0].articleName" from the variables
+function resolvePath(variables: Record<string, unknown>, path: string): unknown {
+  const segments = path.split(/\.|\[(\d+)\]/).filter(segment => segment !== undefined && segment !== "");
+  let value: unknown = variables;
+  for (const segment of segments) {
+    if (value === UNKNOWN_VALUE) {
+      return UNKNOWN_VALUE;
+    }
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function applyFilter(value: unknown, filter: string | undefined, expression: string): unknown {
+  if (!filter || value === UNKNOWN_VALUE) {
+    return value;
+  }
+  if (filter === "json") {
+    return JSON.stringify(value);
+  }
+  const fixed = /^fixed:(\d+)$/.exec(filter);
+  if (fixed) {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new WorkflowError(`"${expression}" is not a number: ${JSON.stringify(value)}`);
+    }
+    return number.toFixed(Number(fixed[1]));
+  }
+  throw new WorkflowError(`Unknown filter "${filter}" in "${expression}", expected json or fixed:<digits>`);
+}
+
+const toText = (value: unknown): string =>
+  typeof value === "string" ? value : value === undefined || value === null ? "" : JSON.stringify(value);
+
+/**
+ * Replace the {{...}} templates in value (strings, lists and maps) with the variables.
+ * Fails for variables that are not set.
+ */
+export function renderTemplate(value: unknown, variables: Record<string, unknown>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, variables));
+  }
+  if (value !== null && typeof value === "object") {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      rendered[key] = renderTemplate(item, variables);
+    }
+    return rendered;
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  const lookup = (path: string, filter: string | undefined, expression: string) => {
+    const root = path.split(/[.[]/)[0];
+    if (!(root in variables)) {
+      throw new WorkflowError(`The variable "${root}" is not set`);
+    }
+    return applyFilter(resolvePath(variables, path), filter, expression);
+  };
+
+  // A parameter that is a single template gets the value itself, e.g. a list to loop over
+  const single = /^\{\{\s*([^}|]+?)\s*(?:\|\s*([^}]+?)\s*)?\}\}$/.exec(value.trim());
+  if (single) {
+    return lookup(single[1], single[2], value);
+  }
+  return value.replace(templatePattern, (expression, path: string, filter?: string) => {
+    const resolved = lookup(path, filter, expression);
+    return resolved === UNKNOWN_VALUE ? `<${path}>` : toText(resolved);
+  });
+}
+
+/**
+ * Evaluate the condition of an "if" step; undefined if it depends on an UNKNOWN_VALUE
+ */
+export function evaluateCondition(condition: Condition, variables: Record<string, unknown>): boolean | undefined {
+  if ("exists" in condition) {
+    const value = resolvePath(variables, condition.exists);
+    if (value === UNKNOWN_VALUE) {
+      return undefined;
+    }
+    return value !== undefined && value !== null && value !== "" && !(Array.isArray(value) && value.length === 0);
+  }
+  if ("not" in condition) {
+    const result = evaluateCondition(condition.not, variables);
+    return result === undefined ? undefined : !result;
+  }
+  const values = ("equals" in condition ? condition.equals : condition.notEquals).map(value => renderTemplate(value, variables));
+  if (values.includes(UNKNOWN_VALUE)) {
+    return undefined;
+  }
+  const [left, right] = values.map(toText);
+  return "equals" in condition ? left === right : left !== right;
+}